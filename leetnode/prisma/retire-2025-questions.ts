@@ -0,0 +1,34 @@
+import { PrismaClient, QuestionStatus } from "@prisma/client";
+
+// 2025 questions that were excluded from the question bank by a hard-coded list of ids
+// before questions had a lifecycle status
+const RETIRED_QUESTION_IDS = [
+  74, 79, 89, 90, 91, 92, 93, 94, 95, 96, 97, 98, 99, 100, 101, 102, 103, 104,
+  105, 106, 107, 108,
+];
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const { count } = await prisma.question.updateMany({
+    where: {
+      questionId: {
+        in: RETIRED_QUESTION_IDS,
+      },
+    },
+    data: {
+      questionStatus: QuestionStatus.Retired,
+    },
+  });
+  console.log(`${count} questions retired`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error(e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
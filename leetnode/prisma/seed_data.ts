@@ -7,7 +7,7 @@ import {
   Topic,
 } from "@prisma/client";
 
-export const Topics: Topic[] = [
+export const Topics: Prisma.TopicCreateManyInput[] = [
   {
     topicSlug: "power",
     topicName: "Power = V x I",
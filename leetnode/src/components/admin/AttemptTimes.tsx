@@ -0,0 +1,202 @@
+import axios from "axios";
+
+import { AttemptsInfoType } from "@/pages/admin";
+import { CustomMath } from "@/utils/CustomMath";
+import {
+  Badge,
+  Center,
+  Loader,
+  Paper,
+  ScrollArea,
+  SimpleGrid,
+  Table,
+  Text,
+} from "@mantine/core";
+import { QuestionDifficulty } from "@prisma/client";
+import { useQuery } from "@tanstack/react-query";
+
+// Questions need this many timed attempts before they can be flagged as slow
+const MIN_TIMED_ATTEMPTS = 3;
+
+type TimeDistribution = {
+  label: string;
+  count: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+};
+
+const distribution = (label: string, seconds: number[]): TimeDistribution => ({
+  label: label,
+  count: seconds.length,
+  p25: CustomMath.quantile(seconds, 0.25),
+  median: CustomMath.quantile(seconds, 0.5),
+  p75: CustomMath.quantile(seconds, 0.75),
+  p90: CustomMath.quantile(seconds, 0.9),
+});
+
+const formatSeconds = (seconds: number) =>
+  seconds < 60
+    ? `${Math.round(seconds)}s`
+    : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+type AttemptType = AttemptsInfoType[number];
+
+const questionKey = ({ questionWithAddedTime }: AttemptType) =>
+  `${questionWithAddedTime.questionId}-${questionWithAddedTime.variationId}`;
+
+const groupSeconds = (
+  attempts: AttemptType[],
+  key: (attempt: AttemptType) => string
+) => {
+  const groups: { [key: string]: number[] } = {};
+  attempts.forEach((attempt) => {
+    (groups[key(attempt)] ??= []).push(attempt.attemptSeconds ?? 0);
+  });
+  return groups;
+};
+
+const DistributionTable = ({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: TimeDistribution[];
+}) => (
+  <Table verticalSpacing="xs" highlightOnHover>
+    <thead>
+      <tr>
+        <th>{title}</th>
+        <th>Attempts</th>
+        <th>25%</th>
+        <th>Median</th>
+        <th>75%</th>
+        <th>90%</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row) => (
+        <tr key={row.label}>
+          <td>{row.label}</td>
+          <td>{row.count}</td>
+          <td>{formatSeconds(row.p25)}</td>
+          <td>{formatSeconds(row.median)}</td>
+          <td>{formatSeconds(row.p75)}</td>
+          <td>{formatSeconds(row.p90)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </Table>
+);
+
+const AttemptTimes = () => {
+  const { data: attempts } = useQuery({
+    queryKey: ["all-attempts"],
+    queryFn: () => axios.get<AttemptsInfoType>("/api/attempt/admin"),
+  });
+
+  if (!attempts) {
+    return (
+      <Center>
+        <Loader />
+      </Center>
+    );
+  }
+
+  const timedAttempts = attempts.data.filter(
+    (attempt) => attempt.attemptSeconds !== null
+  );
+
+  const topicSeconds = groupSeconds(
+    timedAttempts,
+    (attempt) => attempt.questionWithAddedTime.question.topic.topicName
+  );
+  const topicRows = Object.entries(topicSeconds)
+    .map(([topicName, seconds]) => distribution(topicName, seconds))
+    .sort((a, b) => b.median - a.median);
+
+  const difficultySeconds = groupSeconds(
+    timedAttempts,
+    (attempt) => attempt.questionWithAddedTime.question.questionDifficulty
+  );
+  const difficultyRows = Object.values(QuestionDifficulty)
+    .filter((difficulty) => difficultySeconds[difficulty])
+    .map((difficulty) =>
+      distribution(difficulty, difficultySeconds[difficulty] as number[])
+    );
+
+  // Flag questions whose median time is an outlier (Tukey's fence) within their topic
+  const questionSeconds = groupSeconds(timedAttempts, questionKey);
+  const slowQuestions = Object.entries(questionSeconds)
+    .filter(([, seconds]) => seconds.length >= MIN_TIMED_ATTEMPTS)
+    .flatMap(([key, seconds]) => {
+      const { question } = (
+        timedAttempts.find(
+          (attempt) => questionKey(attempt) === key
+        ) as AttemptType
+      ).questionWithAddedTime;
+      const topic = topicRows.find(
+        (row) => row.label === question.topic.topicName
+      ) as TimeDistribution;
+      const fence = topic.p75 + 1.5 * (topic.p75 - topic.p25);
+      const median = CustomMath.quantile(seconds, 0.5);
+      return median > fence
+        ? [{ key, question, median, fence, count: seconds.length }]
+        : [];
+    })
+    .sort((a, b) => b.median / b.fence - a.median / a.fence);
+
+  return (
+    <Paper withBorder radius="md" p="sm" mb="xl">
+      <Text weight={500}>Time on Question</Text>
+      <Text size="xs" color="dimmed" mb="sm">
+        From {timedAttempts.length} timed attempts, excluding time spent away
+        from the question
+      </Text>
+      <ScrollArea>
+        <SimpleGrid cols={2} breakpoints={[{ maxWidth: "md", cols: 1 }]}>
+          <DistributionTable title="Topic" rows={topicRows} />
+          <DistributionTable title="Difficulty" rows={difficultyRows} />
+        </SimpleGrid>
+        <Text weight={500} size="sm" mt="md">
+          Slow Questions
+        </Text>
+        {slowQuestions.length === 0 ? (
+          <Text size="sm" color="dimmed">
+            No questions take abnormally long compared to their topic
+          </Text>
+        ) : (
+          <Table verticalSpacing="xs" highlightOnHover>
+            <thead>
+              <tr>
+                <th>ID</th>
+                <th>Title</th>
+                <th>Topic</th>
+                <th>Timed Attempts</th>
+                <th>Median</th>
+                <th>Topic Limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slowQuestions.map((slow) => (
+                <tr key={slow.key}>
+                  <td>{slow.key}</td>
+                  <td>{slow.question.questionTitle}</td>
+                  <td>{slow.question.topic.topicName}</td>
+                  <td>{slow.count}</td>
+                  <td>
+                    <Badge color="red">{formatSeconds(slow.median)}</Badge>
+                  </td>
+                  <td>{formatSeconds(slow.fence)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </ScrollArea>
+    </Paper>
+  );
+};
+
+export default AttemptTimes;
@@ -16,6 +16,7 @@ import toast from "react-hot-toast";
 
 import VariablesBox from "@/components/editor/VariablesBox";
 import Latex from "@/components/Latex";
+import QuizForm from "@/components/admin/QuizForm";
 import {
   AttemptsInfoType,
   UsersWithMasteriesAndAttemptsType,
@@ -36,9 +37,11 @@ import {
   Loader,
   Modal,
   MultiSelect,
+  NumberInput,
   Paper,
   Progress,
   SegmentedControl,
+  Select,
   SimpleGrid,
   Tabs,
   Text,
@@ -48,9 +51,16 @@ import {
 } from "@mantine/core";
 import { Dropzone, FileWithPath } from "@mantine/dropzone";
 import { useMediaQuery } from "@mantine/hooks";
-import { CourseMedia } from "@prisma/client";
+import {
+  CourseMedia,
+  CourseType,
+  HintCredit,
+  RecommendationPolicy,
+} from "@prisma/client";
 import {
   IconApps,
+  IconArrowsShuffle,
+  IconBulb,
   IconCheck,
   IconPhoto,
   IconPlus,
@@ -92,6 +102,8 @@ const Courses = () => {
   const [openedEdit, setOpenedEdit] = useState(false);
   const [details, setDetails] = useState<CourseWithMediaAndTopicType | null>();
   const [multiValue, setMultiValue] = useState<string[]>([]);
+  const [openedQuizForm, setOpenedQuizForm] = useState(false);
+  const [quizCourse, setQuizCourse] = useState<CourseWithMediaAndTopicType>();
 
   const editMutation = useMutation({
     mutationFn: async (editCourse: {
@@ -101,6 +113,9 @@ const Courses = () => {
         slides: CourseMedia[];
         video: string;
         additional: string;
+        recommendationPolicy: RecommendationPolicy;
+        hintCredit: HintCredit;
+        hintPartialCredit: number;
       };
     }) => {
       const res = await axios.post("/api/course/editCourse", editCourse);
@@ -152,6 +167,15 @@ const Courses = () => {
   const [additionalMessage, setAdditionalMessage] = useState(
     thisCourse?.markdown as string
   );
+  const [policyValue, setPolicyValue] = useState(
+    thisCourse?.recommendationPolicy ?? RecommendationPolicy.WeakestFirst
+  );
+  const [hintCreditValue, setHintCreditValue] = useState(
+    thisCourse?.hintCredit ?? HintCredit.Full
+  );
+  const [hintPartialValue, setHintPartialValue] = useState(
+    thisCourse?.hintPartialCredit ?? 0.5
+  );
   const [files, setFiles] = useState<FileWithPath[]>([]);
   const [fileDisplay, setFileDisplay] = useState<string[]>([]);
 
@@ -165,9 +189,17 @@ const Courses = () => {
     );
     setVideoMessage(details?.video as string);
     setAdditionalMessage(details?.markdown as string);
+    setPolicyValue(
+      details?.recommendationPolicy ?? RecommendationPolicy.WeakestFirst
+    );
+    setHintCreditValue(details?.hintCredit ?? HintCredit.Full);
+    setHintPartialValue(details?.hintPartialCredit ?? 0.5);
   }, [
     details?.courseDescription,
+    details?.hintCredit,
+    details?.hintPartialCredit,
     details?.markdown,
+    details?.recommendationPolicy,
     details?.video,
     thisCourse?.courseMedia,
   ]);
@@ -274,6 +306,9 @@ const Courses = () => {
         slides: newSlidesMessage,
         video: videoMessage,
         additional: additionalMessage,
+        recommendationPolicy: policyValue,
+        hintCredit: hintCreditValue,
+        hintPartialCredit: hintPartialValue,
       },
     });
 
@@ -355,6 +390,18 @@ const Courses = () => {
             onChange={setSort}
           />
         </Center>
+        <Button
+          fullWidth
+          variant="default"
+          radius="sm"
+          mt="xl"
+          onClick={() => {
+            setQuizCourse(undefined);
+            setOpenedQuizForm(true);
+          }}
+        >
+          <Text className="text-gray-800 dark:text-gray-300">+ New Quiz</Text>
+        </Button>
         <SimpleGrid
           cols={3}
           spacing="xl"
@@ -429,6 +476,19 @@ const Courses = () => {
                 >
                   Details
                 </Button>
+                {c.type === CourseType.Quiz && (
+                  <Button
+                    radius="xl"
+                    style={{ flex: 1 }}
+                    onClick={() => {
+                      setQuizCourse(c);
+                      setOpenedQuizForm(true);
+                    }}
+                    className={classes.controlModal}
+                  >
+                    Quiz
+                  </Button>
+                )}
               </Group>
             </Card>
           ))}
@@ -836,6 +896,20 @@ const Courses = () => {
         ))}
       </Modal>
 
+      <Modal
+        opened={openedQuizForm}
+        onClose={() => setOpenedQuizForm(false)}
+        title={quizCourse ? `${quizCourse.courseName} Settings` : "New Quiz"}
+        size={mobile ? "full" : "70%"}
+      >
+        <QuizForm
+          key={quizCourse?.courseSlug}
+          course={quizCourse}
+          defaultModule={courses.data[0]}
+          onClose={() => setOpenedQuizForm(false)}
+        />
+      </Modal>
+
       <Modal
         opened={openedEdit}
         onClose={() => {
@@ -962,6 +1036,62 @@ const Courses = () => {
               value={additionalMessage}
               onChange={setAdditionalMessage}
             />
+            <Group m={10} pt={"md"}>
+              <IconArrowsShuffle size={19} />
+              <Title order={4}>Edit Recommendation Policy</Title>
+            </Group>
+            <Select
+              mx={10}
+              description="How practice questions pick the next topic for each student"
+              data={[
+                {
+                  value: RecommendationPolicy.WeakestFirst,
+                  label: "Weakest First",
+                },
+                {
+                  value: RecommendationPolicy.RoundRobin,
+                  label: "Round Robin",
+                },
+                {
+                  value: RecommendationPolicy.SpacedRepetition,
+                  label: "Spaced Repetition",
+                },
+              ]}
+              value={policyValue}
+              onChange={(value) =>
+                value && setPolicyValue(value as RecommendationPolicy)
+              }
+            />
+            <Group m={10} pt={"md"}>
+              <IconBulb size={19} />
+              <Title order={4}>Edit Hint Credit</Title>
+            </Group>
+            <Select
+              mx={10}
+              description="How correct answers given after revealing a hint count towards mastery"
+              data={[
+                { value: HintCredit.Full, label: "Full Credit" },
+                { value: HintCredit.Partial, label: "Partial Credit" },
+                { value: HintCredit.Incorrect, label: "Count as Incorrect" },
+              ]}
+              value={hintCreditValue}
+              onChange={(value) =>
+                value && setHintCreditValue(value as HintCredit)
+              }
+            />
+            {hintCreditValue === HintCredit.Partial && (
+              <NumberInput
+                mx={10}
+                mt="sm"
+                description="Share of a correct answer that a hinted one counts for"
+                min={0}
+                max={1}
+                step={0.05}
+                precision={2}
+                value={hintPartialValue}
+                onChange={(value) => setHintPartialValue(value ?? 0.5)}
+              />
+            )}
             <Group position="center" mt="xl">
               <Button type="submit" className={classes.controlModal}>
                 Confirm Changes
@@ -974,6 +1104,12 @@ const Courses = () => {
                   setSlidesMessage(details?.courseMedia as CourseMedia[]);
                   setVideoMessage(details?.video as string);
                   setAdditionalMessage(details?.markdown as string);
+                  setPolicyValue(
+                    details?.recommendationPolicy ??
+                      RecommendationPolicy.WeakestFirst
+                  );
+                  setHintCreditValue(details?.hintCredit ?? HintCredit.Full);
+                  setHintPartialValue(details?.hintPartialCredit ?? 0.5);
                 }}
               >
                 Cancel
@@ -0,0 +1,181 @@
+import axios from "axios";
+
+import { AttemptsInfoType } from "@/pages/admin";
+import { CustomMath } from "@/utils/CustomMath";
+import {
+  Badge,
+  Center,
+  Loader,
+  Paper,
+  ScrollArea,
+  Table,
+  Text,
+} from "@mantine/core";
+import { useQuery } from "@tanstack/react-query";
+
+// Questions need this many attempts before their hint usage is listed
+const MIN_ATTEMPTS = 3;
+
+// Share of hinted attempts above which a question is highlighted
+const HIGH_HINT_RATE = 0.5;
+
+type AttemptType = AttemptsInfoType[number];
+
+type HintRate = {
+  key: string;
+  label: string;
+  topicName: string;
+  count: number;
+  hinted: number;
+  hintsRevealed: number;
+  hintedCorrect: number;
+  unhintedCorrect: number;
+};
+
+const hintRates = (
+  attempts: AttemptType[],
+  key: (attempt: AttemptType) => string,
+  label: (attempt: AttemptType) => string
+) => {
+  const groups: { [key: string]: HintRate } = {};
+  attempts.forEach((attempt) => {
+    const group = (groups[key(attempt)] ??= {
+      key: key(attempt),
+      label: label(attempt),
+      topicName: attempt.questionWithAddedTime.question.topic.topicName,
+      count: 0,
+      hinted: 0,
+      hintsRevealed: 0,
+      hintedCorrect: 0,
+      unhintedCorrect: 0,
+    });
+    const isHinted = attempt._count.hintReveals > 0;
+    group.count++;
+    group.hintsRevealed += attempt._count.hintReveals;
+    if (isHinted) {
+      group.hinted++;
+      if (attempt.isCorrect) group.hintedCorrect++;
+    } else if (attempt.isCorrect) {
+      group.unhintedCorrect++;
+    }
+  });
+  return Object.values(groups).sort(
+    (a, b) => b.hinted / b.count - a.hinted / a.count
+  );
+};
+
+const formatRate = (count: number, total: number) =>
+  total === 0 ? "-" : `${CustomMath.round((count / total) * 100, 1)}%`;
+
+const HintUsage = () => {
+  const { data: attempts } = useQuery({
+    queryKey: ["all-attempts"],
+    queryFn: () => axios.get<AttemptsInfoType>("/api/attempt/admin"),
+  });
+
+  if (!attempts) {
+    return (
+      <Center>
+        <Loader />
+      </Center>
+    );
+  }
+
+  const topicRows = hintRates(
+    attempts.data,
+    (attempt) => attempt.questionWithAddedTime.question.topic.topicSlug,
+    (attempt) => attempt.questionWithAddedTime.question.topic.topicName
+  );
+  const questionRows = hintRates(
+    attempts.data,
+    ({ questionWithAddedTime }) =>
+      `${questionWithAddedTime.questionId}-${questionWithAddedTime.variationId}`,
+    (attempt) => attempt.questionWithAddedTime.question.questionTitle
+  ).filter((row) => row.count >= MIN_ATTEMPTS && row.hinted > 0);
+
+  const numHinted = attempts.data.filter(
+    (attempt) => attempt._count.hintReveals > 0
+  ).length;
+
+  return (
+    <Paper withBorder radius="md" p="sm" mb="xl">
+      <Text weight={500}>Hint Usage</Text>
+      <Text size="xs" color="dimmed" mb="sm">
+        {numHinted} of {attempts.data.length} attempts were answered after
+        revealing a hint
+      </Text>
+      <ScrollArea>
+        <Table verticalSpacing="xs" highlightOnHover>
+          <thead>
+            <tr>
+              <th>Topic</th>
+              <th>Attempts</th>
+              <th>Hinted</th>
+              <th>Hints Revealed</th>
+              <th>Correct with Hints</th>
+              <th>Correct without Hints</th>
+            </tr>
+          </thead>
+          <tbody>
+            {topicRows.map((row) => (
+              <tr key={row.key}>
+                <td>{row.label}</td>
+                <td>{row.count}</td>
+                <td>{formatRate(row.hinted, row.count)}</td>
+                <td>{row.hintsRevealed}</td>
+                <td>{formatRate(row.hintedCorrect, row.hinted)}</td>
+                <td>
+                  {formatRate(row.unhintedCorrect, row.count - row.hinted)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Text weight={500} size="sm" mt="md">
+          Questions
+        </Text>
+        {questionRows.length === 0 ? (
+          <Text size="sm" color="dimmed">
+            No questions with at least {MIN_ATTEMPTS} attempts have been
+            answered with hints
+          </Text>
+        ) : (
+          <Table verticalSpacing="xs" highlightOnHover>
+            <thead>
+              <tr>
+                <th>ID</th>
+                <th>Title</th>
+                <th>Topic</th>
+                <th>Attempts</th>
+                <th>Hinted</th>
+                <th>Correct with Hints</th>
+              </tr>
+            </thead>
+            <tbody>
+              {questionRows.map((row) => (
+                <tr key={row.key}>
+                  <td>{row.key}</td>
+                  <td>{row.label}</td>
+                  <td>{row.topicName}</td>
+                  <td>{row.count}</td>
+                  <td>
+                    <Badge
+                      color={
+                        row.hinted / row.count > HIGH_HINT_RATE ? "red" : "gray"
+                      }
+                    >
+                      {formatRate(row.hinted, row.count)}
+                    </Badge>
+                  </td>
+                  <td>{formatRate(row.hintedCorrect, row.hinted)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </ScrollArea>
+    </Paper>
+  );
+};
+
+export default HintUsage;
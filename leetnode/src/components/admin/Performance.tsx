@@ -13,6 +13,9 @@ import { useEffect, useState } from "react";
 import { Bar } from "react-chartjs-2";
 import toast from "react-hot-toast";
 
+import AttemptTimes from "@/components/admin/AttemptTimes";
+import HintUsage from "@/components/admin/HintUsage";
+import TopicCalibration from "@/components/admin/TopicCalibration";
 import { UsersWithMasteriesAndAttemptsType } from "@/pages/admin";
 import { DateDiffCalc } from "@/utils/DateDiffCalc";
 import {
@@ -231,6 +234,9 @@ const Performance = () => {
   return (
     <ScrollArea>
       <Container size="lg">
+        <TopicCalibration topics={topics.data} />
+        <AttemptTimes />
+        <HintUsage />
         <Flex
           align="center"
           justify="space-between"
@@ -0,0 +1,241 @@
+import axios from "axios";
+
+import { CourseWithMediaAndTopicType } from "@/pages/courses";
+import { DifficultyMixType, TopicQuotasType } from "@/types/quiz-types";
+import {
+  Button,
+  Center,
+  Group,
+  Loader,
+  MultiSelect,
+  NumberInput,
+  Select,
+  SimpleGrid,
+  Switch,
+  Text,
+  Textarea,
+  TextInput,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { Level, QuestionDifficulty, Topic } from "@prisma/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+type QuizFormType = {
+  courseName: string;
+  courseDescription: string;
+  courseLevel: Level;
+  moduleCode: string;
+  moduleTitle: string;
+  topics: string[];
+  questionCount: number;
+  timeLimit: number | null;
+  showMastery: boolean;
+  topicQuotas: TopicQuotasType;
+  difficultyMix: DifficultyMixType;
+};
+
+const QuizForm = ({
+  course,
+  defaultModule,
+  onClose,
+}: {
+  course?: CourseWithMediaAndTopicType;
+  defaultModule?: { moduleCode: string; moduleTitle: string };
+  onClose: () => void;
+}) => {
+  const queryClient = useQueryClient();
+
+  const { data: topics } = useQuery({
+    queryKey: ["all-topics"],
+    queryFn: () => axios.get<Topic[]>("/api/topic"),
+  });
+
+  const form = useForm<QuizFormType>({
+    initialValues: {
+      courseName: course?.courseName ?? "",
+      courseDescription: course?.courseDescription ?? "",
+      courseLevel: course?.courseLevel ?? Level.Foundational,
+      moduleCode: course?.moduleCode ?? defaultModule?.moduleCode ?? "",
+      moduleTitle: course?.moduleTitle ?? defaultModule?.moduleTitle ?? "",
+      topics: course?.topics.map((topic) => topic.topicSlug) ?? [],
+      questionCount: course?.quiz?.questionCount ?? 16,
+      timeLimit: course?.quiz?.timeLimit ?? null,
+      showMastery: course?.quiz?.showMastery ?? true,
+      topicQuotas: (course?.quiz?.topicQuotas as TopicQuotasType) ?? {},
+      difficultyMix: (course?.quiz?.difficultyMix as DifficultyMixType) ?? {},
+    },
+  });
+
+  const { mutate: saveQuiz, status: saveQuizStatus } = useMutation({
+    mutationFn: (values: QuizFormType) =>
+      course
+        ? axios.post("/api/quiz/admin/edit", {
+            ...values,
+            courseSlug: course.courseSlug,
+          })
+        : axios.post("/api/quiz/admin/add", values),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["all-courses"]);
+      onClose();
+    },
+  });
+
+  if (!topics) {
+    return (
+      <Center>
+        <Loader />
+      </Center>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={form.onSubmit((values) =>
+        saveQuiz({
+          ...values,
+          // Drop quotas of topics no longer in the quiz
+          topicQuotas: Object.fromEntries(
+            Object.entries(values.topicQuotas).filter(
+              ([topicSlug, quota]) => values.topics.includes(topicSlug) && quota
+            )
+          ),
+        })
+      )}
+    >
+      {!course && (
+        <>
+          <TextInput
+            label="Quiz Name"
+            required
+            mb="sm"
+            {...form.getInputProps("courseName")}
+          />
+          <Textarea
+            label="Description"
+            required
+            mb="sm"
+            {...form.getInputProps("courseDescription")}
+          />
+          <SimpleGrid
+            cols={3}
+            mb="sm"
+            breakpoints={[{ maxWidth: "sm", cols: 1 }]}
+          >
+            <Select
+              label="Level"
+              data={Object.values(Level)}
+              {...form.getInputProps("courseLevel")}
+            />
+            <TextInput
+              label="Module Code"
+              required
+              {...form.getInputProps("moduleCode")}
+            />
+            <TextInput
+              label="Module Title"
+              required
+              {...form.getInputProps("moduleTitle")}
+            />
+          </SimpleGrid>
+        </>
+      )}
+      <MultiSelect
+        label="Topics"
+        description="Questions are drawn from these topics"
+        data={topics.data.map((topic) => ({
+          value: topic.topicSlug,
+          label: topic.topicName,
+        }))}
+        searchable
+        required
+        mb="sm"
+        {...form.getInputProps("topics")}
+      />
+      <SimpleGrid cols={3} mb="sm" breakpoints={[{ maxWidth: "sm", cols: 1 }]}>
+        <NumberInput
+          label="Number of Questions"
+          min={1}
+          max={100}
+          required
+          {...form.getInputProps("questionCount")}
+        />
+        <NumberInput
+          label="Time Limit (Minutes)"
+          placeholder="Untimed"
+          min={1}
+          value={form.values.timeLimit ?? undefined}
+          onChange={(value) => form.setFieldValue("timeLimit", value ?? null)}
+        />
+        <Switch
+          label="Show mastery after each question"
+          mt="xl"
+          {...form.getInputProps("showMastery", { type: "checkbox" })}
+        />
+      </SimpleGrid>
+
+      <Text weight={500} size="sm">
+        Difficulty Mix
+      </Text>
+      <Text size="xs" color="dimmed" mb="xs">
+        Relative weights of each difficulty. Leave all empty to follow each
+        student&apos;s mastery instead.
+      </Text>
+      <SimpleGrid cols={3} mb="sm" breakpoints={[{ maxWidth: "sm", cols: 1 }]}>
+        {Object.values(QuestionDifficulty).map((difficulty) => (
+          <NumberInput
+            key={difficulty}
+            label={difficulty}
+            min={0}
+            value={form.values.difficultyMix[difficulty]}
+            onChange={(value) =>
+              form.setFieldValue(`difficultyMix.${difficulty}`, value ?? 0)
+            }
+          />
+        ))}
+      </SimpleGrid>
+
+      {form.values.topics.length > 0 && (
+        <>
+          <Text weight={500} size="sm">
+            Topic Quotas
+          </Text>
+          <Text size="xs" color="dimmed" mb="xs">
+            Minimum number of questions from each topic, served before the
+            remaining questions
+          </Text>
+          <SimpleGrid
+            cols={3}
+            mb="sm"
+            breakpoints={[{ maxWidth: "sm", cols: 1 }]}
+          >
+            {form.values.topics.map((topicSlug) => (
+              <NumberInput
+                key={topicSlug}
+                label={
+                  topics.data.find((topic) => topic.topicSlug === topicSlug)
+                    ?.topicName
+                }
+                min={0}
+                value={form.values.topicQuotas[topicSlug]}
+                onChange={(value) =>
+                  form.setFieldValue(`topicQuotas.${topicSlug}`, value ?? 0)
+                }
+              />
+            ))}
+          </SimpleGrid>
+        </>
+      )}
+
+      <Group position="right" mt="xl">
+        <Button variant="default" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saveQuizStatus === "loading"}>
+          {course ? "Save Quiz" : "Create Quiz"}
+        </Button>
+      </Group>
+    </form>
+  );
+};
+
+export default QuizForm;
@@ -0,0 +1,107 @@
+import axios from "axios";
+
+import { BKT } from "@/utils/BKT";
+import { calibrationWarnings } from "@/utils/BKTFit";
+import { CustomMath } from "@/utils/CustomMath";
+import { DateDiffCalc } from "@/utils/DateDiffCalc";
+import {
+  Badge,
+  Button,
+  Group,
+  Paper,
+  ScrollArea,
+  Table,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import { Topic } from "@prisma/client";
+import { IconAdjustments } from "@tabler/icons";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+const TopicCalibration = ({ topics }: { topics: Topic[] }) => {
+  const queryClient = useQueryClient();
+
+  const { mutate: fitParams, status: fitParamsStatus } = useMutation({
+    mutationFn: () => axios.post("/api/topic/admin/fitParams"),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["all-topics"]);
+    },
+  });
+
+  return (
+    <Paper withBorder radius="md" p="sm" mb="xl">
+      <Group position="apart" mb="sm">
+        <div>
+          <Text weight={500}>BKT Parameters</Text>
+          <Text size="xs" color="dimmed">
+            Fitted per topic with expectation-maximisation over all attempts
+          </Text>
+        </div>
+        <Button
+          variant="light"
+          leftIcon={<IconAdjustments size={16} />}
+          loading={fitParamsStatus === "loading"}
+          onClick={() => fitParams()}
+        >
+          Fit Parameters
+        </Button>
+      </Group>
+      <ScrollArea>
+        <Table sx={{ minWidth: 800 }} verticalSpacing="xs" highlightOnHover>
+          <thead>
+            <tr>
+              <th>Topic</th>
+              <th>Prior</th>
+              <th>Learn</th>
+              <th>Guess</th>
+              <th>Slip</th>
+              <th>RMSE</th>
+              <th>Attempts</th>
+              <th>Last Fitted</th>
+              <th>Calibration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {topics.map((topic) => {
+              const params = BKT.paramsFromTopic(topic);
+              const warnings = calibrationWarnings(
+                params,
+                topic.fitRmse,
+                topic.fitCount
+              );
+              return (
+                <tr key={topic.topicSlug}>
+                  <td>{topic.topicName}</td>
+                  <td>{CustomMath.toFixed(params.prior, 3)}</td>
+                  <td>{CustomMath.toFixed(params.learn, 3)}</td>
+                  <td>{CustomMath.toFixed(params.guess, 3)}</td>
+                  <td>{CustomMath.toFixed(params.slip, 3)}</td>
+                  <td>
+                    {topic.fitRmse === null
+                      ? "-"
+                      : CustomMath.toFixed(topic.fitRmse, 3)}
+                  </td>
+                  <td>{topic.fitCount}</td>
+                  <td>{topic.fittedAt ? DateDiffCalc(topic.fittedAt) : "-"}</td>
+                  <td>
+                    {warnings.length === 0 ? (
+                      <Badge color="green">OK</Badge>
+                    ) : (
+                      <Tooltip label={warnings.join(", ")} withArrow>
+                        <Badge color={topic.fittedAt ? "red" : "gray"}>
+                          Review
+                        </Badge>
+                      </Tooltip>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      </ScrollArea>
+    </Paper>
+  );
+};
+
+export default TopicCalibration;
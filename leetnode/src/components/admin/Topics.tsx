@@ -0,0 +1,122 @@
+import axios from "axios";
+
+import {
+  MASTERY_THRESHOLD,
+  PREREQUISITE_THRESHOLD,
+  PrerequisiteEdge,
+  TopicGraph,
+} from "@/utils/TopicGraph";
+import {
+  Center,
+  Container,
+  Loader,
+  MultiSelect,
+  Paper,
+  ScrollArea,
+  Table,
+  Text,
+} from "@mantine/core";
+import { Topic } from "@prisma/client";
+import { useMutation, useQueries, useQueryClient } from "@tanstack/react-query";
+
+const Topics = () => {
+  const queryClient = useQueryClient();
+
+  const [{ data: topics }, { data: edges }] = useQueries({
+    queries: [
+      {
+        queryKey: ["all-topics"],
+        queryFn: () => axios.get<Topic[]>("/api/topic"),
+      },
+      {
+        queryKey: ["all-prerequisites"],
+        queryFn: () =>
+          axios.get<PrerequisiteEdge[]>("/api/topic/admin/prerequisites"),
+      },
+    ],
+  });
+
+  const { mutate: updatePrerequisites, status: updateStatus } = useMutation({
+    mutationFn: (body: { topicSlug: string; prerequisiteSlugs: string[] }) =>
+      axios.post("/api/topic/admin/prerequisites", body),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["all-prerequisites"]);
+    },
+  });
+
+  if (!topics || !edges) {
+    return (
+      <Center className="h-screen">
+        <Loader />
+      </Center>
+    );
+  }
+
+  const adjacency = TopicGraph.toAdjacency(edges.data);
+
+  return (
+    <ScrollArea>
+      <Container size="lg">
+        <Paper withBorder radius="md" p="sm">
+          <Text weight={500}>Topic Prerequisites</Text>
+          <Text size="xs" color="dimmed" mb="sm">
+            A topic is only recommended once a student reaches{" "}
+            {PREREQUISITE_THRESHOLD * 100}% mastery in all of its prerequisites,
+            and is favoured until they reach {MASTERY_THRESHOLD * 100}% in the
+            topic itself.
+          </Text>
+          <Table sx={{ minWidth: 800 }} verticalSpacing="xs">
+            <thead>
+              <tr>
+                <th>Topic</th>
+                <th>Level</th>
+                <th>Prerequisites</th>
+                <th>Required By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topics.data
+                .sort((a, b) => a.topicName.localeCompare(b.topicName))
+                .map((topic) => (
+                  <tr key={topic.topicSlug}>
+                    <td>{topic.topicName}</td>
+                    <td>{topic.topicLevel}</td>
+                    <td>
+                      <MultiSelect
+                        data={topics.data
+                          .filter((t) => t.topicSlug !== topic.topicSlug)
+                          .map((t) => ({
+                            value: t.topicSlug,
+                            label: t.topicName,
+                          }))}
+                        value={adjacency[topic.topicSlug] ?? []}
+                        onChange={(prerequisiteSlugs) =>
+                          updatePrerequisites({
+                            topicSlug: topic.topicSlug,
+                            prerequisiteSlugs,
+                          })
+                        }
+                        disabled={updateStatus === "loading"}
+                        placeholder="None"
+                        searchable
+                        clearable
+                      />
+                    </td>
+                    <td>
+                      {
+                        edges.data.filter(
+                          (edge) => edge.prerequisiteSlug === topic.topicSlug
+                        ).length
+                      }
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </Table>
+        </Paper>
+      </Container>
+    </ScrollArea>
+  );
+};
+
+export default Topics;
@@ -0,0 +1,57 @@
+import Latex from "@/components/Latex";
+import { QuestionDataType, UCQATType } from "@/types/question-types";
+import { Flex, Stack, Text, TextInput, useMantineTheme } from "@mantine/core";
+
+const FreeResponseAnswers = ({
+  answers,
+  variables,
+  responses,
+  setResponses,
+}: {
+  answers: UCQATType["answers"];
+  variables: QuestionDataType["variables"];
+  responses: { [key: string]: string };
+  setResponses: (responses: { [key: string]: string }) => void;
+}) => {
+  const theme = useMantineTheme();
+
+  return (
+    <Stack mt="xl" spacing="xs">
+      <Text size="sm" color="dimmed">
+        Type each answer as a number, with an optional SI prefix or unit (eg.
+        4.7k or 3.3 mA)
+      </Text>
+      {answers.map((answer) => {
+        const finalAnswer = variables.find(
+          (variable) => variable.key === answer.key
+        );
+        return (
+          <Flex
+            key={answer.key}
+            gap="md"
+            align="center"
+            className={`rounded-md border border-solid ${
+              theme.colorScheme === "dark"
+                ? "border-zinc-600 bg-zinc-700"
+                : "border-gray-200 bg-gray-100"
+            } p-2`}
+          >
+            <Latex>{`$$ ${finalAnswer?.name ?? ""} ${
+              finalAnswer?.unit ? "~(" + finalAnswer.unit + ")" : ""
+            } = $$`}</Latex>
+            <TextInput
+              sx={{ flex: 1 }}
+              required
+              value={responses[answer.key] ?? ""}
+              onChange={(e) =>
+                setResponses({ ...responses, [answer.key]: e.target.value })
+              }
+            />
+          </Flex>
+        );
+      })}
+    </Stack>
+  );
+};
+
+export default FreeResponseAnswers;
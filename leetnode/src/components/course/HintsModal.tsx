@@ -0,0 +1,63 @@
+import axios from "axios";
+
+import { WithheldHintType } from "@/types/question-types";
+import { Box, Button, Modal, Stack, Text } from "@mantine/core";
+import { IconBulb } from "@tabler/icons";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+const HintsModal = ({
+  qatId,
+  hints,
+  opened,
+  onClose,
+}: {
+  qatId: string;
+  hints: WithheldHintType[];
+  opened: boolean;
+  onClose: () => void;
+}) => {
+  const queryClient = useQueryClient();
+
+  const { mutate: revealHint, status: revealHintStatus } = useMutation({
+    mutationFn: () => axios.post(`/api/question/revealHint?qatId=${qatId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["get-ucqat"]);
+    },
+  });
+
+  const revealed = hints.filter((item) => item.hint !== null);
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Hints" size="md">
+      <Stack>
+        {revealed.map((item, index) => (
+          <Box
+            key={item.key}
+            className="flex items-center justify-start gap-3 rounded-md border border-solid border-gray-200 bg-gray-100 p-2"
+          >
+            <Text color="dimmed">#{index + 1}</Text>
+            <Text>{item.hint}</Text>
+          </Box>
+        ))}
+        {revealed.length < hints.length && (
+          <>
+            <Text size="sm" color="dimmed">
+              Hints you reveal are recorded with your answer, and may count
+              towards your mastery less than answering without them.
+            </Text>
+            <Button
+              variant="light"
+              leftIcon={<IconBulb size={16} />}
+              loading={revealHintStatus === "loading"}
+              onClick={() => revealHint()}
+            >
+              Reveal Hint {revealed.length + 1} of {hints.length}
+            </Button>
+          </>
+        )}
+      </Stack>
+    </Modal>
+  );
+};
+
+export default HintsModal;
@@ -2,33 +2,39 @@ import axios from "axios";
 import DOMPurify from "dompurify";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/router";
-import { useState,useEffect } from "react";
+import { useState } from "react";
 import { toast } from "react-hot-toast";
 
+import FreeResponseAnswers from "@/components/course/FreeResponseAnswers";
+import HintsModal from "@/components/course/HintsModal";
+import QuestionPartsStepper from "@/components/course/QuestionPartsStepper";
+import CircuitDiagram from "@/components/editor/CircuitDiagram";
 import VariablesBox from "@/components/editor/VariablesBox";
 import Latex from "@/components/Latex";
 import { QuestionDifficultyBadge } from "@/components/misc/Badges";
-import { QuestionDataType } from "@/types/question-types";
+import { QuestionDataType, UCQATType } from "@/types/question-types";
+import { useAttemptTimer } from "@/utils/AttemptTimer";
 import { CustomMath } from "@/utils/CustomMath";
+import { FreeResponse } from "@/utils/FreeResponse";
+import { QuestionParts } from "@/utils/QuestionParts";
 import { Role } from "@prisma/client";
 
 import {
   ActionIcon,
-  Box,
+  Badge,
   Button,
   Center,
   Checkbox,
   Flex,
+  Group,
   Loader,
-  Modal,
   Paper,
   Radio,
-  Stack,
   Text,
   Tooltip,
   useMantineTheme,
 } from "@mantine/core";
-import { Question, QuestionWithAddedTime, User } from "@prisma/client";
+import { User } from "@prisma/client";
 import { IconBulb } from "@tabler/icons";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
@@ -41,6 +47,8 @@ export type UCQATAnswersType = {
   answerContent: string;
   isCorrect: boolean;
   isLatex: boolean;
+  feedback?: string; // Revealed once the option is picked
+  part?: string; // Key of the part an option belongs to, multi-part questions only
 }[];
 
 export default function PracticeQuestion() {
@@ -51,51 +59,33 @@ export default function PracticeQuestion() {
   const currentCourseSlug = router.query.courseSlug as string;
 
   const [qnCount, setQnCount] = useState(1);
-  const [prevQn, setPrevQn] = useState(0);
   const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [responses, setResponses] = useState<{ [key: string]: string }>({});
   const [hintsOpened, setHintsOpened] = useState<boolean>(false);
 
-  const useUCQAT = (currentCourseSlug: string) => {  
-    const {
-      data: UCQAT,
-      refetch,
-      isFetching,
-    } = useQuery({
+  const useUCQAT = (currentCourseSlug: string) => {
+    const { data: UCQAT } = useQuery({
       queryKey: ["get-ucqat"],
       queryFn: () =>
-        axios
-          .get<
-            QuestionWithAddedTime & {
-              question: Question & {
-                topic: {
-                  topicName: string;
-                };
-              };
-            }
-          >(`/api/question/questionsWithAddedTime?courseSlug=${currentCourseSlug}&prevId=${prevQn}`)
+        axios.get<UCQATType>(
+          `/api/question/questionsWithAddedTime?courseSlug=${currentCourseSlug}`
+        ),
     });
-  
-    // Effect to check for duplicate question ID and refetch if needed
-    useEffect(() => {
-      if (UCQAT?.data.question?.questionId) {
-        const currentQuestionId = UCQAT?.data.question.questionId;
-  
-        if (prevQn === currentQuestionId && !isFetching) {
-          // Same question ID — refetch
-          console.log("Repeat question detected, refetching...");
-          queryClient.invalidateQueries(["get-ucqat"]);
-          refetch();
-        }
-  
-        // Update ref to the current question ID
-        setPrevQn(currentQuestionId);
-      }
-    }, [UCQAT, refetch, isFetching]);
-  
+
     return { UCQAT };
   };
 
   const { UCQAT } = useUCQAT(currentCourseSlug);
+  // Each part of a multi-part question is timed on its own
+  const getAttemptSeconds = useAttemptTimer(
+    UCQAT?.data &&
+      `${UCQAT.data.qatId}-${
+        QuestionParts.next(
+          UCQAT.data.question.questionData as QuestionDataType,
+          UCQAT.data.answeredParts.map((item) => item.part)
+        )?.key ?? ""
+      }`
+  );
 
   const useSubmitAnswer = () => {
     const queryClient = useQueryClient();
@@ -110,9 +100,9 @@ export default function PracticeQuestion() {
         };
         body: {
           attemptedKeys: string[];
-          isCorrect: boolean;
-          topicSlug: string;
-          topicName: string;
+          responses?: { [key: string]: string };
+          attemptSeconds: number;
+          part?: string;
         };
       }) => {
         return axios.post(
@@ -122,24 +112,34 @@ export default function PracticeQuestion() {
       },
       onSuccess: (res) => {
         setSelectedKeys([]);
+        setResponses({});
         const { data } = res;
         console.log(data);
+        // Mastery only changes after some parts of multi-part questions
+        const isCorrect = data.isComplete
+          ? data.questionIsCorrect
+          : data.isCorrect;
         toast(
-          `[${data.topic}] Mastery: ${CustomMath.round(
-            data.masteryLevel * 100,
-            1
-          )}%`,
+          data.masteryLevel !== null
+            ? `[${data.topic}] Mastery: ${CustomMath.round(
+                data.masteryLevel * 100,
+                1
+              )}%`
+            : `Part ${
+                data.isCorrect ? "correct" : "incorrect"
+              }, on to the next part`,
           {
-            icon: data.isCorrect ? "🎉" : "💪",
+            icon: isCorrect ? "🎉" : "💪",
             className: `border border-solid ${
-              data.isCorrect ? "border-green-500" : "border-red-500"
+              isCorrect ? "border-green-500" : "border-red-500"
             }`,
             position: "top-right",
             duration: 5000,
           }
         );
-        setQnCount ((prev) => prev + 1);
         queryClient.invalidateQueries(["get-ucqat"]);
+        if (!data.isComplete) return;
+        setQnCount((prev) => prev + 1);
         queryClient.invalidateQueries(["get-attempts", data.courseSlug]);
         updatePoints(); // Update points for attempting questions
       },
@@ -187,8 +187,7 @@ export default function PracticeQuestion() {
             customIcon: "🎯",
             message: (
               <>
-                Question(s) attempted:{" "}
-                {qnCount} 🔋
+                Question(s) attempted: {qnCount} 🔋
                 <span className="text-yellow-600">
                   +
                   {(userInfo.attempts[lastActive.toDateString()] ?? 0) === 0
@@ -224,17 +223,53 @@ export default function PracticeQuestion() {
     );
   }
 
-  const answerOptions = UCQAT.data.answers as QuestionDataType["answers"];
+  // Multi-part questions are answered one part at a time, with the options of that part
+  const questionData = UCQAT.data.question.questionData as QuestionDataType;
+  const currentPart = QuestionParts.next(
+    questionData,
+    UCQAT.data.answeredParts.map((item) => item.part)
+  );
+  const answerOptions = QuestionParts.answers(
+    UCQAT.data.answers,
+    currentPart?.key
+  );
 
-  const correctKeys = answerOptions
-    .filter((item) => item.isCorrect)
-    .map((item) => item.key);
+  // Free-response questions are typed instead of selected
+  const isFreeResponse =
+    QuestionParts.answerMode(questionData, currentPart?.key) === "FreeResponse";
 
   return (
     <Paper p="xl" radius="md" withBorder>
       <form
         onSubmit={(e) => {
           e.preventDefault();
+          if (isFreeResponse) {
+            const unreadable = questionData.variables.find(
+              (variable) =>
+                answerOptions.some((item) => item.key === variable.key) &&
+                FreeResponse.parse(
+                  responses[variable.key] ?? "",
+                  variable.unit
+                ) === null
+            );
+            if (unreadable) {
+              toast.error(`Could not read your answer for ${unreadable.name}`);
+              return;
+            }
+            submitAnswer({
+              query: {
+                qatId: UCQAT.data.qatId,
+                courseSlug: currentCourseSlug,
+              },
+              body: {
+                attemptedKeys: [],
+                responses: responses,
+                attemptSeconds: getAttemptSeconds(),
+                part: currentPart?.key,
+              },
+            });
+            return;
+          }
           if (selectedKeys.length === 0) {
             toast.error("Please select an option");
             return;
@@ -246,43 +281,51 @@ export default function PracticeQuestion() {
             },
             body: {
               attemptedKeys: selectedKeys,
-              isCorrect:
-                selectedKeys.length === correctKeys.length &&
-                selectedKeys.every((item) => correctKeys.includes(item)),
-              topicSlug: UCQAT.data.question.topicSlug,
-              topicName: UCQAT.data.question.topic.topicName,
+              attemptSeconds: getAttemptSeconds(),
+              part: currentPart?.key,
             },
           });
         }}
       >
         {(session?.data?.user?.role === Role.SUPERUSER ||
-                  session?.data?.user?.role === Role.ADMIN) && (
-          <div style={{ 
-            borderBottom: '1px solid #ccc', 
-            padding: '8px 16px', 
-            fontSize: '14px', 
-            fontWeight: 'bold', 
-            backgroundColor: '#f9f9f9' 
-          }}>
+          session?.data?.user?.role === Role.ADMIN) && (
+          <div
+            style={{
+              borderBottom: "1px solid #ccc",
+              padding: "8px 16px",
+              fontSize: "14px",
+              fontWeight: "bold",
+              backgroundColor: "#f9f9f9",
+            }}
+          >
             {UCQAT?.data?.question?.questionTitle ?? "No title available"}
           </div>
         )}
         {/* TODO: Remove once all questions are in order? */}
-        {(session?.data?.user?.role === Role.USER) && (
-          <div style={{ 
-            borderBottom: '1px solid #ccc', 
-            padding: '8px 16px', 
-            fontSize: '14px', 
-            fontWeight: 'bold', 
-            backgroundColor: '#f9f9f9' 
-          }}>
+        {session?.data?.user?.role === Role.USER && (
+          <div
+            style={{
+              borderBottom: "1px solid #ccc",
+              padding: "8px 16px",
+              fontSize: "14px",
+              fontWeight: "bold",
+              backgroundColor: "#f9f9f9",
+            }}
+          >
             {"QID:" + (UCQAT?.data?.question?.questionId ?? "No ID available")}
           </div>
         )}
-        <QuestionDifficultyBadge
-          questionDifficulty={UCQAT.data.question.questionDifficulty}
-          {...{ radius: "lg", size: "md" }}
-        />
+        <Group spacing="xs">
+          <QuestionDifficultyBadge
+            questionDifficulty={UCQAT.data.question.questionDifficulty}
+            {...{ radius: "lg", size: "md" }}
+          />
+          {UCQAT.data.isReview && (
+            <Badge color="grape" radius="lg" size="md">
+              Due for review
+            </Badge>
+          )}
+        </Group>
         <div
           className="rawhtml mt-4"
           dangerouslySetInnerHTML={{
@@ -297,17 +340,32 @@ export default function PracticeQuestion() {
             }),
           }}
         />
+        <CircuitDiagram
+          diagram={questionData.diagram}
+          variables={UCQAT.data.variables as QuestionDataType["variables"]}
+        />
         <VariablesBox
           variables={UCQAT.data.variables as QuestionDataType["variables"]}
         />
-        {correctKeys.length === 1 ? (
+        {questionData.parts && QuestionParts.isMultiPart(questionData) && (
+          <QuestionPartsStepper
+            parts={questionData.parts}
+            variables={questionData.variables}
+            answeredParts={UCQAT.data.answeredParts}
+          />
+        )}
+        {isFreeResponse ? (
+          <FreeResponseAnswers
+            answers={answerOptions}
+            variables={questionData.variables}
+            responses={responses}
+            setResponses={setResponses}
+          />
+        ) : !UCQAT.data.multipleCorrect ? (
           <Radio.Group
             mt="xl"
             value={selectedKeys[0]}
             onChange={(value) => {
-              console.log(
-                value === answerOptions.find((item) => item.isCorrect)?.key
-              );
               setSelectedKeys([value]);
             }}
             orientation="vertical"
@@ -338,10 +396,6 @@ export default function PracticeQuestion() {
             mt="xl"
             value={selectedKeys}
             onChange={(values) => {
-              console.log(
-                values.length === correctKeys.length &&
-                  values.every((item) => correctKeys.includes(item))
-              );
               setSelectedKeys(values);
             }}
             orientation="vertical"
@@ -375,9 +429,13 @@ export default function PracticeQuestion() {
             fullWidth
             loading={submitAnswerStatus === "loading"}
           >
-            {submitAnswerStatus === "loading" ? "Submitting..." : "Submit"}
+            {submitAnswerStatus === "loading"
+              ? "Submitting..."
+              : currentPart
+              ? `Submit Part ${UCQAT.data.answeredParts.length + 1}`
+              : "Submit"}
           </Button>
-          {(UCQAT.data.question.questionData as QuestionDataType).hints && (
+          {UCQAT.data.hints.length > 0 && (
             <Tooltip label="Hints" withArrow>
               <ActionIcon
                 size="lg"
@@ -391,27 +449,12 @@ export default function PracticeQuestion() {
           )}
         </Flex>
 
-        {/* Hints Modal */}
-        <Modal
+        <HintsModal
+          qatId={UCQAT.data.qatId}
+          hints={UCQAT.data.hints}
           opened={hintsOpened}
           onClose={() => setHintsOpened(false)}
-          title="Hints"
-          size="md"
-        >
-          <Stack>
-            {(UCQAT.data.question.questionData as QuestionDataType).hints?.map(
-              (item, index) => (
-                <Box
-                  key={index}
-                  className="flex items-center justify-start gap-3 rounded-md border border-solid border-gray-200 bg-gray-100 p-2"
-                >
-                  <Text color="dimmed">#{index + 1}</Text>
-                  <Text>{item.hint}</Text>
-                </Box>
-              )
-            )}
-          </Stack>
-        </Modal>
+        />
       </form>
     </Paper>
   );
@@ -2,14 +2,17 @@ import axios from "axios";
 import DOMPurify from "dompurify";
 
 import { UCQATAnswersType } from "@/components/course/PracticeQuestion";
+import SolutionSteps from "@/components/course/SolutionSteps";
+import CircuitDiagram from "@/components/editor/CircuitDiagram";
 import VariablesBox from "@/components/editor/VariablesBox";
 import Latex from "@/components/Latex";
 import { QuestionDifficultyBadge } from "@/components/misc/Badges";
-import { QuestionDataType } from "@/types/question-types";
+import { QuestionDataType, SolutionStepType } from "@/types/question-types";
+import { FreeResponse } from "@/utils/FreeResponse";
+import { QuestionParts } from "@/utils/QuestionParts";
 import {
   Accordion,
   Badge,
-  Box,
   Center,
   createStyles,
   Divider,
@@ -30,7 +33,7 @@ import {
   QuestionWithAddedTime,
   Topic,
 } from "@prisma/client";
-import { IconCheck, IconHelp, IconX } from "@tabler/icons";
+import { IconCheck, IconX } from "@tabler/icons";
 import { useQuery } from "@tanstack/react-query";
 
 const QuestionHistory = ({ courseSlug }: { courseSlug: string }) => {
@@ -46,6 +49,7 @@ const QuestionHistory = ({ courseSlug }: { courseSlug: string }) => {
               topic: Topic;
             };
           };
+          solution: SolutionStepType[];
         })[]
       >(`/api/attempt?course=${courseSlug}`),
   });
@@ -200,86 +204,105 @@ const QuestionHistory = ({ courseSlug }: { courseSlug: string }) => {
               ),
             }}
           />
+          <CircuitDiagram
+            diagram={
+              (
+                attempt.questionWithAddedTime.question
+                  .questionData as QuestionDataType
+              ).diagram
+            }
+            variables={
+              attempt.questionWithAddedTime
+                .variables as QuestionDataType["variables"]
+            }
+          />
           <VariablesBox
             variables={
               attempt.questionWithAddedTime
                 .variables as QuestionDataType["variables"]
             }
           />
-          {(attempt.questionWithAddedTime.answers as UCQATAnswersType).map(
-            (ans) => (
-              <Flex
-                gap="sm"
-                key={ans.answerContent}
-                className={`my-2 ${classes.options} ${
-                  (attempt.attemptedKeys as string[]).includes(ans.key)
-                    ? classes.selected
-                    : ""
-                }`}
-              >
-                {ans.isCorrect === true ? (
-                  <IconCheck color="green" size={30} stroke={3} />
-                ) : (
-                  <IconX color="red" size={30} stroke={3} />
-                )}
-                {ans.isLatex ? (
-                  <Latex>{`$$ ${ans.answerContent} $$`}</Latex>
-                ) : (
-                  <Text>{ans.answerContent}</Text>
-                )}
-              </Flex>
-            )
-          )}
-
-          {(
+          {/* Attempts at multi-part questions only show the options of the part answered */}
+          {QuestionParts.answerMode(
             attempt.questionWithAddedTime.question
-              .questionData as QuestionDataType
-          ).methods && (
+              .questionData as QuestionDataType,
+            attempt.part ?? undefined
+          ) === "FreeResponse"
+            ? QuestionParts.answers(
+                attempt.questionWithAddedTime.answers as UCQATAnswersType,
+                attempt.part ?? undefined
+              ).map((ans) => {
+                const variables = (
+                  attempt.questionWithAddedTime.question
+                    .questionData as QuestionDataType
+                ).variables;
+                const finalAnswer = variables.find(
+                  (variable) => variable.key === ans.key
+                );
+                const response = (
+                  attempt.responses as { [key: string]: string } | null
+                )?.[ans.key];
+                return (
+                  <Flex
+                    gap="sm"
+                    align="center"
+                    key={ans.key}
+                    className={`my-2 ${classes.options}`}
+                  >
+                    {FreeResponse.isCorrect(response, ans, variables) ? (
+                      <IconCheck color="green" size={30} stroke={3} />
+                    ) : (
+                      <IconX color="red" size={30} stroke={3} />
+                    )}
+                    <Latex>{`$$ ${finalAnswer?.name ?? ""} ${
+                      finalAnswer?.unit ? "~(" + finalAnswer.unit + ")" : ""
+                    } = ${ans.answerContent} $$`}</Latex>
+                    <Text color="dimmed">
+                      (You answered {response ?? "nothing"})
+                    </Text>
+                  </Flex>
+                );
+              })
+            : QuestionParts.answers(
+                attempt.questionWithAddedTime.answers as UCQATAnswersType,
+                attempt.part ?? undefined
+              ).map((ans) => (
+                <Flex
+                  gap="sm"
+                  key={ans.answerContent}
+                  className={`my-2 ${classes.options} ${
+                    (attempt.attemptedKeys as string[]).includes(ans.key)
+                      ? classes.selected
+                      : ""
+                  }`}
+                >
+                  {ans.isCorrect === true ? (
+                    <IconCheck color="green" size={30} stroke={3} />
+                  ) : (
+                    <IconX color="red" size={30} stroke={3} />
+                  )}
+                  <Stack spacing={0}>
+                    {ans.isLatex ? (
+                      <Latex>{`$$ ${ans.answerContent} $$`}</Latex>
+                    ) : (
+                      <Text>{ans.answerContent}</Text>
+                    )}
+                    {ans.feedback &&
+                      (attempt.attemptedKeys as string[]).includes(ans.key) && (
+                        <Latex>{ans.feedback}</Latex>
+                      )}
+                  </Stack>
+                </Flex>
+              ))}
+
+          {attempt.solution.length > 0 && (
             <>
               <Divider my="xl" variant="dashed" />
               <Accordion variant="contained" radius="md">
                 <Accordion.Item value="solution">
                   <Accordion.Control>Solution</Accordion.Control>
                   <Accordion.Panel>
-                    <Stack>
-                      {(
-                        attempt.questionWithAddedTime.question
-                          .questionData as QuestionDataType
-                      ).methods.map((method, index) => (
-                        <Stack
-                          key={index}
-                          spacing="md"
-                          p="md"
-                          className={
-                            theme.colorScheme === "dark"
-                              ? "rounded-md bg-gray-700"
-                              : "rounded-md bg-gray-100"
-                          }
-                        >
-                          <Flex gap="md" align="center">
-                            <Text color="dimmed">#{index + 1}</Text>
-                            <Box
-                              sx={{ flex: 2, alignSelf: "stretch" }}
-                              className={`flex items-center justify-center rounded-md border border-solid ${
-                                theme.colorScheme === "dark"
-                                  ? "border-slate-800 bg-slate-800"
-                                  : "border-slate-300 bg-slate-200"
-                              } py-1.5`}
-                            >
-                              <Latex>{`$$ ${method.expr} $$`}</Latex>
-                            </Box>
-                          </Flex>
-                          {method.explanation !== undefined && (
-                            <Flex gap="md" align="center">
-                              <IconHelp stroke={1.5} size={20} />
-                              <Text sx={{ flex: 1 }} fz="sm">
-                                {method.explanation}
-                              </Text>
-                            </Flex>
-                          )}
-                        </Stack>
-                      ))}
-                    </Stack>
+                    <SolutionSteps steps={attempt.solution} />
                   </Accordion.Panel>
                 </Accordion.Item>
               </Accordion>
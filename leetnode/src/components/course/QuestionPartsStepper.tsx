@@ -0,0 +1,83 @@
+import Latex from "@/components/Latex";
+import { QuestionDataType, UCQATType } from "@/types/question-types";
+import { Stack, Stepper, Text } from "@mantine/core";
+import { IconCheck, IconX } from "@tabler/icons";
+
+const QuestionPartsStepper = ({
+  parts,
+  variables,
+  answeredParts,
+}: {
+  parts: NonNullable<QuestionDataType["parts"]>;
+  variables: QuestionDataType["variables"];
+  answeredParts: UCQATType["answeredParts"];
+}) => {
+  return (
+    <Stepper
+      mt="xl"
+      size="sm"
+      orientation="vertical"
+      active={answeredParts.length}
+    >
+      {parts.map((part, index) => {
+        const answered = answeredParts.find((item) => item.part === part.key);
+        return (
+          <Stepper.Step
+            key={part.key}
+            allowStepSelect={false}
+            label={`Part ${index + 1}`}
+            color={
+              answered ? (answered.isCorrect ? "green" : "red") : undefined
+            }
+            completedIcon={
+              answered?.isCorrect ? (
+                <IconCheck size={16} />
+              ) : (
+                <IconX size={16} />
+              )
+            }
+            description={
+              index > answeredParts.length ? (
+                <Text size="sm" color="dimmed">
+                  Unlocks once part {index} is answered
+                </Text>
+              ) : (
+                <Stack spacing={4}>
+                  <Text size="sm">{part.prompt}</Text>
+                  {/* Answers of earlier parts are shown as later parts may build on them */}
+                  {answered && (
+                    <>
+                      <Text
+                        size="sm"
+                        weight={500}
+                        color={answered.isCorrect ? "green" : "red"}
+                      >
+                        {answered.isCorrect ? "Correct" : "Incorrect"}, the
+                        answer is:
+                      </Text>
+                      {answered.correctAnswers.map((answer) => {
+                        const finalAnswer =
+                          part.answerMode === "FreeResponse"
+                            ? variables.find(
+                                (variable) => variable.key === answer.key
+                              )
+                            : undefined;
+                        return (
+                          <Latex key={answer.key}>{`$$ ${
+                            finalAnswer ? `${finalAnswer.name} = ` : ""
+                          }${answer.answerContent} $$`}</Latex>
+                        );
+                      })}
+                    </>
+                  )}
+                </Stack>
+              )
+            }
+          />
+        );
+      })}
+    </Stepper>
+  );
+};
+
+export default QuestionPartsStepper;
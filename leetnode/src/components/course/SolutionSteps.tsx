@@ -0,0 +1,51 @@
+import Latex from "@/components/Latex";
+import { SolutionStepType } from "@/types/question-types";
+import { Box, Flex, Stack, Text, useMantineTheme } from "@mantine/core";
+import { IconHelp } from "@tabler/icons";
+
+const SolutionSteps = ({ steps }: { steps: SolutionStepType[] }) => {
+  const theme = useMantineTheme();
+
+  return (
+    <Stack>
+      {steps.map((step, index) => (
+        <Stack
+          key={step.key}
+          spacing="md"
+          p="md"
+          className={
+            theme.colorScheme === "dark"
+              ? "rounded-md bg-gray-700"
+              : "rounded-md bg-gray-100"
+          }
+        >
+          <Flex gap="md" align="center">
+            <Text color="dimmed">#{index + 1}</Text>
+            <Box
+              sx={{ flex: 2, alignSelf: "stretch" }}
+              className={`flex flex-col items-center justify-center rounded-md border border-solid ${
+                theme.colorScheme === "dark"
+                  ? "border-slate-800 bg-slate-800"
+                  : "border-slate-300 bg-slate-200"
+              } py-1.5`}
+            >
+              <Latex>{`$$ ${step.expr} $$`}</Latex>
+              {step.substituted && <Latex>{`$$ ${step.substituted} $$`}</Latex>}
+              {step.result && <Latex>{`$$ ${step.result} $$`}</Latex>}
+            </Box>
+          </Flex>
+          {step.explanation && (
+            <Flex gap="md" align="center">
+              <IconHelp stroke={1.5} size={20} />
+              <Box sx={{ flex: 1 }}>
+                <Latex>{step.explanation}</Latex>
+              </Box>
+            </Flex>
+          )}
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default SolutionSteps;
@@ -0,0 +1,213 @@
+import { QuestionDataType } from "@/types/question-types";
+import {
+  CircuitDiagram as Diagram,
+  DiagramComponentType,
+} from "@/utils/CircuitDiagram";
+import { Box, useMantineTheme } from "@mantine/core";
+
+// Pixels between points of the grid
+const GRID = 60;
+
+// Half of the length of each symbol, the rest of a component being drawn as wire
+const HALF_WIDTHS: { [kind: string]: number } = {
+  R: 20,
+  L: 20,
+  C: 5,
+  V: 15,
+  I: 15,
+  W: 0,
+};
+
+// Symbol of a component, drawn along the x axis around the origin
+const ComponentSymbol = ({
+  kind,
+  color,
+}: {
+  kind: DiagramComponentType["kind"];
+  color: string;
+}) => {
+  switch (kind) {
+    case "R":
+      return <polyline points="-20,0 -17,-7 -10,7 -3,-7 3,7 10,-7 17,7 20,0" />;
+    case "L":
+      return (
+        <path d="M -20 0 a 5 5 0 0 1 10 0 a 5 5 0 0 1 10 0 a 5 5 0 0 1 10 0 a 5 5 0 0 1 10 0" />
+      );
+    case "C":
+      return (
+        <>
+          <line x1={-5} y1={-12} x2={-5} y2={12} />
+          <line x1={5} y1={-12} x2={5} y2={12} />
+        </>
+      );
+    case "V":
+      return (
+        <>
+          <circle r={15} />
+          <line x1={-10} y1={0} x2={-4} y2={0} />
+          <line x1={-7} y1={-3} x2={-7} y2={3} />
+          <line x1={4} y1={0} x2={10} y2={0} />
+        </>
+      );
+    case "I":
+      return (
+        <>
+          <circle r={15} />
+          <line x1={-9} y1={0} x2={5} y2={0} />
+          <polygon points="9,0 3,-4 3,4" fill={color} stroke="none" />
+        </>
+      );
+    default:
+      return <></>;
+  }
+};
+
+// Label drawn as text, with its subscripts lowered
+const Label = ({
+  label,
+  x,
+  y,
+  anchor,
+}: {
+  label: string;
+  x: number;
+  y: number;
+  anchor: "start" | "middle";
+}) => (
+  <text x={x} y={y} textAnchor={anchor} fontSize={13} stroke="none">
+    {Diagram.segments(label).map((segment, index) => (
+      <tspan
+        key={index}
+        baselineShift={segment.isSubscript ? "sub" : undefined}
+        fontSize={segment.isSubscript ? 10 : undefined}
+      >
+        {segment.text}
+      </tspan>
+    ))}
+  </text>
+);
+
+export default function CircuitDiagram({
+  diagram,
+  variables,
+}: {
+  diagram?: string;
+  variables: QuestionDataType["variables"] | null;
+}) {
+  const theme = useMantineTheme();
+  if (!diagram || diagram.trim().length === 0) return <></>;
+
+  // Invalid diagrams are reported in the editor, and are left out everywhere else
+  let circuit: ReturnType<typeof Diagram.parse>;
+  try {
+    circuit = Diagram.parse(diagram);
+  } catch (e) {
+    return <></>;
+  }
+
+  const points = [
+    ...circuit.components.flatMap((component) => [
+      component.from,
+      component.to,
+    ]),
+    ...circuit.grounds,
+    ...circuit.nodes,
+  ];
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const margin = 90; // Room for labels beside the edges of the grid
+  const width = (Math.max(...xs) - minX) * GRID + 2 * margin;
+  const height = (Math.max(...ys) - minY) * GRID + 2 * margin;
+  const toX = (x: number) => (x - minX) * GRID + margin;
+  const toY = (y: number) => (y - minY) * GRID + margin;
+  const color =
+    theme.colorScheme === "dark" ? theme.colors.dark[0] : theme.black;
+
+  return (
+    <Box
+      className={`my-5 flex items-center justify-center overflow-x-auto rounded-md border border-solid ${
+        theme.colorScheme === "dark"
+          ? "border-slate-800 bg-slate-800"
+          : "border-slate-300 bg-slate-200"
+      } p-2`}
+    >
+      <svg
+        role="img"
+        aria-label="Circuit diagram"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className="max-w-full"
+        fill={color}
+        stroke={color}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      >
+        {circuit.components.map((component) => {
+          const x1 = toX(component.from.x);
+          const y1 = toY(component.from.y);
+          const x2 = toX(component.to.x);
+          const y2 = toY(component.to.y);
+          const length = Math.hypot(x2 - x1, y2 - y1);
+          const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+          const half = Math.min(HALF_WIDTHS[component.kind] ?? 0, length / 2);
+
+          // Labels sit above mostly horizontal components and right of the others
+          const isHorizontal = Math.abs(x2 - x1) >= Math.abs(y2 - y1);
+          const label =
+            component.label && Diagram.label(component.label, variables ?? []);
+          return (
+            <g key={component.name}>
+              <g
+                transform={`translate(${(x1 + x2) / 2} ${
+                  (y1 + y2) / 2
+                }) rotate(${angle})`}
+                fill="none"
+              >
+                <line x1={-length / 2} y1={0} x2={-half} y2={0} />
+                <line x1={half} y1={0} x2={length / 2} y2={0} />
+                <ComponentSymbol kind={component.kind} color={color} />
+              </g>
+              {label && (
+                <Label
+                  label={label}
+                  x={(x1 + x2) / 2 + (isHorizontal ? 0 : 22)}
+                  y={(y1 + y2) / 2 + (isHorizontal ? -20 : 5)}
+                  anchor={isHorizontal ? "middle" : "start"}
+                />
+              )}
+            </g>
+          );
+        })}
+        {circuit.grounds.map((ground, index) => {
+          const x = toX(ground.x);
+          const y = toY(ground.y);
+          return (
+            <g key={`ground-${index}`}>
+              <line x1={x} y1={y} x2={x} y2={y + 10} />
+              <line x1={x - 12} y1={y + 10} x2={x + 12} y2={y + 10} />
+              <line x1={x - 8} y1={y + 15} x2={x + 8} y2={y + 15} />
+              <line x1={x - 4} y1={y + 20} x2={x + 4} y2={y + 20} />
+            </g>
+          );
+        })}
+        {circuit.nodes.map((node, index) => (
+          <g key={`node-${index}`}>
+            <circle cx={toX(node.x)} cy={toY(node.y)} r={3} stroke="none" />
+            {node.label && (
+              <Label
+                label={node.label}
+                x={toX(node.x) + 6}
+                y={toY(node.y) - 8}
+                anchor="start"
+              />
+            )}
+          </g>
+        ))}
+      </svg>
+    </Box>
+  );
+}
@@ -12,11 +12,16 @@ import toast from "react-hot-toast";
 import { z } from "zod";
 
 import { CourseNamesType } from "@/components/course/CourseDiscussion";
+import CircuitDiagram from "@/components/editor/CircuitDiagram";
+import RevisionHistory from "@/components/editor/RevisionHistory";
 import Latex from "@/components/Latex";
 import { CourseTypeBadge } from "@/components/misc/Badges";
 import { AllQuestionsType, QuestionFormFullType } from "@/types/question-types";
+import { CircuitDiagram as Diagram } from "@/utils/CircuitDiagram";
 import { CustomEval } from "@/utils/CustomEval";
 import { CustomMath } from "@/utils/CustomMath";
+import { DEFAULT_TOLERANCE, FreeResponse } from "@/utils/FreeResponse";
+import { DEFAULT_PART_THRESHOLD } from "@/utils/QuestionParts";
 import { DragDropContext, Draggable, Droppable } from "@hello-pangea/dnd";
 import {
   ActionIcon,
@@ -32,16 +37,19 @@ import {
   Group,
   Loader,
   Modal,
+  MultiSelect,
   NumberInput,
   SegmentedControl,
   Select,
   SimpleGrid,
   Stack,
+  Switch,
   Text,
   Textarea,
   TextInput,
   Tooltip,
 } from "@mantine/core";
+import { DatePicker } from "@mantine/dates";
 import { useForm, zodResolver } from "@mantine/form";
 import { randomId, useMediaQuery } from "@mantine/hooks";
 import { Prism } from "@mantine/prism";
@@ -50,6 +58,7 @@ import {
   Level,
   Question,
   QuestionDifficulty,
+  QuestionStatus,
   Topic,
 } from "@prisma/client";
 import {
@@ -62,10 +71,12 @@ import {
   IconEraser,
   IconGripVertical,
   IconHelp,
+  IconHistory,
   IconMathFunction,
   IconMountain,
   IconPlus,
   IconRefresh,
+  IconSeeding,
   IconTrash,
   IconX,
 } from "@tabler/icons";
@@ -98,6 +109,7 @@ export default function QuestionEditor({
   const mobile = useMediaQuery(`(max-width: ${theme.breakpoints.sm}px)`);
 
   const [rawDataOpened, setRawDataOpened] = useState(false);
+  const [revisionsOpened, setRevisionsOpened] = useState(false);
   const [filteredCourses, setFilteredCourses] = useState<CourseNamesType[]>([]);
   const [confirmDeleteOpened, setConfirmDeleteOpened] = useState(false);
 
@@ -179,6 +191,11 @@ export default function QuestionEditor({
               max: z.number().optional(),
               decimalPlaces: z.number().int().min(0).max(10).optional(),
               step: z.number().optional(),
+              valueSet: z.enum(["E6", "E12", "E24", "Custom"]).optional(),
+              values: z.array(z.number()).optional(),
+              tolerance: z.number().nonnegative().optional(),
+              toleranceType: z.enum(["Relative", "Absolute"]).optional(),
+              complexFormat: z.enum(["Rectangular", "Polar"]).optional(),
             })
           )
           .nonempty({ message: "Please add at least 1 variable" })
@@ -203,6 +220,55 @@ export default function QuestionEditor({
           )
           .nonempty({ message: "Please add at least 1 method" })
           .or(z.literal(undefined)),
+        constraints: z
+          .array(
+            z.object({
+              expr: z.string().trim().min(1, { message: "Cannot be empty" }),
+            })
+          )
+          .optional(),
+        netlist: z.string().optional(),
+        checkUnits: z.boolean().optional(),
+        diagram: z
+          .string()
+          .optional()
+          .superRefine((diagram, ctx) => {
+            if (!diagram?.trim()) return;
+            try {
+              Diagram.parse(diagram);
+            } catch (e) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: e instanceof Error ? e.message : "Invalid diagram",
+              });
+            }
+          }),
+        misconceptions: z
+          .array(
+            z.object({
+              name: z.string().trim().min(1, { message: "Cannot be empty" }),
+              methods: z.array(
+                z.object({
+                  expr: z
+                    .string()
+                    .trim()
+                    .regex(/^[^=]+=[^=]+$/, { message: "Invalid expression" }),
+                })
+              ),
+            })
+          )
+          .optional(),
+        parts: z
+          .array(
+            z.object({
+              prompt: z.string().trim().min(1, { message: "Cannot be empty" }),
+              finalAnswers: z
+                .array(z.string())
+                .min(1, { message: "Pick at least 1 final answer" }),
+            })
+          )
+          .optional(),
+        partThreshold: z.number().min(0).max(1).optional(),
         answers: z
           .array(
             z.object({
@@ -227,6 +293,9 @@ export default function QuestionEditor({
             { message: "Please have at least 1 correct answer" }
           )
           .or(z.literal(undefined)),
+        status: z.nativeEnum(QuestionStatus),
+        activeFrom: z.date().nullish(),
+        activeUntil: z.date().nullish(),
       })
     ),
   });
@@ -237,9 +306,11 @@ export default function QuestionEditor({
   const [finalAnsPreview, setFinalAnsPreview] = useState(
     previewFinalAnsMessage
   );
+  const [previewSeed, setPreviewSeed] = useState<number | undefined>();
 
   const invalidMessage = "\\text{Invalid Variables or Methods}";
-  const handlePreviewChange = (toRandomize: boolean) => {
+  // Returns whether the variables and methods evaluated, including their units
+  const handlePreviewChange = (toRandomize: boolean, seed?: number) => {
     form.clearErrors();
     form.validate();
 
@@ -273,15 +344,29 @@ export default function QuestionEditor({
         );
         toast.success("Preview Updated!");
       }
-      return;
+      return true;
     }
 
     try {
-      const { questionVariables, editorAnswers } = CustomEval(
+      const {
+        seed: evaluatedSeed,
+        questionVariables,
+        editorAnswers,
+        misconceptionOptions,
+      } = CustomEval(
         form.values.variables,
         form.values.methods,
-        toRandomize
+        toRandomize,
+        seed,
+        form.values.misconceptions,
+        form.values.constraints,
+        form.values.parts,
+        form.values.netlist,
+        form.values.checkUnits
       );
+      setPreviewSeed(evaluatedSeed);
+
+      FreeResponse.checkReal(form.values, editorAnswers);
 
       setPreview(
         questionVariables
@@ -302,6 +387,11 @@ export default function QuestionEditor({
               .map((ans) => ans.answerContent)
               .join("~|~")}`;
           })
+          .concat(
+            misconceptionOptions.map((item) => {
+              return `\\text{${item.name}} &\\Rightarrow ${item.answerContent}`;
+            })
+          )
           .join("\\\\")
       );
     } catch (e) {
@@ -357,7 +447,7 @@ export default function QuestionEditor({
           className: "border border-solid border-red-500",
         });
       }
-      return;
+      return false;
     }
 
     if (toRandomize) {
@@ -368,6 +458,7 @@ export default function QuestionEditor({
     } else {
       toast.success("Preview Updated!");
     }
+    return true;
   };
 
   const varFields = form.values.variables?.map((item, index) => (
@@ -519,55 +610,144 @@ export default function QuestionEditor({
           </Flex>
           {form.values.variables && item.randomize && !item.isFinalAnswer && (
             <Flex gap="sm" align="center">
-              {!mobile && (
-                <Text fw={500} fz={mobile ? "xs" : "sm"}>
-                  Min <span className="text-red-500">*</span>
-                </Text>
-              )}
-              <NumberInput
-                label={mobile ? "Min" : ""}
+              <Select
+                label={mobile ? "Values" : ""}
                 size="xs"
-                sx={{ flex: 1 }}
-                required={item.randomize}
-                precision={CustomMath.getDecimalPlaces(
-                  form.values.variables[index]?.min ?? 0
-                )}
-                hideControls
-                {...form.getInputProps(`variables.${index}.min`)}
+                w={mobile ? "5rem" : "7rem"}
+                data={[
+                  { label: "Uniform", value: "Uniform" },
+                  { label: "E6", value: "E6" },
+                  { label: "E12", value: "E12" },
+                  { label: "E24", value: "E24" },
+                  { label: "Custom", value: "Custom" },
+                ]}
+                value={item.valueSet ?? "Uniform"}
+                onChange={(value) =>
+                  form.setFieldValue(
+                    `variables.${index}.valueSet`,
+                    value === "Uniform" ? undefined : value
+                  )
+                }
               />
-              {!mobile && (
-                <Text fw={500} fz={mobile ? "xs" : "sm"}>
-                  Max <span className="text-red-500">*</span>
-                </Text>
+              {item.valueSet === "Custom" && (
+                <MultiSelect
+                  label={mobile ? "Custom Values" : ""}
+                  size="xs"
+                  sx={{ flex: 1 }}
+                  placeholder="Type a value and press enter"
+                  searchable
+                  creatable
+                  getCreateLabel={(query) => `+ Add ${query}`}
+                  shouldCreate={(query) =>
+                    query.trim().length > 0 && !isNaN(Number(query))
+                  }
+                  onCreate={(query) => Number(query).toString()}
+                  data={(item.values ?? []).map((value) => value.toString())}
+                  value={(item.values ?? []).map((value) => value.toString())}
+                  onChange={(values) =>
+                    form.setFieldValue(
+                      `variables.${index}.values`,
+                      values.map(Number)
+                    )
+                  }
+                />
               )}
-              <NumberInput
-                label={mobile ? "Max" : ""}
-                size="xs"
-                sx={{ flex: 1 }}
-                required={item.randomize}
-                precision={CustomMath.getDecimalPlaces(
-                  form.values.variables[index]?.max ?? 0
-                )}
-                hideControls
-                {...form.getInputProps(`variables.${index}.max`)}
-              />
-              {!mobile && (
-                <Text fw={500} fz={mobile ? "xs" : "sm"}>
-                  Decimal Places <span className="text-red-500">*</span>
-                </Text>
+              {item.valueSet !== "Custom" && (
+                <>
+                  {!mobile && (
+                    <Text fw={500} fz={mobile ? "xs" : "sm"}>
+                      Min <span className="text-red-500">*</span>
+                    </Text>
+                  )}
+                  <NumberInput
+                    label={mobile ? "Min" : ""}
+                    size="xs"
+                    sx={{ flex: 1 }}
+                    required={item.randomize}
+                    precision={CustomMath.getDecimalPlaces(
+                      form.values.variables[index]?.min ?? 0
+                    )}
+                    hideControls
+                    {...form.getInputProps(`variables.${index}.min`)}
+                  />
+                  {!mobile && (
+                    <Text fw={500} fz={mobile ? "xs" : "sm"}>
+                      Max <span className="text-red-500">*</span>
+                    </Text>
+                  )}
+                  <NumberInput
+                    label={mobile ? "Max" : ""}
+                    size="xs"
+                    sx={{ flex: 1 }}
+                    required={item.randomize}
+                    precision={CustomMath.getDecimalPlaces(
+                      form.values.variables[index]?.max ?? 0
+                    )}
+                    hideControls
+                    {...form.getInputProps(`variables.${index}.max`)}
+                  />
+                </>
+              )}
+              {!item.valueSet && (
+                <>
+                  {!mobile && (
+                    <Text fw={500} fz={mobile ? "xs" : "sm"}>
+                      Decimal Places <span className="text-red-500">*</span>
+                    </Text>
+                  )}
+                  <NumberInput
+                    label={mobile ? "DP" : ""}
+                    size="xs"
+                    sx={{ flex: 1 }}
+                    required={item.randomize}
+                    {...form.getInputProps(`variables.${index}.decimalPlaces`)}
+                  />
+                </>
               )}
-              <NumberInput
-                label={mobile ? "DP" : ""}
-                size="xs"
-                sx={{ flex: 1 }}
-                required={item.randomize}
-                {...form.getInputProps(`variables.${index}.decimalPlaces`)}
-              />
             </Flex>
           )}
           {form.values.variables &&
             item.isFinalAnswer &&
-            questionType === "dynamic" && (
+            questionType === "dynamic" &&
+            form.values.answerMode === "FreeResponse" && (
+              <Flex gap="sm" align="center">
+                {!mobile && (
+                  <Text fw={500} fz="sm">
+                    Tolerance
+                  </Text>
+                )}
+                <NumberInput
+                  label={mobile ? "Tolerance" : ""}
+                  size="xs"
+                  sx={{ flex: 1 }}
+                  min={0}
+                  precision={CustomMath.getDecimalPlaces(
+                    form.values.variables[index]?.tolerance ?? 0
+                  )}
+                  hideControls
+                  placeholder={DEFAULT_TOLERANCE.toString()}
+                  {...form.getInputProps(`variables.${index}.tolerance`)}
+                />
+                <SegmentedControl
+                  size="xs"
+                  data={[
+                    { label: "% of Answer", value: "Relative" },
+                    { label: "Absolute", value: "Absolute" },
+                  ]}
+                  value={item.toleranceType ?? "Relative"}
+                  onChange={(value: "Relative" | "Absolute") =>
+                    form.setFieldValue(
+                      `variables.${index}.toleranceType`,
+                      value
+                    )
+                  }
+                />
+              </Flex>
+            )}
+          {form.values.variables &&
+            item.isFinalAnswer &&
+            questionType === "dynamic" &&
+            form.values.answerMode !== "FreeResponse" && (
               <Flex gap="sm" align="center">
                 {!mobile && (
                   <Text fw={500} fz="sm">
@@ -620,6 +800,22 @@ export default function QuestionEditor({
                   placeholder="20"
                   {...form.getInputProps(`variables.${index}.step`)}
                 />
+                <Tooltip label="Format if Complex" withArrow>
+                  <SegmentedControl
+                    size="xs"
+                    data={[
+                      { label: "a + jb", value: "Rectangular" },
+                      { label: "r∠θ", value: "Polar" },
+                    ]}
+                    value={item.complexFormat ?? "Rectangular"}
+                    onChange={(value: "Rectangular" | "Polar") =>
+                      form.setFieldValue(
+                        `variables.${index}.complexFormat`,
+                        value
+                      )
+                    }
+                  />
+                </Tooltip>
               </Flex>
             )}
         </Stack>
@@ -717,6 +913,7 @@ export default function QuestionEditor({
               <Textarea
                 sx={{ flex: 1 }}
                 required={item.explanation !== undefined}
+                placeholder="Write {{name}} to show the value of a variable in the student's question"
                 {...form.getInputProps(`methods.${index}.explanation`)}
               />
             </Flex>
@@ -734,6 +931,218 @@ export default function QuestionEditor({
     });
   };
 
+  const constraintFields = form.values.constraints?.map((item, index) => (
+    <Flex
+      key={item.key}
+      gap="sm"
+      align="center"
+      p="md"
+      my="md"
+      wrap="wrap"
+      className={
+        theme.colorScheme === "dark"
+          ? "rounded-md odd:bg-gray-600 even:bg-gray-700"
+          : "rounded-md odd:bg-gray-100 even:bg-gray-200"
+      }
+    >
+      <Text color="dimmed" fz={mobile ? "xs" : "md"}>
+        #{index + 1}
+      </Text>
+      <TextInput
+        miw="10rem"
+        sx={{ flex: 1 }}
+        placeholder="eg. R_1 > R_2"
+        {...form.getInputProps(`constraints.${index}.expr`)}
+      />
+      <Box
+        miw="10rem"
+        mih="2rem"
+        sx={{ flex: 1, alignSelf: "stretch" }}
+        className={`flex items-center justify-center rounded-md border border-solid p-1 ${
+          theme.colorScheme === "dark"
+            ? "border-slate-800 bg-slate-800"
+            : "border-slate-300 bg-slate-200"
+        }`}
+      >
+        <Latex>{`$$ ${item.expr} $$`}</Latex>
+      </Box>
+      <ActionIcon
+        size={mobile ? "xs" : "md"}
+        variant="transparent"
+        onClick={() => form.removeListItem("constraints", index)}
+      >
+        <IconTrash size={mobile ? 12 : 16} />
+      </ActionIcon>
+    </Flex>
+  ));
+
+  const newConstraint = () => {
+    form.values.constraints = form.values.constraints ?? [];
+    form.insertListItem("constraints", {
+      key: randomId(),
+      expr: "",
+    });
+  };
+
+  const misconceptionFields = form.values.misconceptions?.map((item, index) => (
+    <Stack
+      key={item.key}
+      p="md"
+      my="md"
+      spacing="sm"
+      className={
+        theme.colorScheme === "dark"
+          ? "rounded-md odd:bg-gray-600 even:bg-gray-700"
+          : "rounded-md odd:bg-gray-100 even:bg-gray-200"
+      }
+    >
+      <Flex gap="sm" align="center">
+        <Text color="dimmed" fz={mobile ? "xs" : "md"}>
+          #{index + 1}
+        </Text>
+        <TextInput
+          sx={{ flex: 1 }}
+          placeholder="Name (eg. Forgot to combine resistors in parallel)"
+          required
+          {...form.getInputProps(`misconceptions.${index}.name`)}
+        />
+        <ActionIcon
+          size={mobile ? "xs" : "md"}
+          variant="transparent"
+          onClick={() => form.removeListItem("misconceptions", index)}
+        >
+          <IconTrash size={mobile ? 12 : 16} />
+        </ActionIcon>
+      </Flex>
+      <TextInput
+        placeholder="Feedback shown to students who pick this option (optional)"
+        {...form.getInputProps(`misconceptions.${index}.feedback`)}
+      />
+      {item.methods.map((method, methodIndex) => (
+        <Flex key={method.key} gap="sm" align="center" wrap="wrap">
+          <TextInput
+            miw="10rem"
+            sx={{ flex: 1 }}
+            {...form.getInputProps(
+              `misconceptions.${index}.methods.${methodIndex}.expr`
+            )}
+          />
+          <Box
+            miw="10rem"
+            mih="2rem"
+            sx={{ flex: 1, alignSelf: "stretch" }}
+            className={`flex items-center justify-center rounded-md border border-solid p-1 ${
+              theme.colorScheme === "dark"
+                ? "border-slate-800 bg-slate-800"
+                : "border-slate-300 bg-slate-200"
+            }`}
+          >
+            <Latex>{`$$ ${method.expr} $$`}</Latex>
+          </Box>
+          <ActionIcon
+            size={mobile ? "xs" : "md"}
+            variant="transparent"
+            onClick={() =>
+              form.removeListItem(
+                `misconceptions.${index}.methods`,
+                methodIndex
+              )
+            }
+          >
+            <IconTrash size={mobile ? 12 : 16} />
+          </ActionIcon>
+        </Flex>
+      ))}
+      <Button
+        variant="subtle"
+        color="gray"
+        size="xs"
+        leftIcon={<IconPlus size={14} />}
+        onClick={() =>
+          form.insertListItem(`misconceptions.${index}.methods`, {
+            key: randomId(),
+            expr: "",
+          })
+        }
+      >
+        Replace a Method
+      </Button>
+    </Stack>
+  ));
+
+  const newMisconception = () => {
+    form.values.misconceptions = form.values.misconceptions ?? [];
+    form.insertListItem("misconceptions", {
+      key: randomId(),
+      name: "",
+      methods: [{ key: randomId(), expr: "" }],
+    });
+  };
+
+  const partFields = form.values.parts?.map((item, index) => (
+    <Flex
+      key={item.key}
+      gap="sm"
+      align="center"
+      p="md"
+      my="md"
+      wrap="wrap"
+      className={
+        theme.colorScheme === "dark"
+          ? "rounded-md odd:bg-gray-600 even:bg-gray-700"
+          : "rounded-md odd:bg-gray-100 even:bg-gray-200"
+      }
+    >
+      <Text color="dimmed" fz={mobile ? "xs" : "md"}>
+        #{index + 1}
+      </Text>
+      <TextInput
+        miw="12rem"
+        sx={{ flex: 2 }}
+        placeholder="Prompt (eg. Find the Thevenin resistance)"
+        required
+        {...form.getInputProps(`parts.${index}.prompt`)}
+      />
+      <MultiSelect
+        miw="10rem"
+        sx={{ flex: 1 }}
+        placeholder="Final answers"
+        data={(form.values.variables ?? [])
+          .filter((variable) => variable.isFinalAnswer)
+          .map((variable) => ({ value: variable.key, label: variable.name }))}
+        {...form.getInputProps(`parts.${index}.finalAnswers`)}
+      />
+      <Select
+        w="11rem"
+        data={[
+          { label: "Multiple Choice", value: "MultipleChoice" },
+          { label: "Free Response", value: "FreeResponse" },
+        ]}
+        value={item.answerMode ?? "MultipleChoice"}
+        onChange={(value: "MultipleChoice" | "FreeResponse") =>
+          form.setFieldValue(`parts.${index}.answerMode`, value)
+        }
+      />
+      <ActionIcon
+        size={mobile ? "xs" : "md"}
+        variant="transparent"
+        onClick={() => form.removeListItem("parts", index)}
+      >
+        <IconTrash size={mobile ? 12 : 16} />
+      </ActionIcon>
+    </Flex>
+  ));
+
+  const newPart = () => {
+    form.values.parts = form.values.parts ?? [];
+    form.insertListItem("parts", {
+      key: randomId(),
+      prompt: "",
+      answerMode: "MultipleChoice",
+      finalAnswers: [],
+    });
+  };
+
   const hintFields = form.values.hints?.map((item, index) => (
     <Draggable key={item.key} index={index} draggableId={item.key}>
       {(provided) => (
@@ -878,6 +1287,11 @@ export default function QuestionEditor({
           >
             <IconTrash size={mobile ? 12 : 16} />
           </ActionIcon>
+          <TextInput
+            sx={{ flexBasis: "100%" }}
+            placeholder="Feedback shown to students who pick this option (optional)"
+            {...form.getInputProps(`answers.${index}.feedback`)}
+          />
         </Flex>
       )}
     </Draggable>
@@ -897,7 +1311,10 @@ export default function QuestionEditor({
     const queryClient = useQueryClient();
     const { mutate: addQuestion, status: addQuestionStatus } = useMutation({
       mutationFn: (
-        newQuestion: Omit<Question, "questionId" | "lastModified"> & {
+        newQuestion: Omit<
+          Question,
+          "questionId" | "lastModified" | "revisionId"
+        > & {
           baseQuestionId?: string | null;
         }
       ) => axios.post("/api/question/admin/add", newQuestion),
@@ -918,7 +1335,7 @@ export default function QuestionEditor({
         variationId: number;
         editedQuestion: Omit<
           Question,
-          "questionId" | "variationId" | "lastModified"
+          "questionId" | "variationId" | "lastModified" | "revisionId"
         > & { newQuestionId?: string | null; newVariationId?: number | null };
       }) =>
         axios.put(
@@ -994,6 +1411,31 @@ export default function QuestionEditor({
     );
   }
 
+  // Only scheduled questions keep their active window
+  const scheduleDates = (values: typeof form.values) => ({
+    activeFrom:
+      values.status === QuestionStatus.Scheduled
+        ? values.activeFrom ?? null
+        : null,
+    activeUntil:
+      values.status === QuestionStatus.Scheduled
+        ? values.activeUntil ?? null
+        : null,
+  });
+
+  // Parts and how they feed mastery, only saved for dynamic questions with parts
+  const partsData = (values: typeof form.values) =>
+    questionType === "dynamic" && values.parts && values.parts.length > 0
+      ? {
+          parts: values.parts,
+          partCredit: values.partCredit,
+          partThreshold:
+            values.partCredit === "Threshold"
+              ? values.partThreshold
+              : undefined,
+        }
+      : {};
+
   const allTopics = topics.data.map(
     (topic: { topicName: string; topicSlug: string; topicLevel: string }) => {
       return {
@@ -1009,6 +1451,10 @@ export default function QuestionEditor({
       className="pr-5"
       onSubmit={form.onSubmit(
         (values) => {
+          // Refuse to save methods that do not evaluate, such as ones mixing incompatible units
+          if (questionType === "dynamic" && !handlePreviewChange(false)) {
+            return;
+          }
           if (currQuestionId === undefined || currVariationId === undefined) {
             addQuestion({
               baseQuestionId: values.baseQuestionId,
@@ -1017,10 +1463,28 @@ export default function QuestionEditor({
               questionTitle: values.title,
               questionDifficulty:
                 values.difficulty ?? QuestionDifficulty.Medium,
+              questionStatus: values.status,
+              ...scheduleDates(values),
               questionContent: editorHtml.current,
               questionData: {
+                answerMode:
+                  questionType === "dynamic" ? values.answerMode : undefined,
                 variables: values.variables,
                 methods: values.methods,
+                constraints:
+                  questionType === "dynamic" ? values.constraints : undefined,
+                netlist:
+                  questionType === "dynamic" && values.netlist?.trim()
+                    ? values.netlist
+                    : undefined,
+                checkUnits:
+                  questionType === "dynamic" ? values.checkUnits : undefined,
+                diagram: values.diagram?.trim() ? values.diagram : undefined,
+                misconceptions:
+                  questionType === "dynamic"
+                    ? values.misconceptions
+                    : undefined,
+                ...partsData(values),
                 hints: values.hints,
                 answers: values.answers,
               },
@@ -1037,10 +1501,28 @@ export default function QuestionEditor({
                 questionTitle: values.title,
                 questionDifficulty:
                   values.difficulty ?? QuestionDifficulty.Medium,
+                questionStatus: values.status,
+                ...scheduleDates(values),
                 questionContent: editorHtml.current,
                 questionData: {
+                  answerMode:
+                    questionType === "dynamic" ? values.answerMode : undefined,
                   variables: values.variables,
                   methods: values.methods,
+                  constraints:
+                    questionType === "dynamic" ? values.constraints : undefined,
+                  netlist:
+                    questionType === "dynamic" && values.netlist?.trim()
+                      ? values.netlist
+                      : undefined,
+                  checkUnits:
+                    questionType === "dynamic" ? values.checkUnits : undefined,
+                  diagram: values.diagram?.trim() ? values.diagram : undefined,
+                  misconceptions:
+                    questionType === "dynamic"
+                      ? values.misconceptions
+                      : undefined,
+                  ...partsData(values),
                   hints: values.hints,
                   answers: values.answers,
                 },
@@ -1072,6 +1554,7 @@ export default function QuestionEditor({
               form.setFieldValue(`variables.${index}.max`, undefined);
               form.setFieldValue(`variables.${index}.step`, undefined);
               form.setFieldValue(`variables.${index}.decimalPlaces`, undefined);
+              form.setFieldValue(`variables.${index}.valueSet`, undefined);
             });
           }
         }}
@@ -1206,6 +1689,74 @@ export default function QuestionEditor({
         />
       </SimpleGrid>
 
+      <SimpleGrid
+        mt="lg"
+        cols={form.values.status === QuestionStatus.Scheduled ? 3 : 1}
+        breakpoints={[{ maxWidth: "sm", cols: 1 }]}
+      >
+        <Select
+          data={[
+            {
+              label: "Draft (Hidden from students)",
+              value: QuestionStatus.Draft,
+            },
+            {
+              label: "Active",
+              value: QuestionStatus.Active,
+            },
+            {
+              label: "Scheduled (Active between dates)",
+              value: QuestionStatus.Scheduled,
+            },
+            {
+              label: "Retired (Hidden from students)",
+              value: QuestionStatus.Retired,
+            },
+          ]}
+          label="Status"
+          required
+          {...form.getInputProps("status")}
+        />
+        {form.values.status === QuestionStatus.Scheduled && (
+          <>
+            <DatePicker
+              label="Active From"
+              placeholder="Immediately"
+              clearable
+              {...form.getInputProps("activeFrom")}
+            />
+            <DatePicker
+              label="Active Until"
+              placeholder="Indefinitely"
+              clearable
+              minDate={form.values.activeFrom ?? undefined}
+              {...form.getInputProps("activeUntil")}
+            />
+          </>
+        )}
+      </SimpleGrid>
+
+      {questionType === "dynamic" && (
+        <Select
+          mt="lg"
+          data={[
+            {
+              label: "Multiple Choice (Options generated from final answers)",
+              value: "MultipleChoice",
+            },
+            {
+              label: "Numeric Free Response (Typed and graded with tolerance)",
+              value: "FreeResponse",
+            },
+          ]}
+          label="Answer Format"
+          value={form.values.answerMode ?? "MultipleChoice"}
+          onChange={(value: "MultipleChoice" | "FreeResponse") =>
+            form.setFieldValue("answerMode", value)
+          }
+        />
+      )}
+
       <Text weight={500} size="sm" mb="xs" mt="lg">
         Topics in Courses
       </Text>
@@ -1243,7 +1794,7 @@ export default function QuestionEditor({
           multiline
           width={350}
           withArrow
-          label="Complex numbers and phasors are currently not supported. Set a variable as a final answer on the right to make it part of the question's options."
+          label="Write complex numbers with j (eg. 3 + 4j), phasors as phasor(r, θ) with θ in degrees, and use mag(z) and ang(z) for their magnitude and angle. With Check Units on, units such as k\Omega, mA or \mu F are checked across methods and final answers are rescaled to a sensible SI prefix, while a plain 0 goes with any unit. Otherwise units are only labels. Set a variable as a final answer on the right to make it part of the question's options."
         >
           <ActionIcon
             variant="transparent"
@@ -1260,6 +1811,16 @@ export default function QuestionEditor({
             />
           </ActionIcon>
         </Tooltip>
+        {questionType === "dynamic" && (
+          <Switch
+            ml="auto"
+            label="Check Units"
+            checked={form.values.checkUnits ?? false}
+            onChange={(event) =>
+              form.setFieldValue("checkUnits", event.currentTarget.checked)
+            }
+          />
+        )}
       </Flex>
       <DragDropContext
         onDragEnd={({ destination, source }) =>
@@ -1298,7 +1859,7 @@ export default function QuestionEditor({
           multiline
           width={360}
           withArrow
-          label="Expressions must have 1 and only 1 equal sign in the middle. The result from the left side will be assigned to the variable on the right side. Explanations will only be shown after attempting the question."
+          label="Expressions must have 1 and only 1 equal sign in the middle. The result from the left side will be assigned to the variable on the right side. Common functions such as sqrt, log, ln and sin can be used, along with helpers such as parallel(R_1, R_2, ...), divider(V, R_1, R_2), dB(x) for amplitude ratios and dBp(x) for power ratios. Functions cannot be defined in methods. Explanations will only be shown after attempting the question."
         >
           <ActionIcon
             variant="transparent"
@@ -1342,6 +1903,239 @@ export default function QuestionEditor({
         <IconPlus size={16} />
       </Button>
 
+      <Flex mt="xl" align="center">
+        <Text weight={500} size="sm">
+          Diagram
+        </Text>
+        <Tooltip
+          multiline
+          width={360}
+          withArrow
+          label="A diagram is an optional schematic drawn on a grid, with 1 component per line such as R1 0,0 2,0 R_1 (name, start and end points, then a label). Components are R, L, C, V, I and W (wire), with V drawn positive at its start point and the arrow of I pointing to its end point. .gnd x,y draws a ground and .node x,y out draws a labelled node. Labels naming a variable show its value in each question, while final answers are only shown by name."
+        >
+          <ActionIcon
+            variant="transparent"
+            radius="xl"
+            ml="lg"
+            className="cursor-help"
+          >
+            <IconHelp
+              size={20}
+              color={theme.colorScheme === "dark" ? "white" : "black"}
+            />
+          </ActionIcon>
+        </Tooltip>
+      </Flex>
+      <Textarea
+        mt="md"
+        autosize
+        minRows={3}
+        placeholder={
+          "eg.\nV1 0,0 0,2 V_s\nR1 0,0 2,0 R_1\nR2 2,0 2,2 R_2\nW1 2,2 0,2\n.gnd 0,2"
+        }
+        styles={{ input: { fontFamily: theme.fontFamilyMonospace } }}
+        {...form.getInputProps("diagram")}
+      />
+      <CircuitDiagram
+        diagram={form.values.diagram}
+        variables={form.values.variables ?? null}
+      />
+
+      {questionType === "dynamic" && (
+        <>
+          <Flex mt="xl" align="center">
+            <Text weight={500} size="sm">
+              Netlist
+            </Text>
+            <Tooltip
+              multiline
+              width={360}
+              withArrow
+              label="A netlist is an optional circuit, solved before the methods run, with 1 element per line such as R1 in out R_1 (name, 2 nodes and a value written with your variables). Elements are R, L, C, V and I, along with E (voltage gain) and G (transconductance), which list their 2 control nodes before the value. Node 0 is ground, .ac f sets the frequency (Hz or rad/s) of an AC analysis, and lines starting with * are comments. Node voltages and element currents are solved into V_{node} and I_{element}, such as V_{out} or I_{R1}, which can be final answers or used in methods."
+            >
+              <ActionIcon
+                variant="transparent"
+                radius="xl"
+                ml="lg"
+                className="cursor-help"
+              >
+                <IconHelp
+                  size={20}
+                  color={theme.colorScheme === "dark" ? "white" : "black"}
+                />
+              </ActionIcon>
+            </Tooltip>
+          </Flex>
+          <Textarea
+            mt="md"
+            autosize
+            minRows={3}
+            placeholder={"eg.\nV1 in 0 V_s\nR1 in out R_1\nR2 out 0 R_2"}
+            styles={{ input: { fontFamily: theme.fontFamilyMonospace } }}
+            {...form.getInputProps("netlist")}
+          />
+
+          <Flex mt="xl" align="center">
+            <Text weight={500} size="sm">
+              Constraints
+            </Text>
+            <Tooltip
+              multiline
+              width={360}
+              withArrow
+              label="Constraints are optional comparisons that random values must satisfy, such as R_1 > R_2 or I > 0 mA (compare values with units to values with units). Values are regenerated up to 100 times until every constraint holds and no final answer is 0 or not a number."
+            >
+              <ActionIcon
+                variant="transparent"
+                radius="xl"
+                ml="lg"
+                className="cursor-help"
+              >
+                <IconHelp
+                  size={20}
+                  color={theme.colorScheme === "dark" ? "white" : "black"}
+                />
+              </ActionIcon>
+            </Tooltip>
+          </Flex>
+          {constraintFields}
+          <Button
+            fullWidth
+            variant="light"
+            color="gray"
+            className={
+              theme.colorScheme === "dark" ? "bg-zinc-800" : "bg-gray-100"
+            }
+            radius="sm"
+            mt="md"
+            onClick={newConstraint}
+          >
+            <IconPlus size={16} />
+          </Button>
+        </>
+      )}
+
+      {questionType === "dynamic" &&
+        form.values.answerMode !== "FreeResponse" && (
+          <>
+            <Flex mt="xl" align="center">
+              <Text weight={500} size="sm">
+                Misconceptions
+              </Text>
+              <Tooltip
+                multiline
+                width={360}
+                withArrow
+                label="Misconceptions are optional and named after a mistake students make, such as forgetting to combine resistors in parallel. Each one replaces the methods assigning the same variables, and its final answers become distractors before any random ones. The misconception a student picks is recorded with their attempt."
+              >
+                <ActionIcon
+                  variant="transparent"
+                  radius="xl"
+                  ml="lg"
+                  className="cursor-help"
+                >
+                  <IconHelp
+                    size={20}
+                    color={theme.colorScheme === "dark" ? "white" : "black"}
+                  />
+                </ActionIcon>
+              </Tooltip>
+            </Flex>
+            {misconceptionFields}
+            <Button
+              fullWidth
+              variant="light"
+              color="gray"
+              className={
+                theme.colorScheme === "dark" ? "bg-zinc-800" : "bg-gray-100"
+              }
+              radius="sm"
+              mt="md"
+              onClick={newMisconception}
+            >
+              <IconPlus size={16} />
+            </Button>
+          </>
+        )}
+
+      {questionType === "dynamic" && (
+        <>
+          <Flex mt="xl" align="center">
+            <Text weight={500} size="sm">
+              Parts
+            </Text>
+            <Tooltip
+              multiline
+              width={360}
+              withArrow
+              label="Parts are optional and split a question into steps, such as finding the Thevenin resistance, then the voltage, then the load current. Each part asks for some of the final answers, as options or typed, and unlocks once the part before it is answered. The Answer Format above is ignored for questions with parts, and each part is recorded as its own attempt."
+            >
+              <ActionIcon
+                variant="transparent"
+                radius="xl"
+                ml="lg"
+                className="cursor-help"
+              >
+                <IconHelp
+                  size={20}
+                  color={theme.colorScheme === "dark" ? "white" : "black"}
+                />
+              </ActionIcon>
+            </Tooltip>
+          </Flex>
+          {partFields}
+          <Button
+            fullWidth
+            variant="light"
+            color="gray"
+            className={
+              theme.colorScheme === "dark" ? "bg-zinc-800" : "bg-gray-100"
+            }
+            radius="sm"
+            mt="md"
+            onClick={newPart}
+          >
+            <IconPlus size={16} />
+          </Button>
+          {form.values.parts && form.values.parts.length > 0 && (
+            <SimpleGrid cols={2} mt="md">
+              <Select
+                data={[
+                  {
+                    label: "All parts must be correct",
+                    value: "AllParts",
+                  },
+                  {
+                    label: "Each part counts on its own",
+                    value: "EachPart",
+                  },
+                  {
+                    label: "A share of parts must be correct",
+                    value: "Threshold",
+                  },
+                ]}
+                label="Mastery Credit"
+                value={form.values.partCredit ?? "AllParts"}
+                onChange={(value: "AllParts" | "EachPart" | "Threshold") =>
+                  form.setFieldValue("partCredit", value)
+                }
+              />
+              {form.values.partCredit === "Threshold" && (
+                <NumberInput
+                  label="Share of Parts to Get Right"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  precision={2}
+                  placeholder={DEFAULT_PART_THRESHOLD.toString()}
+                  {...form.getInputProps("partThreshold")}
+                />
+              )}
+            </SimpleGrid>
+          )}
+        </>
+      )}
+
       <Flex mt="xl" align="center">
         <Text weight={500} size="sm">
           Hints
@@ -1420,6 +2214,36 @@ export default function QuestionEditor({
             </ActionIcon>
           </Tooltip>
         )}
+        {questionType === "dynamic" && (
+          <>
+            <NumberInput
+              ml="sm"
+              w={130}
+              size="xs"
+              radius="xl"
+              placeholder="Seed"
+              hideControls
+              value={previewSeed}
+              onChange={setPreviewSeed}
+            />
+            <Tooltip
+              multiline
+              width={250}
+              withArrow
+              label="Randomize with this seed, such as one stored with a student's question, to see exactly what they saw"
+            >
+              <ActionIcon
+                variant="default"
+                radius="xl"
+                ml="sm"
+                disabled={previewSeed === undefined}
+                onClick={() => handlePreviewChange(true, previewSeed)}
+              >
+                <IconSeeding size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </>
+        )}
         <Tooltip label="Raw Data" withArrow>
           <ActionIcon
             variant="default"
@@ -1430,6 +2254,18 @@ export default function QuestionEditor({
             <IconCode size={16} />
           </ActionIcon>
         </Tooltip>
+        {currQuestionId !== undefined && (
+          <Tooltip label="Revision History" withArrow>
+            <ActionIcon
+              variant="default"
+              radius="xl"
+              ml="sm"
+              onClick={() => setRevisionsOpened(true)}
+            >
+              <IconHistory size={16} />
+            </ActionIcon>
+          </Tooltip>
+        )}
       </Flex>
       <Box
         className={`flex items-center justify-center rounded-md border border-solid ${
@@ -1538,7 +2374,12 @@ export default function QuestionEditor({
             if (!form.values.variables) {
               form.setFieldValue("variables", []);
             }
-            if (!form.values.methods) {
+            // Methods are optional when a netlist computes the final answers
+            if (form.values.netlist?.trim()) {
+              if (form.values.methods && form.values.methods.length === 0) {
+                form.setFieldValue("methods", undefined);
+              }
+            } else if (!form.values.methods) {
               form.setFieldValue("methods", []);
             }
           }
@@ -1617,6 +2458,26 @@ export default function QuestionEditor({
         </Prism>
       </Modal>
 
+      {/* Revision History Modal */}
+      {currQuestionId !== undefined && currVariationId !== undefined && (
+        <Modal
+          size={mobile ? "95%" : "90%"}
+          title="Revision History"
+          opened={revisionsOpened}
+          onClose={() => setRevisionsOpened(false)}
+          overflow="inside"
+        >
+          <RevisionHistory
+            questionId={currQuestionId}
+            variationId={currVariationId}
+            onRollback={() => {
+              setRevisionsOpened(false);
+              setQuestionEditOpened(false);
+            }}
+          />
+        </Modal>
+      )}
+
       {/* Floating Affix Buttons */}
       <Affix position={{ bottom: 50, right: 20 }}>
         <Button
@@ -1628,6 +2489,9 @@ export default function QuestionEditor({
             form.setFieldValue("baseQuestionId", undefined);
             form.setFieldValue("title", "");
             form.setFieldValue("difficulty", undefined);
+            form.setFieldValue("status", QuestionStatus.Draft);
+            form.setFieldValue("activeFrom", null);
+            form.setFieldValue("activeUntil", null);
             form.setFieldValue("topic", "");
             setFilteredCourses([]);
             editorHtml.current = "";
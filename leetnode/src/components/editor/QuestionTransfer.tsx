@@ -0,0 +1,266 @@
+import axios from "axios";
+import { useState } from "react";
+
+import {
+  QuestionBankChangeType,
+  QuestionBankImportType,
+} from "@/types/question-types";
+import { BANK_FORMATS, BankFormatType } from "@/utils/QuestionBank";
+import {
+  Badge,
+  Button,
+  Divider,
+  FileButton,
+  Flex,
+  List,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import { Topic } from "@prisma/client";
+import { IconDownload, IconFileUpload } from "@tabler/icons";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+const FORMAT_OPTIONS = Object.entries(BANK_FORMATS).map(([value, format]) => ({
+  value,
+  label: format.label,
+}));
+
+const ACTION_COLORS: { [action in QuestionBankChangeType["action"]]: string } =
+  {
+    Create: "green",
+    Update: "yellow",
+    Unchanged: "gray",
+  };
+
+export default function QuestionTransfer() {
+  const queryClient = useQueryClient();
+
+  const [exportFormat, setExportFormat] = useState<BankFormatType>("json");
+  const [importFormat, setImportFormat] = useState<BankFormatType>("json");
+  const [topicSlug, setTopicSlug] = useState<string | null>(null);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(
+    null
+  );
+  const [preview, setPreview] = useState<QuestionBankImportType | null>(null);
+
+  const { data: topics } = useQuery({
+    queryKey: ["all-topic-names"],
+    queryFn: () => axios.get<Topic[]>("/api/forum/getAllTopicNames"),
+  });
+
+  const { mutate: exportQuestions, isLoading: exportIsLoading } = useMutation({
+    mutationFn: () =>
+      axios.get<Blob>("/api/question/admin/export", {
+        params: { format: exportFormat },
+        responseType: "blob",
+      }),
+    onSuccess: (response) => {
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `leetnode-questions.${BANK_FORMATS[exportFormat].extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  const { mutate: importQuestions, isLoading: importIsLoading } = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      axios.post<QuestionBankImportType>("/api/question/admin/import", {
+        format: importFormat,
+        content: file?.content,
+        topicSlug: importFormat === "json" ? undefined : topicSlug,
+        dryRun,
+      }),
+    onSuccess: (response) => {
+      if (response.data.dryRun) {
+        setPreview(response.data);
+      } else {
+        setPreview(null);
+        setFile(null);
+        queryClient.invalidateQueries(["all-questions"]);
+        queryClient.invalidateQueries(["all-topic-names"]);
+      }
+    },
+  });
+
+  // QTI packages are zip archives, sent as base64 as the other formats are text
+  const readFile = (upload: File | null) => {
+    setPreview(null);
+    if (!upload) return setFile(null);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result;
+      if (result instanceof ArrayBuffer) {
+        const bytes = new Uint8Array(result);
+        let binary = "";
+        for (let index = 0; index < bytes.length; index++) {
+          binary += String.fromCharCode(bytes[index] as number);
+        }
+        setFile({ name: upload.name, content: window.btoa(binary) });
+      } else {
+        setFile({ name: upload.name, content: result ?? "" });
+      }
+    };
+    if (importFormat === "qti") {
+      reader.readAsArrayBuffer(upload);
+    } else {
+      reader.readAsText(upload);
+    }
+  };
+
+  const changeCount = (preview?.changes ?? []).filter(
+    (change) => change.action !== "Unchanged"
+  ).length;
+
+  return (
+    <Stack>
+      <Text size="sm" weight={600}>
+        Export
+      </Text>
+      <Text size="sm" color="dimmed">
+        LeetNode bundles hold every topic, course and question. The other
+        formats only hold static multiple choice questions.
+      </Text>
+      <Flex gap="md" align="flex-end">
+        <Select
+          label="Format"
+          data={FORMAT_OPTIONS}
+          value={exportFormat}
+          onChange={(value) =>
+            value && setExportFormat(value as BankFormatType)
+          }
+          sx={{ flex: 1 }}
+        />
+        <Button
+          leftIcon={<IconDownload size={16} />}
+          loading={exportIsLoading}
+          onClick={() => exportQuestions()}
+        >
+          Download
+        </Button>
+      </Flex>
+
+      <Divider my="sm" />
+
+      <Text size="sm" weight={600}>
+        Import
+      </Text>
+      <Text size="sm" color="dimmed">
+        Questions are matched by title, and topics and courses by slug. Matches
+        are updated, the rest are created. Questions of other formats are
+        imported as drafts.
+      </Text>
+      <Flex gap="md" align="flex-end">
+        <Select
+          label="Format"
+          data={FORMAT_OPTIONS}
+          value={importFormat}
+          onChange={(value) => {
+            if (!value) return;
+            setImportFormat(value as BankFormatType);
+            setFile(null);
+            setPreview(null);
+          }}
+          sx={{ flex: 1 }}
+        />
+        {importFormat !== "json" && (
+          <Select
+            label="Topic"
+            placeholder="Topic of the questions"
+            searchable
+            data={
+              topics?.data.map((topic) => ({
+                value: topic.topicSlug,
+                label: topic.topicName,
+              })) ?? []
+            }
+            value={topicSlug}
+            onChange={(value) => {
+              setTopicSlug(value);
+              setPreview(null);
+            }}
+            sx={{ flex: 1 }}
+          />
+        )}
+        <FileButton onChange={readFile}>
+          {(props) => (
+            <Button
+              {...props}
+              variant="default"
+              leftIcon={<IconFileUpload size={16} />}
+            >
+              {file ? file.name : "Choose File"}
+            </Button>
+          )}
+        </FileButton>
+      </Flex>
+      <Button
+        variant="light"
+        disabled={!file || (importFormat !== "json" && !topicSlug)}
+        loading={importIsLoading && !preview}
+        onClick={() => importQuestions(true)}
+      >
+        Preview Import
+      </Button>
+
+      {preview && (
+        <>
+          <ScrollArea.Autosize maxHeight={320}>
+            <Table fontSize="sm" striped>
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Name</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.changes.map((change) => (
+                  <tr key={`${change.kind}-${change.key}`}>
+                    <td>{change.kind}</td>
+                    <td>{change.key}</td>
+                    <td>
+                      <Badge color={ACTION_COLORS[change.action]}>
+                        {change.action}
+                      </Badge>
+                      {change.fields.length > 0 && (
+                        <Text size="xs" color="dimmed">
+                          {change.fields.join(", ")}
+                        </Text>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </ScrollArea.Autosize>
+          {preview.skipped.length > 0 && (
+            <>
+              <Text size="sm" weight={600}>
+                Skipped
+              </Text>
+              <List size="sm">
+                {preview.skipped.map((reason, index) => (
+                  <List.Item key={index}>{reason}</List.Item>
+                ))}
+              </List>
+            </>
+          )}
+          <Button
+            disabled={changeCount === 0}
+            loading={importIsLoading}
+            onClick={() => importQuestions(false)}
+          >
+            {changeCount === 0
+              ? "Nothing to Import"
+              : `Import ${changeCount} Changes`}
+          </Button>
+        </>
+      )}
+    </Stack>
+  );
+}
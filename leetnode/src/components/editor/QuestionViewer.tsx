@@ -3,27 +3,55 @@ import DOMPurify from "dompurify";
 import { DataTable, DataTableSortStatus } from "mantine-datatable";
 import { useEffect, useRef, useState } from "react";
 
-import { AllQuestionsType, QuestionDataType } from "@/types/question-types";
+import {
+  AllQuestionsType,
+  QuestionDataType,
+  QuestionHealthType,
+} from "@/types/question-types";
 import { CustomMath } from "@/utils/CustomMath";
+import { QuestionLifecycle } from "@/utils/QuestionLifecycle";
+import { Units } from "@/utils/Units";
 import {
   ActionIcon,
+  Badge,
   Button,
   Container,
   createStyles,
   Flex,
+  List,
   Modal,
+  Table,
   Text,
   TextInput,
   Tooltip,
 } from "@mantine/core";
 import { randomId, useDebouncedValue } from "@mantine/hooks";
-import { QuestionDifficulty } from "@prisma/client";
-import { IconEye, IconRefresh, IconSearch } from "@tabler/icons";
+import { QuestionDifficulty, QuestionStatus } from "@prisma/client";
+import {
+  IconEye,
+  IconHeartbeat,
+  IconRefresh,
+  IconSearch,
+  IconTransferIn,
+} from "@tabler/icons";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 
+import CircuitDiagram from "./CircuitDiagram";
 import QuestionEditor from "./QuestionEditor";
+import QuestionTransfer from "./QuestionTransfer";
 import VariablesBox from "./VariablesBox";
 
+const HEALTH_CHECK_RUNS = 100;
+
+const toPercent = (rate: number) => `${CustomMath.round(rate * 100, 1)}%`;
+
+// Questions that often fail to generate need attention before students see them
+const healthColor = (report: QuestionHealthType) => {
+  if (report.failureRate > 0.05) return "red";
+  if (report.failureRate > 0) return "yellow";
+  return "green";
+};
+
 enum QuestionDifficultyEnum {
   Easy,
   Medium,
@@ -39,12 +67,30 @@ export default function QuestionViewer() {
   const [questionAddOpened, setQuestionAddOpened] = useState(false);
   const [questionViewOpened, setQuestionViewOpened] = useState(false);
   const [questionEditOpened, setQuestionEditOpened] = useState(false);
+  const [healthOpened, setHealthOpened] = useState(false);
+  const [transferOpened, setTransferOpened] = useState(false);
 
   const { data: questions, isFetching } = useQuery({
     queryKey: ["all-questions"],
     queryFn: () => axios.get<AllQuestionsType>("/api/question/admin"),
   });
 
+  // Only run on demand, as every dynamic question is evaluated many times
+  const {
+    data: health,
+    isFetching: healthIsFetching,
+    refetch: runHealthCheck,
+  } = useQuery({
+    queryKey: ["question-health"],
+    queryFn: () =>
+      axios.get<QuestionHealthType[]>("/api/question/admin/health", {
+        params: { runs: HEALTH_CHECK_RUNS },
+      }),
+    enabled: false,
+  });
+  const questionHealth = (questionId: number) =>
+    health?.data.find((report) => report.questionId === questionId);
+
   const PAGE_SIZE = 10;
   const [page, setPage] = useState(1);
   const [records, setRecords] = useState(questions?.data.slice(0, PAGE_SIZE));
@@ -64,7 +110,7 @@ export default function QuestionViewer() {
     const filteredRecords = questions.data.filter((record) => {
       if (
         debouncedQuery !== "" &&
-        !`${record.questionId} ${record.variationId} ${record.questionDifficulty} ${record.questionTitle} ${record.topic.topicName}`
+        !`${record.questionId} ${record.variationId} ${record.questionDifficulty} ${record.questionStatus} ${record.questionTitle} ${record.topic.topicName}`
           .toLowerCase()
           .includes(debouncedQuery.trim().toLowerCase())
       ) {
@@ -144,6 +190,28 @@ export default function QuestionViewer() {
             <IconRefresh size={16} stroke={1.5} color="gray" />
           </ActionIcon>
         </Tooltip>
+        <Tooltip
+          label={`Run Health Check (up to ${HEALTH_CHECK_RUNS} runs per dynamic question)`}
+          withArrow
+        >
+          <ActionIcon
+            onClick={() => runHealthCheck()}
+            variant="default"
+            className="rounded-full"
+            loading={healthIsFetching}
+          >
+            <IconHeartbeat size={16} stroke={1.5} color="gray" />
+          </ActionIcon>
+        </Tooltip>
+        <Tooltip label="Import / Export Questions" withArrow>
+          <ActionIcon
+            onClick={() => setTransferOpened(true)}
+            variant="default"
+            className="rounded-full"
+          >
+            <IconTransferIn size={16} stroke={1.5} color="gray" />
+          </ActionIcon>
+        </Tooltip>
       </Flex>
 
       <DataTable
@@ -205,6 +273,32 @@ export default function QuestionViewer() {
               }
             },
           },
+          {
+            accessor: "questionStatus",
+            title: "Status",
+            render: (record) => (
+              <Tooltip
+                label={
+                  QuestionLifecycle.isAvailable(record)
+                    ? "Served to students"
+                    : "Hidden from students"
+                }
+                withArrow
+              >
+                <Badge
+                  color={
+                    QuestionLifecycle.isAvailable(record)
+                      ? "green"
+                      : record.questionStatus === QuestionStatus.Retired
+                      ? "red"
+                      : "gray"
+                  }
+                >
+                  {record.questionStatus}
+                </Badge>
+              </Tooltip>
+            ),
+          },
           {
             accessor: "questionTitle",
             title: "Title",
@@ -215,6 +309,27 @@ export default function QuestionViewer() {
             title: "Topic",
             sortable: true,
           },
+          {
+            accessor: "health",
+            title: "Health",
+            render: (record) => {
+              const report = questionHealth(record.questionId);
+              if (record.variationId !== 0 || !report) return null;
+              return (
+                <Badge
+                  color={healthColor(report)}
+                  className="cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    currentQuestion.current = record;
+                    setHealthOpened(true);
+                  }}
+                >
+                  {toPercent(report.failureRate)} failed
+                </Badge>
+              );
+            },
+          },
           {
             accessor: "actions",
             title: "",
@@ -260,7 +375,9 @@ export default function QuestionViewer() {
             variationId: 0,
             title: "",
             difficulty: undefined,
+            status: QuestionStatus.Draft,
             topic: "",
+            checkUnits: true,
             variables: [
               {
                 key: randomId(),
@@ -358,6 +475,15 @@ export default function QuestionViewer() {
               ),
             }}
           />
+          <CircuitDiagram
+            diagram={
+              (currentQuestion.current.questionData as QuestionDataType).diagram
+            }
+            variables={
+              (currentQuestion.current.questionData as QuestionDataType)
+                .variables
+            }
+          />
           {(currentQuestion.current.questionData as QuestionDataType)
             .variables && (
             <VariablesBox
@@ -370,6 +496,88 @@ export default function QuestionViewer() {
         </Modal>
       )}
 
+      {/* Question Health Modal */}
+      {currentQuestion.current && (
+        <Modal
+          size="lg"
+          title={`Health of Question ${currentQuestion.current.questionId}`}
+          opened={healthOpened}
+          onClose={() => setHealthOpened(false)}
+        >
+          {(() => {
+            const report = questionHealth(currentQuestion.current.questionId);
+            if (!report) return null;
+            return (
+              <>
+                <Text size="sm">
+                  {toPercent(report.failureRate)} of {report.runs} runs failed
+                  to generate.
+                </Text>
+                {report.errors.length > 0 && (
+                  <>
+                    <Text size="sm" weight={600} mt="md">
+                      Errors
+                    </Text>
+                    <List size="sm">
+                      {report.errors.map((error) => (
+                        <List.Item key={error.message}>
+                          {error.message} ({error.count}x, eg. seed {error.seed}
+                          )
+                        </List.Item>
+                      ))}
+                    </List>
+                  </>
+                )}
+                {report.ranges.length > 0 && (
+                  <>
+                    <Text size="sm" weight={600} mt="md">
+                      Value Ranges
+                    </Text>
+                    <Table fontSize="sm" striped>
+                      <thead>
+                        <tr>
+                          <th>Name</th>
+                          <th>Min</th>
+                          <th>Max</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.ranges.map((range) => (
+                          <tr key={range.name}>
+                            <td>
+                              {range.name}
+                              {range.isFinalAnswer && " (Final Answer)"}
+                            </td>
+                            <td>
+                              {Number(range.min.toPrecision(4))}{" "}
+                              {range.unit && Units.normalize(range.unit)}
+                            </td>
+                            <td>
+                              {Number(range.max.toPrecision(4))}{" "}
+                              {range.unit && Units.normalize(range.unit)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  </>
+                )}
+              </>
+            );
+          })()}
+        </Modal>
+      )}
+
+      {/* Question Import and Export Modal */}
+      <Modal
+        size="xl"
+        title="Import / Export Questions"
+        opened={transferOpened}
+        onClose={() => setTransferOpened(false)}
+      >
+        <QuestionTransfer />
+      </Modal>
+
       {/* Question Editor Modal */}
       {currentQuestion.current && (
         <Modal
@@ -392,6 +600,13 @@ export default function QuestionViewer() {
               variationId: currentQuestion.current.variationId,
               title: currentQuestion.current.questionTitle ?? "",
               difficulty: currentQuestion.current.questionDifficulty,
+              status: currentQuestion.current.questionStatus,
+              activeFrom: currentQuestion.current.activeFrom
+                ? new Date(currentQuestion.current.activeFrom)
+                : null,
+              activeUntil: currentQuestion.current.activeUntil
+                ? new Date(currentQuestion.current.activeUntil)
+                : null,
               topic: currentQuestion.current.topicSlug,
               ...(currentQuestion.current.questionData as QuestionDataType),
             }}
@@ -0,0 +1,202 @@
+import axios from "axios";
+import { useState } from "react";
+
+import { QuestionRevisionType } from "@/types/question-types";
+import { TextDiff } from "@/utils/TextDiff";
+import {
+  Badge,
+  Button,
+  createStyles,
+  Flex,
+  Loader,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import { IconArrowBackUp } from "@tabler/icons";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+// Fields of a revision as lines of text, with HTML split at its tags so that diffs stay readable
+const revisionFields = (revision: QuestionRevisionType) => ({
+  Title: revision.questionTitle,
+  Topic: revision.topicSlug,
+  Difficulty: revision.questionDifficulty,
+  Status: revision.questionStatus,
+  "Active From": revision.activeFrom
+    ? new Date(revision.activeFrom).toLocaleString()
+    : "",
+  "Active Until": revision.activeUntil
+    ? new Date(revision.activeUntil).toLocaleString()
+    : "",
+  Content: revision.questionContent.replace(/></g, ">\n<"),
+  Data: JSON.stringify(revision.questionData, null, 2),
+});
+
+const revisionLabel = (revision: QuestionRevisionType, isCurrent: boolean) =>
+  `${new Date(revision.createdAt).toLocaleString()} by ${
+    revision.author?.name ?? revision.author?.email ?? "a deleted user"
+  }${revision.restoredFromId ? " (Rollback)" : ""}${
+    isCurrent ? " (Current)" : ""
+  }`;
+
+export default function RevisionHistory({
+  questionId,
+  variationId,
+  onRollback,
+}: {
+  questionId: number;
+  variationId: number;
+  onRollback: () => void;
+}) {
+  const { classes } = useStyles();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ["question-revisions", questionId, variationId],
+    queryFn: () =>
+      axios.get<QuestionRevisionType[]>("/api/question/admin/revisions", {
+        params: { questionId, variationId },
+      }),
+  });
+
+  const { mutate: rollback, status: rollbackStatus } = useMutation({
+    mutationFn: (revisionId: string) =>
+      axios.post("/api/question/admin/revisions", { revisionId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["all-questions"]);
+      queryClient.invalidateQueries(["question-revisions"]);
+      onRollback();
+    },
+  });
+
+  if (isLoading) return <Loader mx="auto" />;
+
+  // Revisions are recorded on every save, so the newest one is the current question
+  const [current] = revisions?.data ?? [];
+  if (!current) {
+    return (
+      <Text size="sm" color="dimmed">
+        No revisions yet, the first one is recorded the next time this question
+        is saved.
+      </Text>
+    );
+  }
+  const selected =
+    revisions?.data.find((revision) => revision.revisionId === selectedId) ??
+    revisions?.data[1] ??
+    current;
+  const before = revisionFields(selected);
+  const after = revisionFields(current);
+  const changedFields = (Object.keys(before) as (keyof typeof before)[]).filter(
+    (field) => before[field] !== after[field]
+  );
+
+  return (
+    <Stack>
+      <Flex gap="md" align="flex-end">
+        <Select
+          label="Compare the current question with"
+          data={
+            revisions?.data.map((revision) => ({
+              value: revision.revisionId,
+              label: revisionLabel(revision, revision === current),
+            })) ?? []
+          }
+          value={selected.revisionId}
+          onChange={setSelectedId}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          color="orange"
+          variant="light"
+          leftIcon={<IconArrowBackUp size={16} />}
+          disabled={selected === current}
+          loading={rollbackStatus === "loading"}
+          onClick={() => rollback(selected.revisionId)}
+        >
+          Roll Back to This Revision
+        </Button>
+      </Flex>
+      <Text size="sm" color="dimmed">
+        {selected._count.questionsWithAddedTime} instances were served from this
+        revision.
+      </Text>
+
+      {changedFields.length === 0 ? (
+        <Text size="sm">
+          This revision is the same as the current question.
+        </Text>
+      ) : (
+        changedFields.map((field) => (
+          <Stack key={field} spacing="xs">
+            <Flex gap="sm" align="center">
+              <Text size="sm" weight={600}>
+                {field}
+              </Text>
+              <Badge color="yellow" size="sm">
+                Changed
+              </Badge>
+            </Flex>
+            <ScrollArea.Autosize maxHeight={400}>
+              <Table fontSize="xs" withColumnBorders>
+                <thead>
+                  <tr>
+                    <th className={classes.half}>Selected Revision</th>
+                    <th className={classes.half}>Current</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {TextDiff.sideBySide(before[field], after[field]).map(
+                    (row, index) => (
+                      <tr key={index}>
+                        <td
+                          className={`${classes.line} ${
+                            row.isChanged && row.before !== null
+                              ? classes.removed
+                              : ""
+                          }`}
+                        >
+                          {row.before}
+                        </td>
+                        <td
+                          className={`${classes.line} ${
+                            row.isChanged && row.after !== null
+                              ? classes.added
+                              : ""
+                          }`}
+                        >
+                          {row.after}
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </Table>
+            </ScrollArea.Autosize>
+          </Stack>
+        ))
+      )}
+    </Stack>
+  );
+}
+
+const useStyles = createStyles((theme) => ({
+  half: {
+    width: "50%",
+  },
+  line: {
+    fontFamily: theme.fontFamilyMonospace,
+    whiteSpace: "pre-wrap",
+    wordBreak: "break-all",
+    verticalAlign: "top",
+  },
+  removed: {
+    backgroundColor: theme.fn.rgba(theme.colors.red[6], 0.15),
+  },
+  added: {
+    backgroundColor: theme.fn.rgba(theme.colors.green[6], 0.15),
+  },
+}));
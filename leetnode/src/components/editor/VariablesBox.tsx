@@ -20,12 +20,13 @@ export default function VariablesBox({
       <Latex>{`$$ \\begin{aligned} ${variables
         .filter((item) => !item.isFinalAnswer)
         .map((item) => {
+          // Complex values are already formatted
+          const value = isNaN(Number(item.default))
+            ? item.default
+            : CustomMath.round(Number(item.default), item?.decimalPlaces ?? 3);
           return `${item.name} ${
             item.unit ? "~(" + item.unit + ")" : ""
-          } &= ${CustomMath.round(
-            Number(item.default),
-            item?.decimalPlaces ?? 3
-          )}`;
+          } &= ${value}`;
         })
         .join("\\\\")} \\end{aligned} $$`}</Latex>
     </Box>
@@ -0,0 +1,111 @@
+import axios from "axios";
+import Link from "next/link";
+
+import { CustomMath } from "@/utils/CustomMath";
+import {
+  Anchor,
+  Badge,
+  Center,
+  Group,
+  Loader,
+  ScrollArea,
+  Table,
+  Text,
+} from "@mantine/core";
+import { useQuery } from "@tanstack/react-query";
+
+type ReviewType = {
+  topicSlug: string;
+  masteryLevel: number;
+  reviewInterval: number;
+  reviewRepetitions: number;
+  nextReviewAt: string;
+  topic: {
+    topicName: string;
+    courses: { courseSlug: string; courseName: string }[];
+  };
+};
+
+const DAY_IN_MS = 24 * 3600 * 1000;
+
+export default function ReviewQueue() {
+  const {
+    data: reviews,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ["review-queue"],
+    queryFn: async () => {
+      const res = await axios.get<ReviewType[]>("/api/mastery/reviews");
+      return res.data;
+    },
+  });
+
+  if (!reviews || isLoading || isError) {
+    return (
+      <Center style={{ height: 500 }}>
+        <Loader />
+      </Center>
+    );
+  }
+
+  const now = Date.now();
+
+  return (
+    <ScrollArea>
+      <h1 className="text-center">Review Queue</h1>
+      {reviews.length === 0 ? (
+        <Text align="center" color="dimmed">
+          Topics you master will be scheduled here for review, so you don&apos;t
+          forget them!
+        </Text>
+      ) : (
+        <Table verticalSpacing="sm" highlightOnHover>
+          <thead>
+            <tr>
+              <th>Topic</th>
+              <th>Mastery</th>
+              <th>Next Review</th>
+              <th>Practise In</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reviews.map((review) => {
+              const daysLeft = Math.ceil(
+                (new Date(review.nextReviewAt).getTime() - now) / DAY_IN_MS
+              );
+              return (
+                <tr key={review.topicSlug}>
+                  <td>{review.topic.topicName}</td>
+                  <td>{CustomMath.round(review.masteryLevel * 100, 1)}%</td>
+                  <td>
+                    {daysLeft <= 0 ? (
+                      <Badge color="red">Due now</Badge>
+                    ) : (
+                      <Badge color="gray">
+                        In {daysLeft} day{daysLeft === 1 ? "" : "s"}
+                      </Badge>
+                    )}
+                  </td>
+                  <td>
+                    <Group spacing="xs">
+                      {review.topic.courses.map((course) => (
+                        <Link
+                          key={course.courseSlug}
+                          href={`/courses/${course.courseSlug}`}
+                          passHref
+                        >
+                          <Anchor size="sm">{course.courseName}</Anchor>
+                        </Link>
+                      ))}
+                    </Group>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      )}
+    </ScrollArea>
+  );
+}
@@ -17,6 +17,9 @@ export const serverSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string(),
   RECOMMENDER_URL: z.string(),
   RECOMMENDER_API_KEY: z.string(),
+  MASTERY_ENGINE: z.enum(["local", "pybkt"]).default("local"),
+  RECENT_QUESTION_COUNT: z.coerce.number().int().nonnegative().default(10),
+  RECENT_QUESTION_DAYS: z.coerce.number().nonnegative().default(1),
   GMAIL: z.string(),
   GMAIL_PASS: z.string(),
   EMAIL_SERVER: z.string(),
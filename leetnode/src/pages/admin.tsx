@@ -7,6 +7,7 @@ import Courses from "@/components/admin/Courses";
 import Overview from "@/components/admin/Overview";
 import Users from "@/components/admin/Performance";
 import Settings from "@/components/admin/Settings";
+import Topics from "@/components/admin/Topics";
 import QuestionViewer from "@/components/editor/QuestionViewer";
 import LeetNodeFooter from "@/components/Footer";
 import LeetNodeHeader from "@/components/Header";
@@ -39,6 +40,7 @@ import {
   IconPresentationAnalytics,
   IconPuzzle,
   IconSettings,
+  IconSitemap,
   IconUsers,
 } from "@tabler/icons";
 
@@ -56,6 +58,9 @@ export type AttemptsInfoType = (Attempt & {
     };
     attempts: Attempt[];
   };
+  _count: {
+    hintReveals: number;
+  };
 })[];
 
 const tabs = [
@@ -63,6 +68,7 @@ const tabs = [
   { label: "Questions", icon: IconPuzzle },
   { label: "Accounts", icon: IconUsers },
   { label: "Courses", icon: IconPresentationAnalytics },
+  { label: "Topics", icon: IconSitemap },
   { label: "Performance", icon: IconBrain },
   { label: "Settings", icon: IconSettings },
 ];
@@ -167,6 +173,8 @@ export default function AdminPage() {
             <Accounts />
           ) : active === "Courses" ? (
             <Courses />
+          ) : active === "Topics" ? (
+            <Topics />
           ) : active === "Performance" ? (
             <Users />
           ) : active === "Settings" ? (
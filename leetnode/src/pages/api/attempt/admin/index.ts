@@ -30,6 +30,11 @@ export default async function handler(
         },
       },
       course: true,
+      _count: {
+        select: {
+          hintReveals: true,
+        },
+      },
     },
   });
 
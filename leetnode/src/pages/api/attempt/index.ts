@@ -4,6 +4,10 @@ import { z } from "zod";
 
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
+import { QuestionDataType, SolutionStepType } from "@/types/question-types";
+import { AnswerKey } from "@/utils/AnswerKey";
+import { QuestionParts } from "@/utils/QuestionParts";
+import { WorkedSolution } from "@/utils/WorkedSolution";
 
 export default async function handler(
   req: NextApiRequest,
@@ -27,6 +31,12 @@ export default async function handler(
                 topic: true,
               },
             },
+            revision: {
+              select: {
+                variationId: true,
+                questionData: true,
+              },
+            },
           },
         },
       },
@@ -35,7 +45,60 @@ export default async function handler(
       },
     });
 
-    res.status(200).json(attempts);
+    const answeredParts = new Map<string, (string | null)[]>();
+    for (const attempt of attempts) {
+      answeredParts.set(attempt.qatId, [
+        ...(answeredParts.get(attempt.qatId) ?? []),
+        attempt.part,
+      ]);
+    }
+
+    // Multi-part questions only reveal the answer key of the parts answered so far, and their
+    // methods and worked solution once every part is answered. Solutions are worked in the
+    // question as each instance was generated, even if it has been edited since, and seeds
+    // are never sent as the option keys of the parts not yet answered come from them
+    const served = new Map<
+      string,
+      {
+        questionWithAddedTime: Omit<
+          (typeof attempts)[number]["questionWithAddedTime"],
+          "revision" | "seed" | "revisionId"
+        >;
+        solution: SolutionStepType[];
+      }
+    >();
+    for (const {
+      questionWithAddedTime: { revision, ...qat },
+    } of attempts) {
+      if (served.has(qat.qatId)) continue;
+      const parts = answeredParts.get(qat.qatId) ?? [];
+      const solvedFrom = revision ?? qat.question;
+      const isComplete = QuestionParts.isComplete(
+        solvedFrom.questionData as QuestionDataType,
+        parts
+      );
+      const questionData = qat.question.questionData as QuestionDataType;
+      served.set(qat.qatId, {
+        questionWithAddedTime: {
+          ...AnswerKey.unseeded(qat),
+          answers: AnswerKey.revealAnswered(qat, parts),
+          question: {
+            ...qat.question,
+            questionData: isComplete
+              ? questionData
+              : AnswerKey.redactQuestionData(questionData),
+          },
+        },
+        solution: isComplete ? WorkedSolution.steps(solvedFrom, qat.seed) : [],
+      });
+    }
+
+    res.status(200).json(
+      attempts.map((attempt) => ({
+        ...attempt,
+        ...served.get(attempt.qatId),
+      }))
+    );
   } catch (e) {
     console.error(e);
     if (e instanceof z.ZodError) {
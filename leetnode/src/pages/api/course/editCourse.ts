@@ -14,6 +14,9 @@ export default async function handler(
       courseDescription: req.body.content.overview,
       video: req.body.content.video,
       markdown: req.body.content.additional,
+      recommendationPolicy: req.body.content.recommendationPolicy,
+      hintCredit: req.body.content.hintCredit,
+      hintPartialCredit: req.body.content.hintPartialCredit,
     },
   });
 
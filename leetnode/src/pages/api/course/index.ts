@@ -7,6 +7,7 @@ export async function getAllCoursesData() {
     include: {
       topics: true,
       courseMedia: true,
+      quiz: true,
     },
     orderBy: [
       {
@@ -1,9 +1,9 @@
-import axios from "axios";
 import { NextApiRequest, NextApiResponse } from "next";
 import { getServerSession } from "next-auth/next";
 
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
+import { getMasteryEngine } from "@/utils/MasteryEngine";
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,43 +11,15 @@ export default async function handler(
 ) {
   const session = await getServerSession(req, res, authOptions);
 
-  const { data } = await axios.get<{ Mastery: Record<string, number> }>(
-    `${process.env.RECOMMENDER_URL}/get-all/${session?.user?.id}`,
-    {
-      headers: {
-        Accept: "application/json",
-        access_token: process.env.RECOMMENDER_API_KEY,
-      },
-    }
-  );
-
-  const masteryExternal = Object.entries(data.Mastery);
-  await Promise.all(
-    masteryExternal.map(([topicSlug, masteryLevel]) =>{
-      if (topicSlug != null &&  masteryLevel != null){
-        prisma.mastery.upsert({
-          where: {
-            userId_topicSlug: {
-              userId: session?.user?.id as string,
-              topicSlug: topicSlug,
-            },
-          },
-          update: {
-            masteryLevel: masteryLevel,
-          },
-          create: {
-            userId: session?.user?.id as string,
-            topicSlug: topicSlug,
-            masteryLevel: masteryLevel,
-          },
-        })}
-    }
-    )
-  );
+  try {
+    const mastery = await getMasteryEngine().getAll(
+      session?.user?.id as string
+    );
 
-  if (!masteryExternal) {
+    res.status(200).json(mastery);
+  } catch (e) {
     console.error(
-      "Error fetching mastery from PyBKT API, falling back to internal mastery data"
+      "Error fetching mastery from mastery engine, falling back to internal mastery data"
     );
     const masteryInternal = await prisma.mastery.findMany({
       where: {
@@ -65,6 +37,4 @@ export default async function handler(
 
     res.status(200).json(masteryInternalResponse);
   }
-
-  res.status(200).json(data.Mastery);
 }
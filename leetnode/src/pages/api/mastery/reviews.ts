@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import { prisma } from "@/server/db/client";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  // Topics in the user's spaced repetition schedule, most overdue first
+  const reviews = await prisma.mastery.findMany({
+    where: {
+      userId: session?.user?.id,
+      nextReviewAt: {
+        not: null,
+      },
+    },
+    select: {
+      topicSlug: true,
+      masteryLevel: true,
+      reviewInterval: true,
+      reviewRepetitions: true,
+      nextReviewAt: true,
+      topic: {
+        select: {
+          topicName: true,
+          courses: {
+            select: {
+              courseSlug: true,
+              courseName: true,
+            },
+            where: {
+              type: "Content",
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      nextReviewAt: "asc",
+    },
+  });
+
+  res.status(200).json(reviews);
+}
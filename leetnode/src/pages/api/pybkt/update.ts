@@ -1,8 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import axios from "axios";
 import { getSession } from "next-auth/react";
 
 import { prisma } from "@/server/db/client";
+import { getMasteryEngine } from "@/utils/MasteryEngine";
 import { Mastery } from "@prisma/client";
 
 export default async function handler(
@@ -11,55 +11,14 @@ export default async function handler(
 ) {
   const session = await getSession({ req });
 
-  const displayData = async (req: {
-    topicSlug: string;
-    correct: boolean;
-    optionNumber: number;
-    questionId: number;
-    masteryConditionFlag: boolean;
-    courseSlug: string;
-  }) => {
-    console.log(req.topicSlug);
-
-    // Patch then get data then update mastery
-    const patch_res = await axios.patch(
-      `${process.env.RECOMMENDER_URL}/update-state/${session?.user?.id}/${
-        req.topicSlug
-      }/${String(req.correct ? 1 : 0)}`,
-      req,
-      {
-        headers: {
-          Accept: "application/json",
-          access_token: process.env.RECOMMENDER_API_KEY,
-        },
-      }
-    );
-
-    const info = patch_res.data.Updated;
-    console.log(info);
-
-    if (info === true) {
-      const get_res = await axios.get(
-        `${process.env.RECOMMENDER_URL}/get-mastery/${session?.user?.id}/${req.topicSlug}`,
-        {
-          headers: {
-            Accept: "application/json",
-            access_token: process.env.RECOMMENDER_API_KEY,
-          },
-        }
-      );
-
-      const output = get_res.data;
-      console.log(output);
-
-      return output;
-    } else {
-      console.error("Something went wrong");
-    }
+  const display = {
+    Mastery: await getMasteryEngine().update(
+      session?.user?.id as string,
+      req.body.topicSlug,
+      req.body.correct
+    ),
   };
 
-  const display = await displayData(req.body);
-
   // Update errorMeter + 1 if false
   if (req.body.correct === false) {
     const wrongness = await prisma.mastery.update({
@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth/next";
 
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
+import { QuestionDataType } from "@/types/question-types";
+import { AnswerKey } from "@/utils/AnswerKey";
+import { QuestionParts } from "@/utils/QuestionParts";
 
 export default async function handler(
   req: NextApiRequest,
@@ -18,6 +21,9 @@ export default async function handler(
     include: {
       topic: true,
       questionsWithAddedTime: {
+        where: {
+          userId: session?.user?.id,
+        },
         include: {
           attempts: {
             where: {
@@ -27,10 +33,47 @@ export default async function handler(
               submittedAt: "desc",
             },
           },
+          revision: {
+            select: {
+              questionData: true,
+            },
+          },
         },
       },
     },
   });
 
-  res.status(200).json(question);
+  if (!question) {
+    return res.status(404).json({ message: "Question not found" });
+  }
+
+  // Each instance only reveals the answer key of the parts the student has answered, and the
+  // question's own answers and methods are only revealed once every instance is complete
+  const questionData = question.questionData as QuestionDataType;
+  const served = question.questionsWithAddedTime.map(({ revision, ...qat }) => {
+    const answeredParts = qat.attempts.map((attempt) => attempt.part);
+    const instance = { ...qat, question: { questionData } };
+    return {
+      isComplete: QuestionParts.isComplete(
+        (revision?.questionData ?? questionData) as QuestionDataType,
+        answeredParts
+      ),
+      questionWithAddedTime: {
+        ...AnswerKey.redact(instance),
+        answers: AnswerKey.revealAnswered(instance, answeredParts),
+      },
+    };
+  });
+  const isComplete =
+    served.length > 0 && served.every((instance) => instance.isComplete);
+
+  res.status(200).json({
+    ...question,
+    questionData: isComplete
+      ? questionData
+      : AnswerKey.redactQuestionData(questionData),
+    questionsWithAddedTime: served.map(
+      (instance) => instance.questionWithAddedTime
+    ),
+  });
 }
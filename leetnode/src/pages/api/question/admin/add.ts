@@ -1,14 +1,31 @@
 import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
 
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
+import { QuestionInstance } from "@/utils/QuestionInstance";
+import { QuestionRevisions } from "@/utils/QuestionRevisions";
 import { Question } from "@prisma/client";
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
+  const session = await getServerSession(req, res, authOptions);
   let addedQuestion: Question;
 
+  // Dynamic questions must evaluate as they do in the editor, with their units checked if opted in
+  try {
+    QuestionInstance.validate({
+      variationId: Number(req.body.variationId),
+      questionData: req.body.questionData,
+    });
+  } catch (e) {
+    return res.status(400).json({
+      message: e instanceof Error ? e.message : "Invalid variables or methods",
+    });
+  }
+
   if (req.body.baseQuestionId) {
     addedQuestion = await prisma.question.create({
       data: {
@@ -19,6 +36,9 @@ export default async function handler(
         questionDifficulty: req.body.questionDifficulty,
         questionContent: req.body.questionContent,
         questionData: req.body.questionData,
+        questionStatus: req.body.questionStatus,
+        activeFrom: req.body.activeFrom,
+        activeUntil: req.body.activeUntil,
       },
     });
   } else {
@@ -30,10 +50,18 @@ export default async function handler(
         questionDifficulty: req.body.questionDifficulty,
         questionContent: req.body.questionContent,
         questionData: req.body.questionData,
+        questionStatus: req.body.questionStatus,
+        activeFrom: req.body.activeFrom,
+        activeUntil: req.body.activeUntil,
       },
     });
   }
 
+  addedQuestion = await QuestionRevisions.record(
+    addedQuestion,
+    session?.user?.id
+  );
+
   res.status(201).json({
     message: `Question created successfully`,
     data: addedQuestion,
@@ -1,14 +1,31 @@
 import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
 
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
+import { QuestionInstance } from "@/utils/QuestionInstance";
+import { QuestionRevisions } from "@/utils/QuestionRevisions";
 import { Question } from "@prisma/client";
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
+  const session = await getServerSession(req, res, authOptions);
   let editedQuestion: Question;
 
+  // Dynamic questions must evaluate as they do in the editor, with their units checked if opted in
+  try {
+    QuestionInstance.validate({
+      variationId: Number(req.body.newVariationId ?? req.query.variationId),
+      questionData: req.body.questionData,
+    });
+  } catch (e) {
+    return res.status(400).json({
+      message: e instanceof Error ? e.message : "Invalid variables or methods",
+    });
+  }
+
   // If updating question from static to dynamic or vice versa
   if (
     req.body.newQuestionId === null ||
@@ -24,6 +41,21 @@ export default async function handler(
         questionDifficulty: req.body.questionDifficulty,
         questionContent: req.body.questionContent,
         questionData: req.body.questionData,
+        questionStatus: req.body.questionStatus,
+        activeFrom: req.body.activeFrom,
+        activeUntil: req.body.activeUntil,
+      },
+    });
+
+    // Keep the history of the question, which is now under its new id
+    await prisma.questionRevision.updateMany({
+      where: {
+        questionId: Number(req.query.questionId as string),
+        variationId: Number(req.query.variationId as string),
+      },
+      data: {
+        questionId: editedQuestion.questionId,
+        variationId: editedQuestion.variationId,
       },
     });
 
@@ -52,6 +84,9 @@ export default async function handler(
         questionDifficulty: req.body.questionDifficulty,
         questionContent: req.body.questionContent,
         questionData: req.body.questionData,
+        questionStatus: req.body.questionStatus,
+        activeFrom: req.body.activeFrom,
+        activeUntil: req.body.activeUntil,
       },
     });
   // If simply updating a question without changing its type
@@ -69,10 +104,18 @@ export default async function handler(
         questionDifficulty: req.body.questionDifficulty,
         questionContent: req.body.questionContent,
         questionData: req.body.questionData,
+        questionStatus: req.body.questionStatus,
+        activeFrom: req.body.activeFrom,
+        activeUntil: req.body.activeUntil,
       },
     });
   }
 
+  editedQuestion = await QuestionRevisions.record(
+    editedQuestion,
+    session?.user?.id
+  );
+
   res.status(200).json({
     message: `Question updated successfully`,
     data: editedQuestion,
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { BANK_FORMATS, QuestionBank } from "@/utils/QuestionBank";
+import { QuestionFormats } from "@/utils/QuestionFormats";
+
+// Media types of the downloaded file in each format
+const CONTENT_TYPES = {
+  json: "application/json",
+  gift: "text/plain; charset=utf-8",
+  moodle: "application/xml",
+  qti: "application/zip",
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const { format } = z
+      .object({
+        format: z.enum(["json", "gift", "moodle", "qti"]).default("json"),
+      })
+      .parse(req.query);
+
+    const [topics, prerequisites, courses, questions] =
+      await prisma.$transaction([
+        prisma.topic.findMany(),
+        prisma.topicPrerequisite.findMany(),
+        prisma.course.findMany({
+          include: {
+            topics: {
+              select: {
+                topicSlug: true,
+              },
+            },
+          },
+        }),
+        prisma.question.findMany({
+          orderBy: [{ questionId: "asc" }, { variationId: "asc" }],
+        }),
+      ]);
+
+    const bundle = QuestionBank.create({
+      topics,
+      prerequisites,
+      courses,
+      questions,
+    });
+
+    // Other formats only hold static multiple choice questions
+    const items = QuestionBank.toItems(bundle);
+    const file =
+      format === "json"
+        ? JSON.stringify(bundle, null, 2)
+        : format === "gift"
+        ? QuestionFormats.toGift(items)
+        : format === "moodle"
+        ? QuestionFormats.toMoodleXml(items)
+        : QuestionFormats.toQti(items);
+
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="leetnode-questions.${BANK_FORMATS[format].extension}"`
+    );
+    res.status(200).send(file);
+  } catch (e) {
+    res.status(400).json({
+      message: e instanceof Error ? e.message : "Failed to export questions",
+    });
+  }
+}
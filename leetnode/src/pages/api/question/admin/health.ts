@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { QuestionHealthType } from "@/types/question-types";
+import { QuestionHealth } from "@/utils/QuestionHealth";
+
+// Evaluations across every question, beyond which each question is run fewer times
+const MAX_TOTAL_RUNS = 2000;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const { runs } = z
+      .object({
+        runs: z.coerce.number().int().min(1).max(1000).default(100),
+      })
+      .parse(req.query);
+
+    // Only dynamic questions are evaluated, static variants are served as written
+    const questions = await prisma.question.findMany({
+      where: {
+        variationId: 0,
+      },
+      select: {
+        questionId: true,
+        questionData: true,
+      },
+    });
+
+    // Evaluating blocks the server, so it makes way for other requests between questions
+    const runsEach = Math.max(
+      1,
+      Math.min(runs, Math.floor(MAX_TOTAL_RUNS / Math.max(questions.length, 1)))
+    );
+    const reports: QuestionHealthType[] = [];
+    for (const question of questions) {
+      reports.push(QuestionHealth.check(question, runsEach));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    res.status(200).json(reports);
+  } catch (e) {
+    res.status(400).json({
+      message: e instanceof Error ? e.message : "Failed to run health check",
+    });
+  }
+}
@@ -0,0 +1,262 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+import { z } from "zod";
+
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import { prisma } from "@/server/db/client";
+import { QuestionBankImportType } from "@/types/question-types";
+import { CustomMath } from "@/utils/CustomMath";
+import { QuestionBank, QuestionBankType } from "@/utils/QuestionBank";
+import { QuestionFormats } from "@/utils/QuestionFormats";
+import { QuestionInstance } from "@/utils/QuestionInstance";
+import { QuestionRevisions } from "@/utils/QuestionRevisions";
+import { Prisma } from "@prisma/client";
+
+// Bundles embed every question of LeetNode, so they can be larger than the default limit
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "10mb",
+    },
+  },
+};
+
+const KEY_CHARS = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const { format, content, topicSlug, dryRun } = z
+      .object({
+        format: z.enum(["json", "gift", "moodle", "qti"]),
+        content: z.string().min(1), // Base64 for QTI packages, text otherwise
+        topicSlug: z.string().optional(), // Topic of questions that are not in a bundle
+        dryRun: z.boolean().default(true),
+      })
+      .parse(req.body);
+
+    let incoming: QuestionBankType;
+    let skipped: string[] = [];
+    if (format === "json") {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(content);
+      } catch {
+        throw new Error("The bundle is not valid JSON");
+      }
+      incoming = QuestionBank.parse(bundle);
+    } else {
+      if (!topicSlug) {
+        throw new Error("Please select a topic for the imported questions");
+      }
+      const parsed =
+        format === "gift"
+          ? QuestionFormats.fromGift(content)
+          : format === "moodle"
+          ? QuestionFormats.fromMoodleXml(content)
+          : QuestionFormats.fromQti(Buffer.from(content, "base64"));
+      if (parsed.items.length === 0) {
+        throw new Error(
+          `No multiple choice questions were found${
+            parsed.skipped.length > 0 ? `: ${parsed.skipped.join(", ")}` : ""
+          }`
+        );
+      }
+      incoming = QuestionBank.fromItems(
+        parsed.items,
+        topicSlug,
+        () => `mantine-${CustomMath.randomString(9, KEY_CHARS)}`
+      );
+      skipped = parsed.skipped;
+    }
+
+    // Dynamic questions must evaluate as they do in the editor, with their units checked if opted in
+    for (const question of incoming.questions) {
+      try {
+        QuestionInstance.validate(question);
+      } catch (e) {
+        throw new Error(
+          `${question.questionTitle}: ${
+            e instanceof Error ? e.message : "Invalid variables or methods"
+          }`
+        );
+      }
+    }
+
+    const [topics, prerequisites, courses, questions] =
+      await prisma.$transaction([
+        prisma.topic.findMany(),
+        prisma.topicPrerequisite.findMany(),
+        prisma.course.findMany({
+          include: {
+            topics: {
+              select: {
+                topicSlug: true,
+              },
+            },
+          },
+        }),
+        prisma.question.findMany(),
+      ]);
+    const current = QuestionBank.create({
+      topics,
+      prerequisites,
+      courses,
+      questions,
+    });
+    const changes = QuestionBank.diff(current, incoming);
+    const unchanged = changes
+      .filter(
+        (change) => change.kind === "Question" && change.action === "Unchanged"
+      )
+      .map((change) => change.key);
+
+    if (!dryRun) {
+      const session = await getServerSession(req, res, authOptions);
+      await prisma.$transaction(
+        async (tx) => {
+          // Topics first, as prerequisites, courses and questions refer to them
+          for (const topic of incoming.topics) {
+            const data = {
+              topicSlug: topic.topicSlug,
+              topicName: topic.topicName,
+              topicLevel: topic.topicLevel,
+              topicPrior: topic.topicPrior,
+              topicLearn: topic.topicLearn,
+              topicGuess: topic.topicGuess,
+              topicSlip: topic.topicSlip,
+            };
+            await tx.topic.upsert({
+              where: {
+                topicSlug: topic.topicSlug,
+              },
+              create: data,
+              update: data,
+            });
+          }
+          for (const topic of incoming.topics) {
+            await tx.topicPrerequisite.deleteMany({
+              where: {
+                topicSlug: topic.topicSlug,
+              },
+            });
+            await tx.topicPrerequisite.createMany({
+              data: topic.prerequisites.map((prerequisiteSlug) => ({
+                topicSlug: topic.topicSlug,
+                prerequisiteSlug,
+              })),
+            });
+          }
+
+          for (const { topics, ...course } of incoming.courses) {
+            const topicSlugs = topics.map((topicSlug) => ({ topicSlug }));
+            await tx.course.upsert({
+              where: {
+                courseSlug: course.courseSlug,
+              },
+              create: {
+                ...course,
+                topics: {
+                  connect: topicSlugs,
+                },
+              },
+              update: {
+                ...course,
+                topics: {
+                  set: topicSlugs,
+                },
+              },
+            });
+          }
+
+          // Questions are matched by title, as their ids differ between instances of LeetNode
+          const questionIds = new Map<number, number>();
+          const taken = new Set(
+            questions.map(
+              (question) => `${question.questionId}-${question.variationId}`
+            )
+          );
+          for (const question of incoming.questions) {
+            const existing = questions.find(
+              (item) => item.questionTitle === question.questionTitle
+            );
+            if (existing) {
+              questionIds.set(question.questionId, existing.questionId);
+            }
+          }
+          for (const {
+            questionId,
+            variationId,
+            ...question
+          } of incoming.questions) {
+            const data = {
+              ...question,
+              questionData: question.questionData as Prisma.InputJsonObject,
+            };
+            const existing = questions.find(
+              (item) => item.questionTitle === question.questionTitle
+            );
+            if (existing && unchanged.includes(existing.questionTitle)) {
+              continue;
+            }
+            if (existing) {
+              const updated = await tx.question.update({
+                where: {
+                  questionId_variationId: {
+                    questionId: existing.questionId,
+                    variationId: existing.variationId,
+                  },
+                },
+                data,
+              });
+              await QuestionRevisions.record(updated, session?.user?.id, {
+                client: tx,
+              });
+              continue;
+            }
+
+            // New variations join their group, unless their variation is taken there
+            const groupId = questionIds.get(questionId);
+            const created = await tx.question.create({
+              data:
+                groupId !== undefined && !taken.has(`${groupId}-${variationId}`)
+                  ? { ...data, questionId: groupId, variationId }
+                  : { ...data, variationId },
+            });
+            questionIds.set(questionId, created.questionId);
+            taken.add(`${created.questionId}-${variationId}`);
+            await QuestionRevisions.record(created, session?.user?.id, {
+              client: tx,
+            });
+          }
+        },
+        {
+          timeout: 60000,
+        }
+      );
+    }
+
+    const count = changes.filter(
+      (change) => change.action !== "Unchanged"
+    ).length;
+    const response: QuestionBankImportType = {
+      message: dryRun
+        ? `${count} changes to review before importing`
+        : `${count} changes imported successfully`,
+      dryRun,
+      changes,
+      skipped,
+    };
+    res.status(200).json(response);
+  } catch (e) {
+    res.status(400).json({
+      message: e instanceof Error ? e.message : "Failed to import questions",
+    });
+  }
+}
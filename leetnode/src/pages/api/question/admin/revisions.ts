@@ -0,0 +1,113 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+import { z } from "zod";
+
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import { prisma } from "@/server/db/client";
+import { QuestionRevisions } from "@/utils/QuestionRevisions";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // GET request to fetch the revisions of a question, newest first
+  if (req.method === "GET") {
+    try {
+      const { questionId, variationId } = z
+        .object({
+          questionId: z.coerce.number().int(),
+          variationId: z.coerce.number().int(),
+        })
+        .parse(req.query);
+
+      const revisions = await prisma.questionRevision.findMany({
+        where: {
+          questionId: questionId,
+          variationId: variationId,
+        },
+        include: {
+          author: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+          _count: {
+            select: {
+              questionsWithAddedTime: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+      });
+
+      return res.status(200).json(revisions);
+    } catch (e) {
+      return res.status(400).json({
+        message: e instanceof Error ? e.message : "Failed to fetch revisions",
+      });
+    }
+  }
+
+  // POST request to roll a question back to one of its revisions, itself recorded as a revision
+  if (req.method === "POST") {
+    try {
+      const { revisionId } = z
+        .object({
+          revisionId: z.string(),
+        })
+        .parse(req.body);
+      const session = await getServerSession(req, res, authOptions);
+
+      const revision = await prisma.questionRevision.findUnique({
+        where: {
+          revisionId: revisionId,
+        },
+        include: {
+          question: {
+            select: {
+              revisionId: true,
+            },
+          },
+        },
+      });
+      if (!revision) {
+        throw new Error("Revision not found");
+      }
+      if (revision.question.revisionId === revision.revisionId) {
+        throw new Error("The question is already at this revision");
+      }
+
+      // Only the content is rolled back, so a retired question is not served again
+      const restoredQuestion = await prisma.$transaction(async (tx) => {
+        const question = await tx.question.update({
+          where: {
+            questionId_variationId: {
+              questionId: revision.questionId,
+              variationId: revision.variationId,
+            },
+          },
+          data: QuestionRevisions.content(revision),
+        });
+        return await QuestionRevisions.record(question, session?.user?.id, {
+          client: tx,
+          restoredFromId: revision.revisionId,
+        });
+      });
+
+      return res.status(200).json({
+        message: "Question rolled back successfully",
+        data: restoredQuestion,
+      });
+    } catch (e) {
+      return res.status(400).json({
+        message:
+          e instanceof Error ? e.message : "Failed to roll back question",
+      });
+    }
+  }
+
+  res.status(405).json({ message: "Method not allowed" });
+}
@@ -4,8 +4,10 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
 import { QuestionDataType } from "@/types/question-types";
-import { CustomEval } from "@/utils/CustomEval";
-import { CustomMath } from "@/utils/CustomMath";
+import { AnswerKey } from "@/utils/AnswerKey";
+import { Hints } from "@/utils/Hints";
+import { QuestionInstance } from "@/utils/QuestionInstance";
+import { QuestionLifecycle } from "@/utils/QuestionLifecycle";
 import { RecommendQuestion } from "@/utils/Recommender";
 
 export default async function handler(
@@ -13,33 +15,13 @@ export default async function handler(
   res: NextApiResponse
 ) {
   const session = await getServerSession(req, res, authOptions);
-  
-  // Exclude 2025 Questions from the bank temporarily
-  const excluded2025QuestionIds = [
-    89, 98, 90, 91, 92, 93, 94, 95, 96, 97,
-    79, 106, 107, 108, 99, 74, 100, 101, 102, 103, 104, 105
-  ];
 
-  const prevId = req.query.prevId as string
-  if (prevId) {
-    const numericPrevId = parseInt(prevId, 10);
-  
-    if (!excluded2025QuestionIds.includes(numericPrevId)) {
-      excluded2025QuestionIds.push(numericPrevId);
-    }
-  }
-
-  // Questions specific to user and course, newest first
-  let userCourseQuestionsWithAddedTime =
+  // Questions specific to user and course, newest first. Older ones have already been answered
+  const newestQuestionWithAddedTime =
     await prisma.questionWithAddedTime.findFirst({
       where: {
         userId: session?.user?.id,
         courseSlug: req.query.courseSlug as string,
-        NOT: {
-          questionId: {
-            in: excluded2025QuestionIds,
-          },
-        },
       },
       include: {
         question: {
@@ -56,21 +38,20 @@ export default async function handler(
         addedTime: "desc",
       },
     });
+  let userCourseQuestionsWithAddedTime =
+    newestQuestionWithAddedTime &&
+    QuestionLifecycle.isAvailable(newestQuestionWithAddedTime.question)
+      ? newestQuestionWithAddedTime
+      : null;
 
-  // If no questions for this user and for this course yet, recommend a question from the course
+  // If no questions for this user and for this course yet, or the newest is no longer available,
+  // recommend a question from the course
   if (!userCourseQuestionsWithAddedTime) {
-    const { recommendedTopicName, recommendedQuestion } =
-      await RecommendQuestion(req.query.courseSlug as string, 0);
-
-    const questionData = recommendedQuestion.questionData as QuestionDataType;
-
-    let evaluatedQuestionData;
-    if (recommendedQuestion.variationId === 0) {
-      evaluatedQuestionData = CustomEval(
-        questionData.variables,
-        questionData.methods
+    const { recommendedTopicName, recommendedQuestion, isReview } =
+      await RecommendQuestion(
+        req.query.courseSlug as string,
+        session?.user?.id as string
       );
-    }
 
     const recommendedQuestionsWithAddedTime =
       await prisma.questionWithAddedTime.create({
@@ -79,11 +60,9 @@ export default async function handler(
           courseSlug: req.query.courseSlug as string,
           questionId: recommendedQuestion.questionId,
           variationId: recommendedQuestion.variationId,
-          variables:
-            evaluatedQuestionData?.questionVariables ?? questionData.variables,
-          answers: CustomMath.shuffleArray(
-            questionData.answers ?? evaluatedQuestionData?.questionAnswers
-          ) as QuestionDataType["answers"],
+          isReview: isReview,
+          revisionId: recommendedQuestion.revisionId,
+          ...QuestionInstance.generate(recommendedQuestion),
         },
       });
 
@@ -98,5 +77,43 @@ export default async function handler(
     };
   }
 
-  res.status(200).json(userCourseQuestionsWithAddedTime);
+  // Multi-part questions stay current until every part is answered, one attempt per part
+  const partAttempts = await prisma.attempt.findMany({
+    where: {
+      qatId: userCourseQuestionsWithAddedTime.qatId,
+      part: {
+        not: null,
+      },
+    },
+    select: {
+      part: true,
+      isCorrect: true,
+    },
+    orderBy: {
+      submittedAt: "asc",
+    },
+  });
+
+  const hintReveals = await prisma.hintReveal.findMany({
+    where: {
+      qatId: userCourseQuestionsWithAddedTime.qatId,
+    },
+    select: {
+      hintKey: true,
+    },
+  });
+
+  // The answer key is only revealed once the question, or each of its parts, is attempted
+  res.status(200).json({
+    ...AnswerKey.redact(userCourseQuestionsWithAddedTime),
+    answeredParts: AnswerKey.answeredParts(
+      userCourseQuestionsWithAddedTime,
+      partAttempts
+    ),
+    hints: Hints.withhold(
+      userCourseQuestionsWithAddedTime.question
+        .questionData as QuestionDataType,
+      hintReveals.map((reveal) => reveal.hintKey)
+    ),
+  });
 }
@@ -0,0 +1,81 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+import { z } from "zod";
+
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import { prisma } from "@/server/db/client";
+import { QuestionDataType } from "@/types/question-types";
+import { Hints } from "@/utils/Hints";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const session = await getServerSession(req, res, authOptions);
+
+  try {
+    const { qatId } = z.object({ qatId: z.string() }).parse(req.query);
+
+    const qat = await prisma.questionWithAddedTime.findFirst({
+      where: {
+        qatId: qatId,
+        userId: session?.user?.id,
+      },
+      include: {
+        question: {
+          select: {
+            questionData: true,
+          },
+        },
+        attempts: {
+          select: {
+            part: true,
+          },
+        },
+        hintReveals: {
+          select: {
+            hintKey: true,
+          },
+        },
+      },
+    });
+
+    if (!qat) {
+      throw new Error("Question not found");
+    }
+
+    // Hints only count towards the attempts they are revealed before
+    const questionData = qat.question.questionData as QuestionDataType;
+    if (qat.attempts.length >= Math.max(questionData.parts?.length ?? 0, 1)) {
+      throw new Error("This question has already been answered");
+    }
+
+    const revealedKeys = qat.hintReveals.map((reveal) => reveal.hintKey);
+    const hint = Hints.next(questionData, revealedKeys);
+    if (!hint) {
+      throw new Error("Every hint of this question has been revealed");
+    }
+
+    await prisma.hintReveal.create({
+      data: {
+        userId: session?.user?.id as string,
+        qatId: qatId,
+        hintKey: hint.key,
+      },
+    });
+
+    res.status(200).json({
+      customToast: true,
+      hints: Hints.withhold(questionData, [...revealedKeys, hint.key]),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(400).json({
+      message: e instanceof Error ? e.message : "Failed to reveal hint",
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from "axios";
+import { AxiosError } from "axios";
 import { NextApiRequest, NextApiResponse } from "next";
 import { getServerSession } from "next-auth/next";
 import { z } from "zod";
@@ -6,9 +6,19 @@ import { z } from "zod";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import { prisma } from "@/server/db/client";
 import { QuestionDataType } from "@/types/question-types";
-import { CustomEval } from "@/utils/CustomEval";
-import { CustomMath } from "@/utils/CustomMath";
+import { AnswerKey } from "@/utils/AnswerKey";
+import { Hints, PASSING_CREDIT } from "@/utils/Hints";
+import { getMasteryEngine } from "@/utils/MasteryEngine";
+import { QuestionInstance } from "@/utils/QuestionInstance";
+import { QuestionParts } from "@/utils/QuestionParts";
+import { getOpenQuizSession, recordQuizAttempt } from "@/utils/QuizEngine";
 import { RecommendQuestion } from "@/utils/Recommender";
+import {
+  previewReviewSchedule,
+  updateReviewSchedule,
+} from "@/utils/ReviewScheduler";
+import { WorkedSolution } from "@/utils/WorkedSolution";
+import { Prisma } from "@prisma/client";
 
 export default async function handler(
   req: NextApiRequest,
@@ -16,13 +26,36 @@ export default async function handler(
 ) {
   /*
   Submit Answer Flow
-  1. Update the BKT model and get user's new mastery
-  2. Recommended question
-    a. Topic: random topic tested in current course
-    b. Difficulty: according to new mastery level
-  3. Add a new questionWithAddedTime with runtime generated answer options
-  4. Add a new attempt
-  5. Return the new mastery to fire a custom notification
+  0. Grade the attempt against the student's stored answer key, refusing it if
+     the course is a quiz that has ended. Each question, or each part of a
+     multi-part question, is only graded once. Multi-part questions are graded
+     one part at a time, in order, and only count once their last part is
+     answered
+  1. Work out the student's new mastery (local BKT or PyBKT) and the topic's
+     spaced repetition review without saving them. Multi-part questions update
+     mastery after each part or once all parts are answered, depending on the
+     question's part credit. Correct answers given after revealing hints are
+     credited fully, partly or not at all, depending on the course's hint credit
+  2. Recommended question, picked and generated before anything is written as
+     either can throw, following the mastery and review from this answer
+    a. Topic: a topic due for review, or an unlocked topic in current course
+       weighted by the course's policy, never the question just answered
+    b. Difficulty: according to the student's mastery of that topic
+     Its answer options are generated at runtime from a stored seed, so that what
+     the student saw can be reproduced. No question is recommended while parts
+     of the current question are still to be answered
+  3. In one serializable transaction, check that the question, or the part
+     answered, has no attempt yet, reschedule the topic's spaced repetition
+     review, add the recommended questionWithAddedTime and add a new attempt,
+     for the part answered if any, tying the hints revealed since the last
+     attempt to it. If the course is a quiz, count the answer towards the
+     student's quiz session as well, so that an answer is never counted without
+     its attempt
+  4. Update the mastery engine and get user's new mastery, once the attempt is
+     recorded
+  5. Return the new mastery and quiz session to fire a custom notification, along
+     with the answer key, feedback on the options picked and, once the question is
+     complete, its worked solution now that the attempt is recorded
   */
 
   const session = await getServerSession(req, res, authOptions);
@@ -35,114 +68,282 @@ export default async function handler(
       })
       .parse(req.query);
 
-    const { attemptedKeys, isCorrect, topicSlug, topicName } = z
+    const { attemptedKeys, responses, attemptSeconds, part } = z
       .object({
         attemptedKeys: z.array(z.string()),
-        isCorrect: z.boolean(),
-        topicSlug: z.string(),
-        topicName: z.string(),
+        responses: z.record(z.string()).optional(),
+        attemptSeconds: z.number().int().nonnegative().optional(),
+        part: z.string().optional(),
       })
       .parse(req.body);
 
-    // Step 1
-    const { data: pybktUpdate } = await axios.patch<{
-      Updated: boolean;
-    }>(
-      `${process.env.RECOMMENDER_URL}/update-state/${
-        session?.user?.id
-      }/${topicSlug}/${isCorrect ? "1" : "0"}`,
-      req,
-      {
-        headers: {
-          Accept: "application/json",
-          access_token: process.env.RECOMMENDER_API_KEY,
+    // Step 0
+    const attemptedQuestion = await prisma.questionWithAddedTime.findFirst({
+      where: {
+        qatId: qatId,
+        userId: session?.user?.id,
+      },
+      include: {
+        question: {
+          include: {
+            topic: {
+              select: {
+                topicName: true,
+              },
+            },
+          },
         },
-      }
-    );
+        revision: {
+          select: {
+            variationId: true,
+            questionData: true,
+          },
+        },
+        course: {
+          select: {
+            hintCredit: true,
+            hintPartialCredit: true,
+          },
+        },
+        _count: {
+          select: {
+            hintReveals: true,
+          },
+        },
+      },
+    });
 
-    if (!pybktUpdate || !pybktUpdate.Updated) {
-      throw new Error("PyBKT API update unsuccessful");
+    if (!attemptedQuestion) {
+      throw new Error("Question not found");
     }
 
-    const { data: pybktGet } = await axios.get<{ Mastery: number }>(
-      `${process.env.RECOMMENDER_URL}/get-mastery/${session?.user?.id}/${topicSlug}`,
-      {
-        headers: {
-          Accept: "application/json",
-          access_token: process.env.RECOMMENDER_API_KEY,
+    const { topicSlug } = attemptedQuestion.question;
+    // Graded as the instance was generated, even if the question has been edited since
+    const questionData = (attemptedQuestion.revision?.questionData ??
+      attemptedQuestion.question.questionData) as QuestionDataType;
+
+    // Parts must be answered in order, and each only once
+    const partResults: boolean[] = [];
+    if (QuestionParts.isMultiPart(questionData)) {
+      const answeredParts = await prisma.attempt.findMany({
+        where: {
+          qatId: qatId,
+          part: {
+            not: null,
+          },
+        },
+        orderBy: {
+          submittedAt: "asc",
         },
+      });
+      const nextPart = QuestionParts.next(
+        questionData,
+        answeredParts.map((attempt) => attempt.part as string)
+      );
+      if (!nextPart) {
+        throw new Error("Every part of this question has been answered");
       }
+      if (nextPart.key !== part) {
+        throw new Error(
+          `Please answer part ${answeredParts.length + 1} of the question first`
+        );
+      }
+      partResults.push(...answeredParts.map((attempt) => attempt.isCorrect));
+    } else if (part !== undefined) {
+      throw new Error("This question has no parts");
+    }
+
+    const isCorrect = AnswerKey.grade(
+      { answers: attemptedQuestion.answers, question: { questionData } },
+      attemptedKeys,
+      responses ?? {},
+      part
     );
+    partResults.push(isCorrect);
+
+    // Questions without parts are complete once answered
+    const isComplete =
+      !QuestionParts.isMultiPart(questionData) ||
+      partResults.length === questionData.parts?.length;
+    const questionIsCorrect = QuestionParts.isMultiPart(questionData)
+      ? QuestionParts.credit(questionData, partResults)
+      : isCorrect;
 
-    if (!pybktGet || !pybktGet.Mastery) {
-      throw new Error("PyBKT API get unsuccessful");
+    // Answers to a quiz that has ended are refused before anything is written
+    if (isComplete) {
+      await getOpenQuizSession(session?.user?.id as string, courseSlug);
     }
 
-    console.log(
-      `[${topicSlug}] NEW MASTERY: ${(pybktGet.Mastery * 100).toFixed(2)}%`
+    // Step 1
+    // Computed without writing anything, as recommending the next question can still throw
+    const creditsEachPart =
+      QuestionParts.isMultiPart(questionData) &&
+      questionData.partCredit === "EachPart";
+    // Hints apply to the whole question, so they count against every part after them
+    const masteryCredit = Hints.credit(
+      attemptedQuestion.course,
+      attemptedQuestion._count.hintReveals
     );
+    const masteryIsCorrect = creditsEachPart ? isCorrect : questionIsCorrect;
+    const reviewIsCorrect = masteryIsCorrect && masteryCredit >= PASSING_CREDIT;
+    const updatesMastery = isComplete || creditsEachPart;
+    let masteryLevel: number | null = updatesMastery
+      ? await getMasteryEngine().predict(
+          session?.user?.id as string,
+          topicSlug,
+          masteryIsCorrect,
+          masteryCredit
+        )
+      : null;
 
     // Step 2
-    const { recommendedTopicSlug, recommendedQuestion } =
-      await RecommendQuestion(courseSlug, pybktGet.Mastery);
-
-    console.log(
-      `[${recommendedTopicSlug}] RECOMMENDED QUESTION: `,
-      recommendedQuestion.questionId
-    );
+    let nextQuestion: Prisma.QuestionWithAddedTimeUncheckedCreateInput | null =
+      null;
+    if (isComplete && masteryLevel !== null) {
+      const reviewSchedule = await previewReviewSchedule(
+        session?.user?.id as string,
+        topicSlug,
+        masteryLevel,
+        reviewIsCorrect
+      );
+      const { recommendedTopicSlug, recommendedQuestion, isReview } =
+        await RecommendQuestion(courseSlug, session?.user?.id as string, {
+          questionId: attemptedQuestion.questionId,
+          variationId: attemptedQuestion.variationId,
+          topicSlug: topicSlug,
+          masteryLevel: masteryLevel,
+          nextReviewAt: reviewSchedule?.nextReviewAt ?? null,
+        });
 
-    // Step 3
-    const questionData = recommendedQuestion.questionData as QuestionDataType;
-
-    // Only evaluate variables and methods if dynamic question
-    let evaluatedQuestionData;
-    if (recommendedQuestion.variationId === 0) {
-      evaluatedQuestionData = CustomEval(
-        questionData.variables,
-        questionData.methods
+      console.log(
+        `[${recommendedTopicSlug}] RECOMMENDED QUESTION: `,
+        recommendedQuestion.questionId
       );
-    }
 
-    await prisma.questionWithAddedTime.create({
-      data: {
+      nextQuestion = {
         userId: session?.user?.id as string,
         courseSlug: courseSlug,
         questionId: recommendedQuestion.questionId,
         variationId: recommendedQuestion.variationId,
-        variables:
-          evaluatedQuestionData?.questionVariables ?? questionData.variables,
-        answers: CustomMath.shuffleArray(
-          questionData.answers ?? evaluatedQuestionData?.questionAnswers
-        ) as QuestionDataType["answers"],
+        isReview: isReview,
+        revisionId: recommendedQuestion.revisionId,
+        ...QuestionInstance.generate(recommendedQuestion),
+      };
+    }
+
+    // Step 3
+    const quizSession = await prisma.$transaction(
+      async (tx) => {
+        // Checked within the transaction, so that concurrent submissions cannot
+        // both record an attempt and have the answer key resubmitted
+        const answered = await tx.attempt.findFirst({
+          where: {
+            qatId: qatId,
+            part: part ?? null,
+          },
+        });
+        if (answered) {
+          throw new Error(
+            part === undefined
+              ? "This question has already been answered"
+              : "This part of the question has already been answered"
+          );
+        }
+        if (masteryLevel !== null) {
+          await updateReviewSchedule(
+            session?.user?.id as string,
+            topicSlug,
+            masteryLevel,
+            reviewIsCorrect,
+            tx
+          );
+        }
+        if (nextQuestion) {
+          await tx.questionWithAddedTime.create({
+            data: nextQuestion,
+          });
+        }
+        const quizSession = isComplete
+          ? await recordQuizAttempt(
+              session?.user?.id as string,
+              courseSlug,
+              questionIsCorrect,
+              tx
+            )
+          : null;
+        const attempt = await tx.attempt.create({
+          data: {
+            userId: session?.user?.id as string,
+            courseSlug: courseSlug,
+            qatId: qatId,
+            attemptedKeys: attemptedKeys,
+            responses: responses,
+            isCorrect: isCorrect,
+            attemptSeconds: attemptSeconds,
+            misconception: AnswerKey.misconception(
+              attemptedQuestion,
+              attemptedKeys
+            ),
+            part: part,
+          },
+        });
+        await tx.hintReveal.updateMany({
+          where: {
+            qatId: qatId,
+            attemptId: null,
+          },
+          data: {
+            attemptId: attempt.attemptId,
+          },
+        });
+        return quizSession;
       },
-    });
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
 
     // Step 4
-    await prisma.attempt.create({
-      data: {
-        userId: session?.user?.id as string,
-        courseSlug: courseSlug,
-        qatId: qatId,
-        attemptedKeys: attemptedKeys,
-        isCorrect: isCorrect,
-      },
-    });
+    if (updatesMastery) {
+      masteryLevel = await getMasteryEngine().update(
+        session?.user?.id as string,
+        topicSlug,
+        masteryIsCorrect,
+        masteryCredit
+      );
+
+      console.log(
+        `[${topicSlug}] NEW MASTERY: ${(masteryLevel * 100).toFixed(2)}%`
+      );
+    }
 
     // Step 5
     res.status(200).json({
       customToast: true,
       message: "Answer submitted successfully",
-      topic: topicName,
-      masteryLevel: pybktGet.Mastery,
+      topic: attemptedQuestion.question.topic.topicName,
+      masteryLevel: masteryLevel,
       isCorrect: isCorrect,
+      isComplete: isComplete,
+      questionIsCorrect: questionIsCorrect,
+      hintsUsed: attemptedQuestion._count.hintReveals,
       courseSlug: courseSlug,
+      quizSession: quizSession,
+      correctKeys: AnswerKey.correctKeys(attemptedQuestion, part),
+      feedback: AnswerKey.feedback(attemptedQuestion, attemptedKeys),
+      // Worked in the question as the instance was generated, even if it has been edited since
+      solution: isComplete
+        ? WorkedSolution.steps(
+            attemptedQuestion.revision ?? attemptedQuestion.question,
+            attemptedQuestion.seed
+          )
+        : undefined,
     });
   } catch (e) {
     if (e instanceof AxiosError) {
       console.error("Axios Error:", e.response?.data || e.message);
     } else {
       console.error("Error:", e);
-    }    res.status(400).json({
+    }
+    res.status(400).json({
       message:
         e instanceof z.ZodError || e instanceof AxiosError || e instanceof Error
           ? e.message
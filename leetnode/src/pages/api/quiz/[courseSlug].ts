@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import { prisma } from "@/server/db/client";
+import { CourseType } from "@prisma/client";
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  getLatestQuizSession,
+} from "@/utils/QuizEngine";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+  const userId = session?.user?.id as string;
+
+  const courseSlug = req.query.courseSlug as string;
+  const course = await prisma.course.findUnique({
+    where: {
+      courseSlug: courseSlug,
+    },
+    include: {
+      topics: true,
+      quiz: true,
+    },
+  });
+
+  if (!course || course.type !== CourseType.Quiz) {
+    return res.status(404).json({ message: "Quiz not found" });
+  }
+
+  const { quiz: definition, ...quizCourse } = course;
+  // Quiz courses without a definition yet use the default settings, which are
+  // only saved once a student starts an attempt
+  const quizSettings =
+    req.method === "POST" && !definition
+      ? await prisma.quiz.upsert({
+          where: {
+            courseSlug: courseSlug,
+          },
+          create: {
+            courseSlug: courseSlug,
+          },
+          update: {},
+        })
+      : definition ?? { courseSlug: courseSlug, ...DEFAULT_QUIZ_SETTINGS };
+  const quiz = { ...quizSettings, course: quizCourse };
+
+  let quizSession = await getLatestQuizSession(userId, quiz);
+
+  // Start a new attempt unless one is still in progress
+  if (req.method === "POST" && (!quizSession || quizSession.endedAt)) {
+    quizSession = await prisma.quizSession.create({
+      data: {
+        userId: userId,
+        courseSlug: quiz.courseSlug,
+      },
+    });
+  }
+
+  res.status(200).json({ quiz, quizSession });
+}
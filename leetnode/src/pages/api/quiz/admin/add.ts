@@ -0,0 +1,84 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { quizSettingsSchema } from "@/utils/QuizEngine";
+import { CourseType, Level } from "@prisma/client";
+
+const DEFAULT_QUIZ_IMAGE = "courses/afif-ramdhasuma-RjqCk9MqhNg-unsplash.jpg";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const {
+      courseName,
+      courseDescription,
+      courseLevel,
+      moduleCode,
+      moduleTitle,
+    } = z
+      .object({
+        courseName: z.string().trim().min(3).max(100),
+        courseDescription: z.string().trim().min(1),
+        courseLevel: z.nativeEnum(Level),
+        moduleCode: z.string().trim().min(1),
+        moduleTitle: z.string().trim().min(1),
+      })
+      .parse(req.body);
+    const { topics, ...settings } = quizSettingsSchema.parse(req.body);
+
+    const courseSlug = courseName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+
+    const existingCourse = await prisma.course.findFirst({
+      where: {
+        OR: [{ courseSlug: courseSlug }, { courseName: courseName }],
+      },
+    });
+
+    if (existingCourse) {
+      throw new Error(`A course named ${courseName} already exists`);
+    }
+
+    const quiz = await prisma.quiz.create({
+      data: {
+        ...settings,
+        course: {
+          create: {
+            courseSlug: courseSlug,
+            courseName: courseName,
+            courseDescription: courseDescription,
+            courseImage: DEFAULT_QUIZ_IMAGE,
+            courseLevel: courseLevel,
+            type: CourseType.Quiz,
+            moduleCode: moduleCode,
+            moduleTitle: moduleTitle,
+            topics: {
+              connect: topics.map((topicSlug) => ({ topicSlug })),
+            },
+          },
+        },
+      },
+    });
+
+    res.status(201).json({
+      message: `${courseName} created successfully`,
+      data: quiz,
+    });
+  } catch (e) {
+    res.status(400).json({
+      message:
+        e instanceof z.ZodError || e instanceof Error
+          ? e.message
+          : "Failed to create quiz due to unknown error",
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { quizSettingsSchema } from "@/utils/QuizEngine";
+import { CourseType } from "@prisma/client";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const { courseSlug } = z
+      .object({
+        courseSlug: z.string(),
+      })
+      .parse(req.body);
+    const { topics, ...settings } = quizSettingsSchema.parse(req.body);
+
+    const course = await prisma.course.findUnique({
+      where: {
+        courseSlug: courseSlug,
+      },
+    });
+
+    if (!course || course.type !== CourseType.Quiz) {
+      throw new Error("Only quiz courses have quiz settings");
+    }
+
+    const [quiz] = await prisma.$transaction([
+      prisma.quiz.upsert({
+        where: {
+          courseSlug: courseSlug,
+        },
+        create: {
+          courseSlug: courseSlug,
+          ...settings,
+        },
+        update: settings,
+      }),
+      prisma.course.update({
+        where: {
+          courseSlug: courseSlug,
+        },
+        data: {
+          topics: {
+            set: topics.map((topicSlug) => ({ topicSlug })),
+          },
+        },
+      }),
+    ]);
+
+    res.status(200).json({
+      message: `${course.courseName} updated successfully`,
+      data: quiz,
+    });
+  } catch (e) {
+    res.status(400).json({
+      message:
+        e instanceof z.ZodError || e instanceof Error
+          ? e.message
+          : "Failed to update quiz due to unknown error",
+    });
+  }
+}
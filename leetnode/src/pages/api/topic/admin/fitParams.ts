@@ -0,0 +1,89 @@
+import { NextApiRequest, NextApiResponse } from "next";
+
+import { prisma } from "@/server/db/client";
+import { BKT } from "@/utils/BKT";
+import { fitBKT } from "@/utils/BKTFit";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const [topics, attempts] = await Promise.all([
+      prisma.topic.findMany(),
+      prisma.attempt.findMany({
+        select: {
+          userId: true,
+          isCorrect: true,
+          questionWithAddedTime: {
+            select: {
+              question: {
+                select: {
+                  topicSlug: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          submittedAt: "asc",
+        },
+      }),
+    ]);
+
+    // Group responses into per-student sequences for each topic, oldest first
+    const sequences = attempts.reduce((acc, attempt) => {
+      const topicSlug = attempt.questionWithAddedTime.question.topicSlug;
+      const topicSequences = (acc[topicSlug] ??= {});
+      (topicSequences[attempt.userId] ??= []).push(attempt.isCorrect);
+      return acc;
+    }, {} as Record<string, Record<string, boolean[]>>);
+
+    const fittedTopics = await Promise.all(
+      topics
+        .filter((topic) => sequences[topic.topicSlug])
+        .map((topic) => {
+          const { params, rmse, responses } = fitBKT(
+            Object.values(sequences[topic.topicSlug] ?? {}),
+            BKT.paramsFromTopic(topic)
+          );
+
+          console.log(
+            `[${topic.topicSlug}] FITTED BKT PARAMS (RMSE ${rmse.toFixed(
+              4
+            )}): `,
+            params
+          );
+
+          return prisma.topic.update({
+            where: {
+              topicSlug: topic.topicSlug,
+            },
+            data: {
+              topicPrior: params.prior,
+              topicLearn: params.learn,
+              topicGuess: params.guess,
+              topicSlip: params.slip,
+              fitRmse: rmse,
+              fitCount: responses,
+              fittedAt: new Date(),
+            },
+          });
+        })
+    );
+
+    res.status(200).json({
+      message: `Fitted BKT parameters for ${fittedTopics.length} topic(s)`,
+      data: fittedTopics,
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(400).json({
+      message: e instanceof Error ? e.message : "Failed to fit BKT parameters",
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { TopicGraph } from "@/utils/TopicGraph";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // GET request to fetch the whole prerequisite graph
+  if (req.method === "GET") {
+    const edges = await prisma.topicPrerequisite.findMany();
+    return res.status(200).json(edges);
+  }
+
+  // POST request to replace the prerequisites of one topic
+  if (req.method === "POST") {
+    try {
+      const { topicSlug, prerequisiteSlugs } = z
+        .object({
+          topicSlug: z.string(),
+          prerequisiteSlugs: z.array(z.string()),
+        })
+        .parse(req.body);
+
+      if (prerequisiteSlugs.includes(topicSlug)) {
+        throw new Error("A topic cannot be its own prerequisite");
+      }
+
+      const edges = await prisma.topicPrerequisite.findMany();
+      if (
+        TopicGraph.hasCycle(
+          TopicGraph.withPrerequisites(edges, topicSlug, prerequisiteSlugs)
+        )
+      ) {
+        throw new Error(
+          "These prerequisites would create a cycle in the topic graph"
+        );
+      }
+
+      await prisma.$transaction([
+        prisma.topicPrerequisite.deleteMany({
+          where: {
+            topicSlug: topicSlug,
+          },
+        }),
+        prisma.topicPrerequisite.createMany({
+          data: prerequisiteSlugs.map((prerequisiteSlug) => ({
+            topicSlug,
+            prerequisiteSlug,
+          })),
+        }),
+      ]);
+
+      return res.status(200).json({ message: "Prerequisites updated" });
+    } catch (e) {
+      return res.status(400).json({
+        message:
+          e instanceof Error ? e.message : "Failed to update prerequisites",
+      });
+    }
+  }
+
+  res.status(405).json({ message: "Method not allowed" });
+}
@@ -18,12 +18,20 @@ import {
   Text,
   Title,
 } from "@mantine/core";
-import { Course, CourseMedia, CourseType, Level, Topic } from "@prisma/client";
+import {
+  Course,
+  CourseMedia,
+  CourseType,
+  Level,
+  Quiz,
+  Topic,
+} from "@prisma/client";
 import { useQuery } from "@tanstack/react-query";
 
 export type CourseWithMediaAndTopicType = Course & {
   courseMedia: CourseMedia[];
   topics: Topic[];
+  quiz: Quiz | null;
 };
 
 export default function CoursesPage() {
@@ -59,7 +67,11 @@ export default function CoursesPage() {
     return (
       <Card withBorder radius="md" m="md" p={0} className={classes.card}>
         <Link
-          href={slug === "welcome-quiz" ? `/quiz?courseSlug=welcome-quiz` : `/courses/${slug}`}
+          href={
+            category === "QUIZ"
+              ? `/quiz?courseSlug=${slug}`
+              : `/courses/${slug}`
+          }
           passHref
           className={`${
             theme.colorScheme === "dark" ? "text-white" : "text-black"
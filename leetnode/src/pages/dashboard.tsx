@@ -7,6 +7,7 @@ import LeetNodeHeader, { UserData } from "@/components/Header";
 import LeetNodeNavbar from "@/components/Navbar";
 import Account from "@/components/user/Account";
 import Leaderboard from "@/components/user/Leaderboard";
+import ReviewQueue from "@/components/user/ReviewQueue";
 import Statistics from "@/components/user/statistics/Statistics";
 import Streak from "@/components/user/Streak";
 import {
@@ -24,6 +25,7 @@ import {
 import { useMediaQuery, useSessionStorage } from "@mantine/hooks";
 import {
   IconLogout,
+  IconRepeat,
   IconReportAnalytics,
   IconSettings,
   IconTargetArrow,
@@ -34,6 +36,7 @@ import { useQuery } from "@tanstack/react-query";
 const tabs = [
   { label: "Daily Streak", icon: IconTargetArrow },
   { label: "Leaderboard", icon: IconTrophy },
+  { label: "Review Queue", icon: IconRepeat },
   { label: "Statistics", icon: IconReportAnalytics },
   { label: "Account", icon: IconSettings },
 ];
@@ -168,6 +171,8 @@ export default function DashboardPage() {
             <Streak />
           ) : active === "Leaderboard" ? (
             <Leaderboard />
+          ) : active === "Review Queue" ? (
+            <ReviewQueue />
           ) : active === "Statistics" ? (
             <Statistics />
           ) : active === "Account" ? (
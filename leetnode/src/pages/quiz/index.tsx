@@ -2,18 +2,26 @@ import axios from "axios";
 import DOMPurify from "dompurify";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/router";
-import { useState, useEffect, useRef } from "react";
+import { useEffect, useState, useRef } from "react";
 import { toast } from "react-hot-toast";
 import Link from "next/link";
 import {
   useMediaQuery, useSessionStorage} from "@mantine/hooks";
+import FreeResponseAnswers from "@/components/course/FreeResponseAnswers";
+import HintsModal from "@/components/course/HintsModal";
+import QuestionPartsStepper from "@/components/course/QuestionPartsStepper";
+import CircuitDiagram from "@/components/editor/CircuitDiagram";
 import VariablesBox from "@/components/editor/VariablesBox";
 import LeetNodeFooter from "@/components/Footer";
 import CourseDiscussion from "@/components/course/CourseDiscussion";
 import Latex from "@/components/Latex";
 import { QuestionDifficultyBadge } from "@/components/misc/Badges";
-import { QuestionDataType } from "@/types/question-types";
+import { QuestionDataType, UCQATType } from "@/types/question-types";
+import { QuizWithSessionType } from "@/types/quiz-types";
+import { useAttemptTimer } from "@/utils/AttemptTimer";
 import { CustomMath } from "@/utils/CustomMath";
+import { FreeResponse } from "@/utils/FreeResponse";
+import { QuestionParts } from "@/utils/QuestionParts";
 import {
   AppShell,
   ActionIcon,
@@ -22,12 +30,11 @@ import {
   Center,
   Checkbox,
   Flex,
+  Group,
   Loader,
-  Modal,
   Paper,
   Radio,
   Divider,
-  Stack,
   Text,
   Tooltip,
   Navbar as Sidebar,
@@ -35,9 +42,9 @@ import {
   createStyles,
   useMantineTheme
 } from "@mantine/core";
-import { Question, QuestionWithAddedTime, User } from "@prisma/client";
+import { User } from "@prisma/client";
 import {
-  IconChartLine, IconTarget, IconArrowBarLeft, IconZoomQuestion
+  IconChartLine, IconTarget, IconArrowBarLeft, IconZoomQuestion, IconClock
 } from "@tabler/icons";
 import { IconBulb } from "@tabler/icons";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -60,7 +67,9 @@ export default function QuizQuestion() {
   const theme = useMantineTheme();
   const { classes, cx } = useStyles();
 
-  const maxQnCount = 16;
+  const router = useRouter();
+  const currentCourseSlug = router.query.courseSlug as string;
+  const queryClient = useQueryClient();
 
   const { data: user } = useQuery({
     queryKey: ["user-consent"],
@@ -72,59 +81,77 @@ export default function QuizQuestion() {
         isNewUser: boolean;
       }>("/api/init"),
   });
-  const [qnCount, setQnCount] = useState(1);
   const [active, setActive] = useSessionStorage({
     key: "quizActiveTab",
-    defaultValue: (qnCount === maxQnCount || !user?.data.isNewUser) ? "Your Attempt" : "Questions" ,
+    defaultValue: "Questions",
   });
 
-  const currentCourseSlug = "welcome-quiz" as string;
+  const { data: quizData } = useQuery({
+    queryKey: ["get-quiz", currentCourseSlug],
+    queryFn: () =>
+      axios.get<QuizWithSessionType>(`/api/quiz/${currentCourseSlug}`),
+    enabled: !!currentCourseSlug,
+  });
+  const quiz = quizData?.data.quiz;
+  const quizSession = quizData?.data.quizSession;
+  const qnCount = (quizSession?.answeredCount ?? 0) + 1;
+
+  const { mutate: startQuiz, status: startQuizStatus } = useMutation({
+    mutationFn: () => axios.post(`/api/quiz/${currentCourseSlug}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries(["get-quiz", currentCourseSlug]);
+      queryClient.invalidateQueries(["get-ucqat"]);
+    },
+  });
+
+  // Tick every second to show the time left, refreshing the session once it runs out
+  const [now, setNow] = useState(new Date());
+  const deadline =
+    quiz?.timeLimit && quizSession && !quizSession.endedAt
+      ? new Date(
+          new Date(quizSession.startedAt).getTime() + quiz.timeLimit * 60 * 1000
+        )
+      : null;
+  const deadlineTime = deadline?.getTime();
+  useEffect(() => {
+    if (deadlineTime === undefined) return;
+    const interval = setInterval(() => {
+      setNow(new Date());
+      if (deadlineTime <= Date.now()) {
+        queryClient.invalidateQueries(["get-quiz", currentCourseSlug]);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [deadlineTime, queryClient, currentCourseSlug]);
 
   const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
-  const [prevQn, setPrevQn] = useState(0);
+  const [responses, setResponses] = useState<{ [key: string]: string }>({});
   const [hintsOpened, setHintsOpened] = useState<boolean>(false);
   
-  const useUCQAT = (currentCourseSlug: string) => {  
-    const {
-      data: UCQAT,
-      refetch,
-      isFetching,
-    } = useQuery({
+  const useUCQAT = (currentCourseSlug: string) => {
+    const { data: UCQAT } = useQuery({
       queryKey: ["get-ucqat"],
       queryFn: () =>
-        axios
-          .get<
-            QuestionWithAddedTime & {
-              question: Question & {
-                topic: {
-                  topicName: string;
-                };
-              };
-            }
-          >(`/api/question/questionsWithAddedTime?courseSlug=${currentCourseSlug}&prevId=${prevQn}`)
+        axios.get<UCQATType>(
+          `/api/question/questionsWithAddedTime?courseSlug=${currentCourseSlug}`
+        ),
+      enabled: !!currentCourseSlug,
     });
-  
-    // Effect to check for duplicate question ID and refetch if needed
-    useEffect(() => {
-      if (UCQAT?.data.question?.questionId) {
-        const currentQuestionId = UCQAT?.data.question.questionId;
-  
-        if (prevQn === currentQuestionId && !isFetching) {
-          // Same question ID — refetch
-          console.log("Repeat question detected, refetching...");
-          queryClient.invalidateQueries(["get-ucqat"]);
-          refetch();
-        }
-  
-        // Update ref to the current question ID
-        setPrevQn(currentQuestionId);
-      }
-    }, [UCQAT, refetch, isFetching]);
-  
+
     return { UCQAT };
   };
 
   const { UCQAT } = useUCQAT(currentCourseSlug);
+  // Each part of a multi-part question is timed on its own
+  const getAttemptSeconds = useAttemptTimer(
+    UCQAT?.data &&
+      `${UCQAT.data.qatId}-${
+        QuestionParts.next(
+          UCQAT.data.question.questionData as QuestionDataType,
+          UCQAT.data.answeredParts.map((item) => item.part)
+        )?.key ?? ""
+      }`
+  );
 
   const { mutate: initUser, isLoading: mutationIsLoading } = useMutation({
     mutationFn: () => {
@@ -145,9 +172,9 @@ export default function QuizQuestion() {
         };
         body: {
           attemptedKeys: string[];
-          isCorrect: boolean;
-          topicSlug: string;
-          topicName: string;
+          responses?: { [key: string]: string };
+          attemptSeconds: number;
+          part?: string;
         };
       }) => {
         return axios.post(
@@ -157,24 +184,31 @@ export default function QuizQuestion() {
       },
       onSuccess: (res) => {
         setSelectedKeys([]);
+        setResponses({});
         const { data } = res;
         console.log(data);
-        toast(
-          `[${data.topic}] Mastery: ${CustomMath.round(
-            data.masteryLevel * 100,
-            1
-          )}%`,
-          {
-            icon: data.isCorrect ? "🎉" : "💪",
-            className: `border border-solid ${
-              data.isCorrect ? "border-green-500" : "border-red-500"
-            }`,
-            position: "top-right",
-            duration: 5000,
-          }
-        );
-        setQnCount ((prev) => prev + 1);
-        if (qnCount < maxQnCount){
+        if (!data.isComplete) {
+          queryClient.invalidateQueries(["get-ucqat"]);
+          return;
+        }
+        if (quiz?.showMastery && data.masteryLevel !== null) {
+          toast(
+            `[${data.topic}] Mastery: ${CustomMath.round(
+              data.masteryLevel * 100,
+              1
+            )}%`,
+            {
+              icon: data.questionIsCorrect ? "🎉" : "💪",
+              className: `border border-solid ${
+                data.questionIsCorrect ? "border-green-500" : "border-red-500"
+              }`,
+              position: "top-right",
+              duration: 5000,
+            }
+          );
+        }
+        queryClient.invalidateQueries(["get-quiz", currentCourseSlug]);
+        if (!data.quizSession?.endedAt){
             queryClient.invalidateQueries(["get-ucqat"]);
             queryClient.invalidateQueries(["get-attempts", data.courseSlug]);
             updatePoints(); // Update points for attempting questions
@@ -202,8 +236,6 @@ export default function QuizQuestion() {
     enabled: !!session?.data?.user?.id,
   });
 
-  const queryClient = useQueryClient();
-
   // Award points for attempting a question
   const { mutate: updatePoints } = useMutation(
     async () => {
@@ -240,14 +272,14 @@ export default function QuizQuestion() {
     },
     {
       onSuccess: () => {
-        if (qnCount < maxQnCount){
+        if (!quizSession?.endedAt){
             queryClient.invalidateQueries(["userInfo", session?.data?.user?.id]); // Get latest number of attempts
         }
       },
     }
   );
 
-  if (!UCQAT) {
+  if (!UCQAT || !quiz) {
     return (
       <Center className="h-[calc(100vh-180px)]">
         <Loader />
@@ -263,11 +295,21 @@ export default function QuizQuestion() {
     );
   }
 
-  const answerOptions = UCQAT.data.answers as QuestionDataType["answers"];
+  // Multi-part questions are answered one part at a time, with the options of that part
+  const questionData = UCQAT.data.question.questionData as QuestionDataType;
+  const currentPart = QuestionParts.next(
+    questionData,
+    UCQAT.data.answeredParts.map((item) => item.part)
+  );
+  const answerOptions = QuestionParts.answers(
+    UCQAT.data.answers,
+    currentPart?.key
+  );
 
-  const correctKeys = answerOptions
-    .filter((item) => item.isCorrect)
-    .map((item) => item.key);
+  // Free-response questions are typed instead of selected
+  const isFreeResponse =
+    QuestionParts.answerMode(questionData, currentPart?.key) ===
+    "FreeResponse";
 
   const quiz_tabs = {practice: [{label: "Questions", icon: IconZoomQuestion}]};
   const review_tabs = {
@@ -315,7 +357,11 @@ export default function QuizQuestion() {
 
     
 
-  if (qnCount === maxQnCount || !user?.data.isNewUser) {
+  const minutesLeft = deadline
+    ? Math.max(0, Math.ceil((deadline.getTime() - now.getTime()) / 60000))
+    : null;
+
+  if (!quizSession || quizSession.endedAt) {
     return (
       <AppShell
       className={classes.appshell}
@@ -329,10 +375,24 @@ export default function QuizQuestion() {
           >
             <Sidebar.Section>
               <Text weight={600} size="lg" align="center" mb="lg">
-                {"Welcome Quiz"}
+                {quiz.course.courseName}
               </Text>
+              {quizSession && (
+                <Text color="dimmed" align="center">
+                  Score: {quizSession.score}/{quizSession.answeredCount}
+                </Text>
+              )}
             </Sidebar.Section>
             <Sidebar.Section mt="xl" grow>
+              <Button
+                fullWidth
+                variant="light"
+                mb="sm"
+                loading={startQuizStatus === "loading"}
+                onClick={() => startQuiz()}
+              >
+                {quizSession ? "Retake Quiz" : "Start Quiz"}
+              </Button>
               {review_links}
               <Divider my="sm" variant="dotted" />
               <Link href="/courses" passHref>
@@ -350,7 +410,18 @@ export default function QuizQuestion() {
       }
     >
       <ScrollArea>
-      { active === "Course Discussion" ? (
+      { !quizSession ? (
+          <Paper p="xl" radius="md" withBorder>
+            <Text weight={600} size="lg">
+              {quiz.course.courseName}
+            </Text>
+            <Text color="dimmed" mt="xs">
+              {quiz.questionCount} questions
+              {quiz.timeLimit ? `, ${quiz.timeLimit} minutes` : ", untimed"}.
+              Press Start Quiz when you are ready.
+            </Text>
+          </Paper>
+        ) : active === "Course Discussion" ? (
           <CourseDiscussion courseName={""} />
         ) :(active === "Your Attempt" || active === "Questions") ? (
           <QuestionHistory courseSlug={UCQAT?.data.courseSlug} />
@@ -376,8 +447,19 @@ export default function QuizQuestion() {
         >
           <Sidebar.Section>
             <Text weight={600} size="lg" align="center" mb="lg">
-              {"Welcome Quiz"}
+              {quiz.course.courseName}
             </Text>
+            <Group position="apart">
+              <Text color="dimmed">
+                Question {qnCount}/{quiz.questionCount}
+              </Text>
+              {minutesLeft !== null && (
+                <Group spacing={4}>
+                  <IconClock size={16} />
+                  <Text color="dimmed">{minutesLeft} min left</Text>
+                </Group>
+              )}
+            </Group>
           </Sidebar.Section>
           <Sidebar.Section mt="xl" grow>
             {quiz_links}
@@ -390,6 +472,33 @@ export default function QuizQuestion() {
         <form
           onSubmit={(e) => {
             e.preventDefault();
+            if (isFreeResponse) {
+              const unreadable = questionData.variables.find(
+                (variable) =>
+                  answerOptions.some((item) => item.key === variable.key) &&
+                  FreeResponse.parse(
+                    responses[variable.key] ?? "",
+                    variable.unit
+                  ) === null
+              );
+              if (unreadable) {
+                toast.error(`Could not read your answer for ${unreadable.name}`);
+                return;
+              }
+              submitAnswer({
+                query: {
+                  qatId: UCQAT.data.qatId,
+                  courseSlug: currentCourseSlug,
+                },
+                body: {
+                  attemptedKeys: [],
+                  responses: responses,
+                  attemptSeconds: getAttemptSeconds(),
+                  part: currentPart?.key,
+                },
+              });
+              return;
+            }
             if (selectedKeys.length === 0) {
               toast.error("Please select an option");
               return;
@@ -401,11 +510,8 @@ export default function QuizQuestion() {
               },
               body: {
                 attemptedKeys: selectedKeys,
-                isCorrect:
-                  selectedKeys.length === correctKeys.length &&
-                  selectedKeys.every((item) => correctKeys.includes(item)),
-                topicSlug: UCQAT.data.question.topicSlug,
-                topicName: UCQAT.data.question.topic.topicName,
+                attemptSeconds: getAttemptSeconds(),
+                part: currentPart?.key,
               },
             });
           }}
@@ -428,17 +534,32 @@ export default function QuizQuestion() {
               }),
             }}
           />
+          <CircuitDiagram
+            diagram={questionData.diagram}
+            variables={UCQAT.data.variables as QuestionDataType["variables"]}
+          />
           <VariablesBox
             variables={UCQAT.data.variables as QuestionDataType["variables"]}
           />
-          {correctKeys.length === 1 ? (
+          {questionData.parts && QuestionParts.isMultiPart(questionData) && (
+            <QuestionPartsStepper
+              parts={questionData.parts}
+              variables={questionData.variables}
+              answeredParts={UCQAT.data.answeredParts}
+            />
+          )}
+          {isFreeResponse ? (
+            <FreeResponseAnswers
+              answers={answerOptions}
+              variables={questionData.variables}
+              responses={responses}
+              setResponses={setResponses}
+            />
+          ) : !UCQAT.data.multipleCorrect ? (
             <Radio.Group
               mt="xl"
               value={selectedKeys[0]}
               onChange={(value) => {
-                // console.log(
-                //   value === answerOptions.find((item) => item.isCorrect)?.key
-                // );
                 setSelectedKeys([value]);
               }}
               orientation="vertical"
@@ -469,10 +590,6 @@ export default function QuizQuestion() {
               mt="xl"
               value={selectedKeys}
               onChange={(values) => {
-                console.log(
-                  values.length === correctKeys.length &&
-                    values.every((item) => correctKeys.includes(item))
-                );
                 setSelectedKeys(values);
               }}
               orientation="vertical"
@@ -506,9 +623,13 @@ export default function QuizQuestion() {
               fullWidth
               loading={submitAnswerStatus === "loading"}
             >
-              {submitAnswerStatus === "loading" ? "Submitting..." : "Submit"}
+              {submitAnswerStatus === "loading"
+                ? "Submitting..."
+                : currentPart
+                ? `Submit Part ${UCQAT.data.answeredParts.length + 1}`
+                : "Submit"}
             </Button>
-            {(UCQAT.data.question.questionData as QuestionDataType).hints && (
+            {UCQAT.data.hints.length > 0 && (
               <Tooltip label="Hints" withArrow>
                 <ActionIcon
                   size="lg"
@@ -522,27 +643,12 @@ export default function QuizQuestion() {
             )}
           </Flex>
   
-          {/* Hints Modal */}
-          <Modal
+          <HintsModal
+            qatId={UCQAT.data.qatId}
+            hints={UCQAT.data.hints}
             opened={hintsOpened}
             onClose={() => setHintsOpened(false)}
-            title="Hints"
-            size="md"
-          >
-            <Stack>
-              {(UCQAT.data.question.questionData as QuestionDataType).hints?.map(
-                (item, index) => (
-                  <Box
-                    key={index}
-                    className="flex items-center justify-start gap-3 rounded-md border border-solid border-gray-200 bg-gray-100 p-2"
-                  >
-                    <Text color="dimmed">#{index + 1}</Text>
-                    <Text>{item.hint}</Text>
-                  </Box>
-                )
-              )}
-            </Stack>
-          </Modal>
+          />
         </form>
       </Paper>
       </ScrollArea>
@@ -2,6 +2,8 @@ import {
   Attempt,
   Question,
   QuestionDifficulty,
+  QuestionRevision,
+  QuestionStatus,
   QuestionWithAddedTime,
   Topic,
 } from "@prisma/client";
@@ -11,19 +13,58 @@ export type AllQuestionsType = (Question & {
   questionsWithAddedTime: (QuestionWithAddedTime & { attempts: Attempt[] })[];
 })[];
 
+// Question as served to a student, without its answer key until attempted
+export type UCQATType = Omit<QuestionWithAddedTime, "answers"> & {
+  answers: Omit<QuestionDataType["answers"][number], "isCorrect">[];
+  multipleCorrect: boolean;
+  answeredParts: AnsweredPartType[];
+  hints: WithheldHintType[];
+  question: Question & {
+    topic: {
+      topicName: string;
+    };
+  };
+};
+
+// Hint of a question, with its text withheld until the student reveals it
+export type WithheldHintType = {
+  key: string;
+  hint: string | null;
+};
+
+// Part of a multi-part question that a student has answered, with its answer key
+export type AnsweredPartType = {
+  part: string;
+  isCorrect: boolean;
+  correctAnswers: Omit<QuestionDataType["answers"][number], "isCorrect">[];
+};
+
 export type QuestionFormFullType = {
   baseQuestionId?: string | null;
   variationId: number;
   title: string;
   difficulty?: QuestionDifficulty;
+  status: QuestionStatus;
+  activeFrom?: Date | null;
+  activeUntil?: Date | null;
   topic: string;
+  answerMode?: QuestionDataType["answerMode"];
   variables?: QuestionDataType["variables"];
   methods?: QuestionDataType["methods"];
+  constraints?: QuestionDataType["constraints"];
+  netlist?: QuestionDataType["netlist"];
+  checkUnits?: QuestionDataType["checkUnits"];
+  diagram?: QuestionDataType["diagram"];
+  misconceptions?: QuestionDataType["misconceptions"];
+  parts?: QuestionDataType["parts"];
+  partCredit?: QuestionDataType["partCredit"];
+  partThreshold?: QuestionDataType["partThreshold"];
   hints?: QuestionDataType["hints"];
   answers?: QuestionDataType["answers"];
 };
 
 export type QuestionDataType = {
+  answerMode?: "MultipleChoice" | "FreeResponse"; // Multiple choice unless set
   variables: {
     key: string;
     encoded: string;
@@ -36,12 +77,41 @@ export type QuestionDataType = {
     max?: number;
     decimalPlaces?: number;
     step?: number;
+    valueSet?: "E6" | "E12" | "E24" | "Custom"; // Uniform between min and max unless set
+    values?: number[]; // Custom value set only
+    tolerance?: number; // Free-response final answers only
+    toleranceType?: "Relative" | "Absolute";
+    complexFormat?: "Rectangular" | "Polar"; // Complex values only
   }[];
   methods: {
     key: string;
     expr: string;
-    explanation?: string;
+    explanation?: string; // Shown under the step, with {{name}} replaced by the value of a variable
+  }[];
+  constraints?: {
+    key: string;
+    expr: string; // Comparison that generated values must satisfy, eg. R_1 > R_2
+  }[];
+  netlist?: string; // SPICE-like circuit solved for node voltages (V_{node}) and currents (I_{element})
+  checkUnits?: boolean; // Methods are checked against the units of variables, which are otherwise only labels
+  diagram?: string; // Schematic drawn on a grid, labelled with the values of each instance
+  misconceptions?: {
+    key: string;
+    name: string;
+    feedback?: string; // Shown to students who pick a distractor from this misconception
+    methods: {
+      key: string;
+      expr: string; // Replaces the method assigning the same variable
+    }[];
   }[];
+  parts?: {
+    key: string;
+    prompt: string; // Shown above the part's answers, eg. Find the Thevenin resistance
+    answerMode?: "MultipleChoice" | "FreeResponse"; // Multiple choice unless set
+    finalAnswers: string[]; // Keys of the final answers asked for in this part
+  }[];
+  partCredit?: "AllParts" | "EachPart" | "Threshold"; // How parts feed mastery, all parts correct unless set
+  partThreshold?: number; // Share of parts to get right (0 to 1) for the Threshold credit
   hints: {
     key: string;
     hint: string;
@@ -51,5 +121,58 @@ export type QuestionDataType = {
     answerContent: string;
     isCorrect: boolean;
     isLatex: boolean;
+    misconception?: string; // Name of the misconception a distractor comes from
+    feedback?: string; // Shown once the question is answered, such as why a distractor is wrong
+    part?: string; // Key of the part an option belongs to, multi-part questions only
+  }[];
+};
+
+// Step of a worked solution, with the values of a student's instance substituted in
+export type SolutionStepType = {
+  key: string;
+  expr: string; // Method as written, eg. I = V / R
+  substituted?: string; // Method with values in place of its variables, dynamic questions only
+  result?: string; // Variable that the method assigns with its value, dynamic questions only
+  explanation?: string;
+};
+
+// Outcome of stress-testing a dynamic question over many seeds
+export type QuestionHealthType = {
+  questionId: number;
+  runs: number;
+  failureRate: number;
+  errors: {
+    message: string;
+    count: number;
+    seed: number; // First seed that failed with this error
+  }[];
+  ranges: {
+    name: string;
+    unit?: string;
+    isFinalAnswer: boolean;
+    min: number;
+    max: number;
   }[];
 };
+
+// Change that importing a question bank would make, previewed before it is applied
+export type QuestionBankChangeType = {
+  kind: "Topic" | "Course" | "Question";
+  key: string; // Slug of topics and courses, title of questions
+  action: "Create" | "Update" | "Unchanged";
+  fields: string[]; // Fields that an update changes
+};
+
+// Outcome of importing a question bank, or of a dry run of it
+export type QuestionBankImportType = {
+  message: string;
+  dryRun: boolean;
+  changes: QuestionBankChangeType[];
+  skipped: string[]; // Questions of other formats that cannot be imported, with why
+};
+
+// Revision of a question, with who saved it and how many instances were generated from it
+export type QuestionRevisionType = QuestionRevision & {
+  author: { name: string | null; email: string } | null;
+  _count: { questionsWithAddedTime: number };
+};
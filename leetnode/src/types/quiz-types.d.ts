@@ -0,0 +1,16 @@
+import {
+  Course,
+  QuestionDifficulty,
+  Quiz,
+  QuizSession,
+  Topic,
+} from "@prisma/client";
+
+export type TopicQuotasType = { [topicSlug: string]: number };
+
+export type DifficultyMixType = { [difficulty in QuestionDifficulty]?: number };
+
+export type QuizWithSessionType = {
+  quiz: Quiz & { course: Course & { topics: Topic[] } };
+  quizSession: QuizSession | null;
+};
@@ -0,0 +1,153 @@
+import { AnsweredPartType, QuestionDataType } from "@/types/question-types";
+import { Attempt, Question, QuestionWithAddedTime } from "@prisma/client";
+
+import { FreeResponse } from "./FreeResponse";
+import { QuestionParts } from "./QuestionParts";
+
+type GradableQuestionType = Pick<QuestionWithAddedTime, "answers"> & {
+  question: Pick<Question, "questionData">;
+};
+
+// Answer keys stay on the server until a student has attempted the question
+export const AnswerKey = {
+  /** Keys of the correct options, or of every final answer for free-response questions, of a part if given **/
+  correctKeys: function (qat: GradableQuestionType, part?: string) {
+    return QuestionParts.answers(
+      qat.answers as QuestionDataType["answers"],
+      part
+    )
+      .filter((answer) => answer.isCorrect)
+      .map((answer) => answer.key);
+  },
+  /** Grades an attempt at a question or one of its parts, where exactly the correct options must be selected **/
+  grade: function (
+    qat: GradableQuestionType,
+    attemptedKeys: string[],
+    responses: { [key: string]: string },
+    part?: string
+  ) {
+    const questionData = qat.question.questionData as QuestionDataType;
+    if (QuestionParts.answerMode(questionData, part) === "FreeResponse") {
+      return FreeResponse.grade(
+        responses,
+        QuestionParts.answers(qat.answers as QuestionDataType["answers"], part),
+        questionData.variables
+      );
+    }
+
+    const correctKeys = this.correctKeys(qat, part);
+    return (
+      attemptedKeys.length === correctKeys.length &&
+      attemptedKeys.every((key) => correctKeys.includes(key))
+    );
+  },
+  /** Name of the misconception behind a picked distractor, for analysis **/
+  misconception: function (qat: GradableQuestionType, attemptedKeys: string[]) {
+    return (
+      (qat.answers as QuestionDataType["answers"]).find(
+        (answer) => attemptedKeys.includes(answer.key) && answer.misconception
+      )?.misconception ?? null
+    );
+  },
+  /** Feedback on the options a student picked, revealed along with the answer key **/
+  feedback: function (qat: GradableQuestionType, attemptedKeys: string[]) {
+    return (qat.answers as QuestionDataType["answers"]).flatMap((answer) =>
+      attemptedKeys.includes(answer.key) && answer.feedback
+        ? [{ key: answer.key, feedback: answer.feedback }]
+        : []
+    );
+  },
+  /** Answer options without correctness, and without the values of free-response answers **/
+  redactAnswers: function (
+    answers: QuestionWithAddedTime["answers"],
+    questionData: QuestionDataType
+  ) {
+    return (answers as QuestionDataType["answers"]).map((answer) => ({
+      key: answer.key,
+      answerContent:
+        QuestionParts.answerMode(questionData, answer.part) === "FreeResponse"
+          ? ""
+          : answer.answerContent,
+      isLatex: answer.isLatex,
+      part: answer.part,
+    }));
+  },
+  /** Answer options with the answer key of only the parts answered so far, or of every option once complete **/
+  revealAnswered: function (
+    qat: GradableQuestionType,
+    answeredParts: (string | null)[]
+  ) {
+    const redacted = this.redactAnswers(
+      qat.answers,
+      qat.question.questionData as QuestionDataType
+    );
+    return (qat.answers as QuestionDataType["answers"]).map((answer, index) =>
+      answeredParts.includes(answer.part ?? null)
+        ? answer
+        : (redacted[index] as (typeof redacted)[number])
+    );
+  },
+  /** Question data without static answers or methods, which double as the worked solution, or hints, which are revealed one at a time **/
+  redactQuestionData: function (
+    questionData: QuestionDataType
+  ): Partial<QuestionDataType> {
+    return {
+      answerMode: questionData.answerMode,
+      variables: questionData.variables,
+      diagram: questionData.diagram,
+      parts: questionData.parts,
+      partCredit: questionData.partCredit,
+      partThreshold: questionData.partThreshold,
+    };
+  },
+  /** Results and answer keys of the parts a student has answered so far **/
+  answeredParts: function (
+    qat: GradableQuestionType,
+    attempts: Pick<Attempt, "part" | "isCorrect">[]
+  ): AnsweredPartType[] {
+    return attempts.flatMap(({ part, isCorrect }) => {
+      if (part === null) return [];
+      return [
+        {
+          part,
+          isCorrect,
+          correctAnswers: QuestionParts.answers(
+            qat.answers as QuestionDataType["answers"],
+            part
+          )
+            .filter((answer) => answer.isCorrect)
+            .map(({ key, answerContent, isLatex, part }) => ({
+              key,
+              answerContent,
+              isLatex,
+              part,
+            })),
+        },
+      ];
+    });
+  },
+  /** Instance without its seed, which its option keys are generated from, or the revision it was generated from **/
+  unseeded: function <T extends object>(qat: T) {
+    const served: Partial<Pick<QuestionWithAddedTime, "seed" | "revisionId">> =
+      { ...qat };
+    delete served.seed;
+    delete served.revisionId;
+    return served as Omit<T, "seed" | "revisionId">;
+  },
+  /** Question as served to a student before they attempt it **/
+  redact: function <T extends GradableQuestionType>(qat: T) {
+    const questionData = qat.question.questionData as QuestionDataType;
+    return {
+      ...this.unseeded(qat),
+      answers: this.redactAnswers(qat.answers, questionData),
+      // Parts of multi-part questions are dynamic, with 1 correct option each
+      multipleCorrect:
+        !QuestionParts.isMultiPart(questionData) &&
+        this.correctKeys(qat).length > 1,
+      question: {
+        ...qat.question,
+        questionData: this.redactQuestionData(questionData),
+      },
+    };
+  },
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Measures time spent on the current question, pausing while the tab is hidden.
+ * Restarts whenever the question key changes, such as on to the next part.
+ */
+export const useAttemptTimer = (questionKey?: string) => {
+  const elapsedMs = useRef(0);
+  const startedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    elapsedMs.current = 0;
+    startedAt.current = document.hidden ? null : Date.now();
+  }, [questionKey]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden && startedAt.current !== null) {
+        elapsedMs.current += Date.now() - startedAt.current;
+        startedAt.current = null;
+      } else if (!document.hidden && startedAt.current === null) {
+        startedAt.current = Date.now();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  return useCallback(
+    () =>
+      Math.round(
+        (elapsedMs.current +
+          (startedAt.current === null ? 0 : Date.now() - startedAt.current)) /
+          1000
+      ),
+    []
+  );
+};
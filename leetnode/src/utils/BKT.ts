@@ -0,0 +1,63 @@
+import { Topic } from "@prisma/client";
+
+export type BKTParams = {
+  prior: number;
+  learn: number;
+  guess: number;
+  slip: number;
+};
+
+// Standard Bayesian Knowledge Tracing (no forgetting), same model as PyBKT
+// https://en.wikipedia.org/wiki/Bayesian_knowledge_tracing
+export const BKT = {
+  /** Reads the per-topic BKT parameters stored on a topic **/
+  paramsFromTopic: function (
+    topic: Pick<Topic, "topicPrior" | "topicLearn" | "topicGuess" | "topicSlip">
+  ): BKTParams {
+    return {
+      prior: topic.topicPrior,
+      learn: topic.topicLearn,
+      guess: topic.topicGuess,
+      slip: topic.topicSlip,
+    };
+  },
+  /** Probability of a correct response given the current mastery **/
+  predictCorrect: function (mastery: number, params: BKTParams) {
+    return mastery * (1 - params.slip) + (1 - mastery) * params.guess;
+  },
+  /** Mastery conditioned on one observed response, before learning **/
+  posterior: function (mastery: number, isCorrect: boolean, params: BKTParams) {
+    const known = isCorrect ? 1 - params.slip : params.slip;
+    const unknown = isCorrect ? params.guess : 1 - params.guess;
+    const evidence = mastery * known + (1 - mastery) * unknown;
+    if (evidence === 0) return mastery;
+    return (mastery * known) / evidence;
+  },
+  /** New mastery after observing one response and the learning transition **/
+  update: function (mastery: number, isCorrect: boolean, params: BKTParams) {
+    const conditioned = this.posterior(mastery, isCorrect, params);
+    return this.clamp(conditioned + (1 - conditioned) * params.learn);
+  },
+  /** New mastery after a response worth a share of a correct one, mixing the correct and incorrect updates **/
+  updateWithCredit: function (
+    mastery: number,
+    credit: number,
+    params: BKTParams
+  ) {
+    return this.clamp(
+      credit * this.update(mastery, true, params) +
+        (1 - credit) * this.update(mastery, false, params)
+    );
+  },
+  /** Replays a sequence of responses from the prior **/
+  trace: function (responses: boolean[], params: BKTParams) {
+    return responses.reduce(
+      (mastery, isCorrect) => this.update(mastery, isCorrect, params),
+      params.prior
+    );
+  },
+  /** Keeps probabilities within [0, 1] against floating point drift **/
+  clamp: function (p: number) {
+    return Math.min(1, Math.max(0, p));
+  },
+};
@@ -0,0 +1,183 @@
+import { BKT, BKTParams } from "./BKT";
+
+// Keeps fitted parameters away from degenerate values, as PyBKT does by default
+const BOUNDS = {
+  prior: [0.01, 0.99],
+  learn: [0.001, 0.5],
+  guess: [0.01, 0.3],
+  slip: [0.01, 0.3],
+} as const;
+
+const bound = (value: number, key: keyof BKTParams) =>
+  Math.min(BOUNDS[key][1], Math.max(BOUNDS[key][0], value));
+
+export type BKTFitResult = {
+  params: BKTParams;
+  logLikelihood: number;
+  rmse: number;
+  iterations: number;
+  responses: number;
+};
+
+/** One-step-ahead RMSE of predicted P(correct) against observed responses **/
+export const rmseBKT = (sequences: boolean[][], params: BKTParams) => {
+  let squaredError = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    let mastery = params.prior;
+    for (const isCorrect of sequence) {
+      squaredError +=
+        (Number(isCorrect) - BKT.predictCorrect(mastery, params)) ** 2;
+      count++;
+      mastery = BKT.update(mastery, isCorrect, params);
+    }
+  }
+  return count === 0 ? 0 : Math.sqrt(squaredError / count);
+};
+
+/**
+ * Fits BKT parameters with expectation-maximisation (Baum-Welch) over
+ * per-student response sequences, each ordered by submission time.
+ * State 0 is "not mastered" and state 1 is "mastered", with no forgetting.
+ */
+export const fitBKT = (
+  sequences: boolean[][],
+  initial: BKTParams,
+  maxIterations = 100,
+  tolerance = 1e-6
+): BKTFitResult => {
+  const data = sequences.filter((sequence) => sequence.length > 0);
+  const responses = data.reduce((sum, sequence) => sum + sequence.length, 0);
+
+  let params = { ...initial };
+  let logLikelihood = -Infinity;
+  let iterations = 0;
+
+  if (responses === 0) {
+    return { params, logLikelihood: 0, rmse: 0, iterations, responses };
+  }
+
+  for (; iterations < maxIterations; iterations++) {
+    const emission = (state: number, isCorrect: boolean) =>
+      state === 1
+        ? isCorrect
+          ? 1 - params.slip
+          : params.slip
+        : isCorrect
+        ? params.guess
+        : 1 - params.guess;
+
+    let priorSum = 0;
+    let learnNum = 0;
+    let learnDen = 0;
+    let guessNum = 0;
+    let guessDen = 0;
+    let slipNum = 0;
+    let slipDen = 0;
+    let currentLogLikelihood = 0;
+
+    for (const sequence of data) {
+      const T = sequence.length;
+
+      // E-step: scaled forward pass
+      const alpha: [number, number][] = [];
+      const scale: number[] = [];
+      for (let t = 0; t < T; t++) {
+        const isCorrect = sequence[t] as boolean;
+        let a0: number;
+        let a1: number;
+        if (t === 0) {
+          a0 = (1 - params.prior) * emission(0, isCorrect);
+          a1 = params.prior * emission(1, isCorrect);
+        } else {
+          const [p0, p1] = alpha[t - 1] as [number, number];
+          a0 = p0 * (1 - params.learn) * emission(0, isCorrect);
+          a1 = (p0 * params.learn + p1) * emission(1, isCorrect);
+        }
+        const c = a0 + a1 || Number.MIN_VALUE;
+        scale.push(c);
+        alpha.push([a0 / c, a1 / c]);
+        currentLogLikelihood += Math.log(c);
+      }
+
+      // E-step: scaled backward pass
+      const beta: [number, number][] = new Array(T);
+      beta[T - 1] = [1, 1];
+      for (let t = T - 2; t >= 0; t--) {
+        const isCorrect = sequence[t + 1] as boolean;
+        const [b0, b1] = beta[t + 1] as [number, number];
+        const c = scale[t + 1] as number;
+        beta[t] = [
+          ((1 - params.learn) * emission(0, isCorrect) * b0 +
+            params.learn * emission(1, isCorrect) * b1) /
+            c,
+          (emission(1, isCorrect) * b1) / c,
+        ];
+      }
+
+      // Accumulate expected counts
+      for (let t = 0; t < T; t++) {
+        const isCorrect = sequence[t] as boolean;
+        const [a0, a1] = alpha[t] as [number, number];
+        const [b0, b1] = beta[t] as [number, number];
+        const g0 = (a0 * b0) / (a0 * b0 + a1 * b1 || Number.MIN_VALUE);
+        const g1 = 1 - g0;
+
+        if (t === 0) priorSum += g1;
+
+        guessDen += g0;
+        slipDen += g1;
+        if (isCorrect) guessNum += g0;
+        else slipNum += g1;
+
+        if (t < T - 1) {
+          const next = sequence[t + 1] as boolean;
+          const [, nb1] = beta[t + 1] as [number, number];
+          learnNum +=
+            (a0 * params.learn * emission(1, next) * nb1) /
+            (scale[t + 1] as number);
+          learnDen += g0;
+        }
+      }
+    }
+
+    // M-step
+    params = {
+      prior: bound(priorSum / data.length, "prior"),
+      learn: bound(learnDen ? learnNum / learnDen : params.learn, "learn"),
+      guess: bound(guessDen ? guessNum / guessDen : params.guess, "guess"),
+      slip: bound(slipDen ? slipNum / slipDen : params.slip, "slip"),
+    };
+
+    const improvement = currentLogLikelihood - logLikelihood;
+    logLikelihood = currentLogLikelihood;
+    if (Math.abs(improvement) < tolerance) {
+      iterations++;
+      break;
+    }
+  }
+
+  return {
+    params,
+    logLikelihood,
+    rmse: rmseBKT(data, params),
+    iterations,
+    responses,
+  };
+};
+
+/** Reasons why a topic's fitted parameters should be reviewed by an instructor **/
+export const calibrationWarnings = (
+  params: BKTParams,
+  rmse: number | null,
+  responses: number
+) => {
+  const warnings: string[] = [];
+  if (rmse === null) return ["Not fitted yet"];
+  if (responses < 50) warnings.push("Too few attempts for a reliable fit");
+  if (rmse >= 0.45) warnings.push("High prediction error");
+  if (params.learn <= BOUNDS.learn[0]) warnings.push("Students never learn");
+  if (params.guess >= BOUNDS.guess[1]) warnings.push("Guess rate at limit");
+  if (params.slip >= BOUNDS.slip[1]) warnings.push("Slip rate at limit");
+  return warnings;
+};
@@ -0,0 +1,144 @@
+import { QuestionDataType } from "@/types/question-types";
+
+import { Units } from "./Units";
+
+// Kinds of components drawn between 2 points, W being a plain wire
+const COMPONENT_KINDS = ["R", "L", "C", "V", "I", "W"] as const;
+
+export type DiagramPointType = { x: number; y: number };
+
+export type DiagramComponentType = {
+  name: string; // eg. R1, the first letter being the kind of component
+  kind: (typeof COMPONENT_KINDS)[number];
+  from: DiagramPointType; // Positive terminal of V, and where the arrow of I starts
+  to: DiagramPointType;
+  label?: string; // Variable name or text shown next to the component
+};
+
+export type CircuitDiagramType = {
+  components: DiagramComponentType[];
+  grounds: DiagramPointType[];
+  nodes: (DiagramPointType & { label: string })[];
+};
+
+// Piece of a label, subscripts being drawn smaller and lower
+export type LabelSegmentType = { text: string; isSubscript: boolean };
+
+// Plain text of a LaTeX label, keeping its spaces
+const toText = (latex: string) =>
+  latex
+    .replace(/\\(?:text|mathrm)\{([^}]*)\}/g, "$1")
+    .replace(/\\Omega/g, "Ω")
+    .replace(/\\mu/g, "µ")
+    .replace(/~/g, " ")
+    .replace(/[\\{}]/g, "");
+
+const toPoint = (token: string | undefined, line: number): DiagramPointType => {
+  const [x, y, ...rest] = (token ?? "").split(",").map(Number);
+  if (x === undefined || y === undefined || rest.length > 0 || isNaN(x + y)) {
+    throw new Error(`Line ${line}: points are written as x,y such as 0,2`);
+  }
+  return { x, y };
+};
+
+// Schematics of questions, laid out on a grid and labelled with each instance's values
+export const CircuitDiagram = {
+  /**
+   * Parses a diagram with 1 component per line, such as "R1 0,0 2,0 R_1" (name, start and
+   * end points on the grid, then an optional label). ".gnd x,y" draws a ground, ".node x,y
+   * out" draws a labelled node, and lines starting with * are comments.
+   */
+  parse: function (text: string): CircuitDiagramType {
+    const diagram: CircuitDiagramType = {
+      components: [],
+      grounds: [],
+      nodes: [],
+    };
+    const names = new Set<string>();
+    for (const [index, rawLine] of text.split("\n").entries()) {
+      const line = rawLine.trim();
+      if (line.length === 0 || line.startsWith("*")) continue;
+
+      const [name = "", ...rest] = line.split(/\s+/);
+      if (name.toLowerCase() === ".gnd") {
+        diagram.grounds.push(toPoint(rest[0], index + 1));
+        continue;
+      }
+      if (name.toLowerCase() === ".node") {
+        diagram.nodes.push({
+          ...toPoint(rest[0], index + 1),
+          label: rest.slice(1).join(" "),
+        });
+        continue;
+      }
+
+      const kind = COMPONENT_KINDS.find(
+        (item) => item === name.charAt(0).toUpperCase()
+      );
+      if (!kind) {
+        throw new Error(
+          `Line ${
+            index + 1
+          }: ${name} is not a supported component (${COMPONENT_KINDS.join(
+            ", "
+          )})`
+        );
+      }
+      if (names.has(name)) {
+        throw new Error(`Line ${index + 1}: ${name} is drawn twice`);
+      }
+      names.add(name);
+
+      const from = toPoint(rest[0], index + 1);
+      const to = toPoint(rest[1], index + 1);
+      if (from.x === to.x && from.y === to.y) {
+        throw new Error(
+          `Line ${index + 1}: ${name} starts and ends at the same point`
+        );
+      }
+      diagram.components.push({
+        name,
+        kind,
+        from,
+        to,
+        label: rest.length > 2 ? rest.slice(2).join(" ") : undefined,
+      });
+    }
+
+    if (diagram.components.length === 0) {
+      throw new Error("The diagram has no components");
+    }
+    return diagram;
+  },
+  /**
+   * Label of a component, being "R_1 = 4.7 kΩ" when it names a given variable. Final
+   * answers and other text are shown as written, so that answers are never drawn.
+   */
+  label: function (label: string, variables: QuestionDataType["variables"]) {
+    const variable = variables.find(
+      (item) => item.name === label && !item.isFinalAnswer
+    );
+    if (!variable?.default) return label;
+    const unit = variable.unit ? ` ${Units.normalize(variable.unit)}` : "";
+    return `${variable.name} = ${variable.default}${unit}`;
+  },
+  /** Splits a label into text and subscripts, such as R_{out} or V_s **/
+  segments: function (label: string): LabelSegmentType[] {
+    const segments: LabelSegmentType[] = [];
+    const pattern = /_(?:\{([^}]*)\}|(\S))/g;
+    let start = 0;
+    for (const match of label.matchAll(pattern)) {
+      segments.push({
+        text: toText(label.slice(start, match.index)),
+        isSubscript: false,
+      });
+      segments.push({ text: match[1] ?? match[2] ?? "", isSubscript: true });
+      start = (match.index ?? 0) + match[0].length;
+    }
+    segments.push({
+      text: toText(label.slice(start)),
+      isSubscript: false,
+    });
+    return segments.filter((segment) => segment.text.length > 0);
+  },
+};
@@ -1,24 +1,42 @@
-import { evaluate } from "mathjs";
-
 import { QuestionDataType } from "@/types/question-types";
-import { randomId } from "@mantine/hooks";
 
 import { CustomMath } from "./CustomMath";
+import { FreeResponse } from "./FreeResponse";
+import { Netlist } from "./Netlist";
+import { QuestionParts } from "./QuestionParts";
+import { SafeMath } from "./SafeMath";
+import { QuantityType, Units } from "./Units";
+
+// Phase errors (degrees) added to the magnitude errors of complex distractors
+const PHASE_SHIFTS = [-90, -60, -45, -30, 30, 45, 60, 90, 180];
+
+// Random values are resampled up to this many times to satisfy the constraints
+const MAX_TRIES = 100;
+
+// Characters of answer keys, which are generated from the seed like everything else
+const KEY_CHARS = "abcdefghijklmnopqrstuvwxyz0123456789";
 
 export const CustomEval = (
   variables?: QuestionDataType["variables"],
-  methods?: QuestionDataType["methods"],
-  toRandomize = true
+  methods: QuestionDataType["methods"] = [],
+  toRandomize = true,
+  seed = CustomMath.randomSeed(),
+  misconceptions: QuestionDataType["misconceptions"] = [],
+  constraints: QuestionDataType["constraints"] = [],
+  parts: QuestionDataType["parts"] = [],
+  netlist?: QuestionDataType["netlist"],
+  checkUnits: QuestionDataType["checkUnits"] = false,
+  log = true // Off for checks that evaluate a question many times
 ) => {
-  // For dynamic questions, ensure variables and methods are defined
+  // For dynamic questions, ensure variables and methods (or a netlist to solve) are defined
+  const hasNetlist = (netlist?.trim().length ?? 0) > 0;
   if (
     !variables ||
-    !methods ||
     variables.length === 0 ||
-    methods.length === 0
+    (methods.length === 0 && !hasNetlist)
   ) {
     throw new Error(
-      "Please add at least 1 variable and 1 method for dynamic questions"
+      "Please add at least 1 variable and 1 method (or a netlist) for dynamic questions"
     );
   }
 
@@ -30,13 +48,38 @@ export const CustomEval = (
     }
   });
 
-  methods?.map((method) => {
+  methods.map((method) => {
     method.expr = method.expr.trim();
     if (method.expr.length === 0) {
       throw new Error("Methods cannot be empty");
     }
   });
 
+  // Author-written expressions are evaluated in a sandbox, with a time limit across all of them
+  const deadline = SafeMath.deadline();
+  const evaluate = (expr: string, scope: { [key: string]: unknown }) =>
+    SafeMath.evaluate(expr, scope, deadline);
+
+  // Units are only labels unless the question opts in to having its methods checked against them
+  const attach = (value: QuantityType, unit?: string) =>
+    checkUnits ? Units.attach(value, unit) : value;
+
+  // The same seed always generates the same variables, options and keys
+  const rng = CustomMath.seededRandom(seed);
+  const randomKey = () =>
+    `mantine-${CustomMath.randomString(9, KEY_CHARS, rng)}`;
+
+  // Variables that the netlist or methods assign are named from a generator of their own,
+  // so that the values a seed generates do not depend on how many there are
+  const nameRng = CustomMath.seededRandom(seed);
+  const assignedVariable = (name: string) => ({
+    key: `mantine-${CustomMath.randomString(9, KEY_CHARS, nameRng)}`,
+    name,
+    encoded: CustomMath.randomString(8, undefined, nameRng),
+    randomize: false,
+    isFinalAnswer: false,
+  });
+
   // Replace curly and square brackets with parentheses and remove backslashes
   const clean = (str: string) =>
     str
@@ -44,43 +87,71 @@ export const CustomEval = (
       .replace(/[\]\}]/g, ")")
       .replace(/[\\]/g, "");
 
-  // Sort and randomize variables and evalutate default values
-  let rawVariables: { [key: string]: number };
-  try {
-    rawVariables = variables
-      .sort((a, b) => {
-        if (!a.name || !b.name) return 0;
-        if (a.isFinalAnswer) return 1;
-        if (b.isFinalAnswer) return -1;
-        return a.name.localeCompare(b.name);
-      })
-      .reduce((obj, item) => {
-        const itemName = item.encoded;
-        if (toRandomize && item.randomize) {
+  // Discrete values that randomized variables are picked from, such as E12 resistors
+  const valueSets: { [key: string]: number[] } = {};
+  for (const item of variables) {
+    if (!item.randomize || item.isFinalAnswer || !item.valueSet) continue;
+    const values =
+      item.valueSet === "Custom"
+        ? item.values ?? []
+        : CustomMath.preferredValues(
+            item.valueSet,
+            Number(item.min),
+            Number(item.max)
+          );
+    if (values.length === 0) {
+      throw new Error(
+        `No ${item.valueSet} values to pick from for ${item.name}, try widening its range`
+      );
+    }
+    valueSets[item.encoded] = values;
+  }
+
+  // Sort and randomize variables and evalutate default values, with their units attached
+  const sampleVariables = () => {
+    let rawVariables: { [key: string]: QuantityType };
+    try {
+      rawVariables = variables
+        .sort((a, b) => {
+          if (!a.name || !b.name) return 0;
+          if (a.isFinalAnswer) return 1;
+          if (b.isFinalAnswer) return -1;
+          return a.name.localeCompare(b.name);
+        })
+        .reduce((obj, item) => {
+          const itemName = item.encoded;
+          if (toRandomize && item.randomize) {
+            const valueSet = valueSets[itemName];
+            return {
+              ...obj,
+              [itemName]: attach(
+                valueSet
+                  ? (CustomMath.nRandomItems(1, valueSet, rng)[0] as number)
+                  : CustomMath.random(
+                      Number(item.min),
+                      Number(item.max),
+                      Number(item.decimalPlaces),
+                      rng
+                    ),
+                item.unit
+              ),
+            };
+          }
           return {
             ...obj,
-            [itemName]: CustomMath.random(
-              Number(item.min),
-              Number(item.max),
-              Number(item.decimalPlaces)
-            ),
+            [itemName]: item.default
+              ? attach(evaluate(clean(item.default), {}), item.unit)
+              : undefined,
           };
-        }
-        return {
-          ...obj,
-          [itemName]: item.default ? evaluate(clean(item.default)) : undefined,
-        };
-      }, {});
-  } catch (e) {
-    throw new Error(
-      "Ensure that Default values are either numbers or valid math expressions for dynamic questions"
-    );
-  }
-
-  console.log("[Raw Variables]", rawVariables);
+        }, {});
+    } catch (e) {
+      throw new Error(
+        "Ensure that Default values are either numbers or valid math expressions for dynamic questions"
+      );
+    }
 
-  // Define custom math functions for common ones
-  evaluate("ln(x) = log(x)", rawVariables);
+    return rawVariables;
+  };
 
   // Copy all variables and encode them to ensure the expression is valid
   const formVars = [...variables];
@@ -92,37 +163,185 @@ export const CustomEval = (
     return str;
   };
 
-  // Evaluate all methods after encoding and cleaning them
-  console.log("[Encoded Math Expressions]");
-  for (const [index, method] of methods.entries()) {
+  // Node voltages and branch currents of the netlist are solved into variables of the same
+  // name, such as V_{out} or I_{R1}, which can be final answers or used in methods
+  let circuit: ReturnType<typeof Netlist.parse> | undefined;
+  try {
+    circuit = hasNetlist ? Netlist.parse(netlist as string) : undefined;
+  } catch (e) {
+    throw new Error(
+      `Netlist is invalid: ${e instanceof Error ? e.message : "Unknown Error"}`
+    );
+  }
+  const circuitOutputs = circuit
+    ? [
+        ...Netlist.outputs(circuit).voltages,
+        ...Netlist.outputs(circuit).currents,
+      ].map((name) => {
+        const existing = formVars.find((variable) => variable.name === name);
+        if (existing) return existing;
+        const added = assignedVariable(name);
+        formVars.push(added);
+        return added;
+      })
+    : [];
+  const solveCircuit = (rawVariables: { [key: string]: QuantityType }) => {
+    if (!circuit) return;
+    let results: ReturnType<typeof Netlist.solve>;
     try {
-      const [lhs, rhs] = method.expr.split("=").map((s) => s.trim());
-      if (!lhs || !rhs) throw new Error("Invalid Expression");
-      formVars.push({
-        key: randomId(),
-        name: lhs,
-        encoded: CustomMath.randomString(),
-        randomize: false,
-        isFinalAnswer: false,
-      });
-      console.log(`${index + 1})`, clean(encode(method.expr)));
-      evaluate(clean(encode(method.expr)), rawVariables);
+      results = Netlist.solve(circuit, (expr) =>
+        evaluate(clean(encode(expr)), { ...rawVariables })
+      );
     } catch (e) {
       throw new Error(
-        JSON.stringify({
-          message: e instanceof Error ? e.message : "Unknown Error",
-          index: index + 1,
-          expr: method.expr,
-          sanitized: clean(method.expr),
-          encoded: clean(encode(method.expr)),
-        }),
-        {
-          cause: "invalid-methods",
+        `Netlist could not be solved: ${
+          e instanceof Error ? e.message : "Unknown Error"
+        }`
+      );
+    }
+    for (const output of circuitOutputs) {
+      rawVariables[output.encoded] = results[output.name] as QuantityType;
+    }
+  };
+
+  // Evaluate all methods after encoding and cleaning them
+  const evaluateMethods = (rawVariables: { [key: string]: QuantityType }) => {
+    for (const [index, method] of methods.entries()) {
+      try {
+        const [lhs, rhs] = method.expr.split("=").map((s) => s.trim());
+        if (!lhs || !rhs) throw new Error("Invalid Expression");
+        if (!formVars.some((variable) => variable.name === lhs)) {
+          formVars.push(assignedVariable(lhs));
         }
+        evaluate(clean(encode(method.expr)), rawVariables);
+      } catch (e) {
+        throw new Error(
+          JSON.stringify({
+            message: e instanceof Error ? e.message : "Unknown Error",
+            index: index + 1,
+            expr: method.expr,
+            sanitized: clean(method.expr),
+            encoded: clean(encode(method.expr)),
+          }),
+          {
+            cause: "invalid-methods",
+          }
+        );
+      }
+    }
+  };
+
+  // Reason a sample is rejected, being a broken constraint or a final answer of 0 or NaN
+  const canResample =
+    toRandomize &&
+    variables.some((item) => item.randomize && !item.isFinalAnswer);
+  const rejection = (rawVariables: { [key: string]: QuantityType }) => {
+    for (const [index, constraint] of constraints.entries()) {
+      let holds: unknown;
+      try {
+        holds = evaluate(clean(encode(constraint.expr.trim())), {
+          ...rawVariables,
+        });
+      } catch (e) {
+        throw new Error(
+          `Constraint #${index + 1} could not be evaluated: ${
+            e instanceof Error ? e.message : "Unknown Error"
+          }`
+        );
+      }
+      if (typeof holds !== "boolean") {
+        throw new Error(
+          `Constraint #${index + 1} must be a comparison, such as R_1 > R_2`
+        );
+      }
+      if (!holds) {
+        return `constraint #${index + 1} (${constraint.expr.trim()}) is false`;
+      }
+    }
+
+    // Default values are not rejected for being 0, as they cannot be resampled
+    if (!canResample) return null;
+    for (const finalAnswer of variables.filter((item) => item.isFinalAnswer)) {
+      const value = rawVariables[finalAnswer.encoded];
+      if (value === undefined) continue;
+      let converted: ReturnType<typeof Units.convert>;
+      try {
+        converted = Units.convert(value, finalAnswer.unit);
+      } catch (e) {
+        continue;
+      }
+      const magnitude = CustomMath.isComplex(converted)
+        ? Math.hypot(converted.re, converted.im)
+        : Math.abs(converted);
+      if (magnitude === 0 || !isFinite(magnitude)) {
+        return `final answer ${finalAnswer.name} is 0 or not a number`;
+      }
+    }
+    return null;
+  };
+
+  // Resample until the values are accepted, up to a limit, keeping the inputs to the
+  // methods as misconceptions are evaluated from them as well
+  const rejections: { [reason: string]: number } = {};
+  let rawVariables: { [key: string]: QuantityType };
+  let inputs: { [key: string]: QuantityType };
+  for (let tries = 1; ; tries++) {
+    rawVariables = sampleVariables();
+    solveCircuit(rawVariables);
+    inputs = { ...rawVariables };
+    evaluateMethods(rawVariables);
+
+    const reason = rejection(rawVariables);
+    if (reason === null) break;
+    if (!canResample) {
+      throw new Error(`Default values are rejected as ${reason}`);
+    }
+    rejections[reason] = (rejections[reason] ?? 0) + 1;
+    if (tries >= MAX_TRIES) {
+      const [mostCommon] = Object.entries(rejections).sort(
+        (a, b) => b[1] - a[1]
+      )[0] ?? [reason];
+      throw new Error(
+        `No random values were accepted in ${MAX_TRIES} tries, most often as ${mostCommon}. Check the constraints and the ranges of the variables.`
       );
     }
   }
 
+  // Evaluate each misconception from the same inputs, swapping in the methods it gets wrong
+  const assigns = (expr: string) => expr.split("=")[0]?.trim() ?? "";
+  const misconceptionScopes = misconceptions.map((misconception) => {
+    const name = misconception.name.trim();
+    if (name.length === 0) {
+      throw new Error("Misconception names cannot be empty");
+    }
+    for (const method of misconception.methods) {
+      const variable = assigns(method.expr);
+      if (!methods.some((correct) => assigns(correct.expr) === variable)) {
+        throw new Error(
+          `Misconception "${name}" can only replace methods, but no method assigns ${variable}`
+        );
+      }
+    }
+
+    const scope = { ...inputs };
+    try {
+      for (const method of methods) {
+        const expr =
+          misconception.methods.find(
+            (wrong) => assigns(wrong.expr) === assigns(method.expr)
+          )?.expr ?? method.expr;
+        evaluate(clean(encode(expr.trim())), scope);
+      }
+    } catch (e) {
+      throw new Error(
+        `Misconception "${name}" could not be evaluated: ${
+          e instanceof Error ? e.message : "Unknown Error"
+        }`
+      );
+    }
+    return { name, feedback: misconception.feedback?.trim(), scope };
+  });
+
   // Filter out the final answers and generate 3 incorrect answers to view in the editor
   const finalAnswers = variables?.filter((item) => item.isFinalAnswer);
   if (finalAnswers.length == 0) {
@@ -132,13 +351,35 @@ export const CustomEval = (
   const editorAnswers = finalAnswers.map((finalAnswer) => {
     if (finalAnswer.decimalPlaces === undefined)
       throw new Error(`Invalid name or decimal places for ${finalAnswer.name}`);
+    const decimalPlaces = finalAnswer.decimalPlaces;
 
-    const finalValue = CustomMath.round(
-      Number(rawVariables[finalAnswer.encoded]),
-      finalAnswer.decimalPlaces
-    );
+    // Final answers are converted to their unit, which throws if the dimensions differ
+    let scaled: ReturnType<typeof Units.scale>;
+    try {
+      scaled = checkUnits
+        ? Units.scale(rawVariables[finalAnswer.encoded], finalAnswer.unit)
+        : {
+            value: Units.convert(rawVariables[finalAnswer.encoded]),
+            unit: finalAnswer.unit,
+          };
+    } catch (e) {
+      throw new Error(
+        `Final answer ${finalAnswer.name} ${
+          e instanceof Error ? e.message : "has invalid units"
+        }`
+      );
+    }
+
+    const rawValue = scaled.value;
+    const finalValue = CustomMath.isComplex(rawValue)
+      ? { re: rawValue.re, im: rawValue.im }
+      : CustomMath.round(Number(rawValue), decimalPlaces);
 
-    if (isNaN(finalValue)) {
+    if (
+      CustomMath.isComplex(finalValue)
+        ? isNaN(finalValue.re) || isNaN(finalValue.im)
+        : isNaN(finalValue)
+    ) {
       throw new Error(
         `Final answer ${finalAnswer.name} is not a number, please check that it is used in your methods correctly`
       );
@@ -153,12 +394,7 @@ export const CustomEval = (
       (finalAnswer.max ?? 90) / 100,
       (finalAnswer.step ?? 20) / 100
     )
-      .map((val) =>
-        CustomMath.round(
-          val,
-          finalAnswer.decimalPlaces ?? CustomMath.getDecimalPlaces(finalValue)
-        )
-      )
+      .map((val) => CustomMath.round(val, decimalPlaces))
       .filter((val) => val !== 0);
 
     if (incorrectRange.length < 3) {
@@ -171,25 +407,71 @@ export const CustomEval = (
       );
     }
 
-    console.log("[Random Incorrect Final Answers]");
+    // Complex distractors are off in both magnitude and phase
+    const distractor = (val: number) => {
+      if (!CustomMath.isComplex(finalValue)) {
+        return CustomMath.round(
+          finalValue * (1 + val),
+          decimalPlaces
+        ).toString();
+      }
+      const { magnitude, angle } = CustomMath.toPolar(finalValue);
+      const phaseShift = CustomMath.nRandomItems(
+        1,
+        PHASE_SHIFTS,
+        rng
+      )[0] as number;
+      return CustomMath.formatValue(
+        CustomMath.fromPolar(magnitude * (1 + val), angle + phaseShift),
+        decimalPlaces,
+        finalAnswer.complexFormat
+      );
+    };
+
     const incorrectAnswers = (
-      CustomMath.nRandomItems(3, incorrectRange) as number[]
-    ).map((val) =>
-      CustomMath.round(
-        finalValue * (1 + val),
-        finalAnswer.decimalPlaces ?? CustomMath.getDecimalPlaces(finalValue)
-      )
-    );
+      CustomMath.nRandomItems(3, incorrectRange, rng) as number[]
+    ).map(distractor);
+
+    // Results of each misconception in the same unit, or null if it is not a number
+    const misconceptionAnswers = misconceptionScopes.map(({ name, scope }) => {
+      let value: ReturnType<typeof Units.convert>;
+      try {
+        value = Units.convert(scope[finalAnswer.encoded], scaled.unit);
+      } catch (e) {
+        throw new Error(
+          `Final answer ${finalAnswer.name} of misconception "${name}" ${
+            e instanceof Error ? e.message : "has invalid units"
+          }`
+        );
+      }
+      const isNumber = CustomMath.isComplex(value)
+        ? !isNaN(value.re + value.im)
+        : !isNaN(value);
+      return isNumber
+        ? CustomMath.formatValue(
+            value,
+            decimalPlaces,
+            finalAnswer.complexFormat
+          )
+        : null;
+    });
 
-    console.log(finalAnswer.name, incorrectRange, incorrectAnswers);
     return {
       ...finalAnswer,
-      answerContent: finalValue,
+      unit: scaled.unit,
+      value: finalValue,
+      answerContent: CustomMath.formatValue(
+        finalValue,
+        decimalPlaces,
+        finalAnswer.complexFormat
+      ),
       isCorrect: true,
       isLatex: true,
       incorrectRange,
+      distractor,
+      misconceptionAnswers,
       incorrectAnswers: incorrectAnswers.map((val) => ({
-        key: randomId(),
+        key: randomKey(),
         answerContent: val,
         isCorrect: false,
         isLatex: true,
@@ -197,70 +479,182 @@ export const CustomEval = (
     };
   });
 
-  // For all final answers, generate 1 correct and 3 incorrect options joined into LaTeX strings
-  const correctOption = editorAnswers
-    .map((item) => {
-      return `${item.name} ${item.unit ? "~(" + item.unit + ")" : ""} = ${
-        item.answerContent
-      }`;
-    })
-    .join(",~");
-
-  const incorrectOptions = Array.from(Array(3).keys()).map(() => {
-    return editorAnswers
+  // Options of a question, or of a part asking for some of the final answers
+  const options = (answers: typeof editorAnswers) => {
+    // For the final answers, generate 1 correct and 3 incorrect options joined into LaTeX strings
+    const correctOption = answers
       .map((item) => {
-        const incorrectRange = CustomMath.shuffleArray(
-          item.incorrectRange
-        ) as number[];
-        const incorrectAnswer = incorrectRange.pop();
-        if (incorrectAnswer === undefined) {
-          throw new Error("Not enough wrong answers");
-        }
-        return `${item.name} ${
-          item.unit ? "~(" + item.unit + ")" : ""
-        } = ${CustomMath.round(
-          item.answerContent * (1 + incorrectAnswer),
-          item.decimalPlaces ?? CustomMath.getDecimalPlaces(item.answerContent)
-        )}`;
+        return `${item.name} ${item.unit ? "~(" + item.unit + ")" : ""} = ${
+          item.answerContent
+        }`;
       })
       .join(",~");
-  });
+
+    // Misconceptions become distractors first, in random order, skipping any with a
+    // result that is not a number or that repeats another option
+    const misconceptionCandidates = misconceptionScopes.flatMap(
+      ({ name, feedback }, index) => {
+        if (answers.some((item) => !item.misconceptionAnswers[index])) {
+          return [];
+        }
+        const answerContent = answers
+          .map((item) => {
+            return `${item.name} ${item.unit ? "~(" + item.unit + ")" : ""} = ${
+              item.misconceptionAnswers[index]
+            }`;
+          })
+          .join(",~");
+        return [{ name, feedback, answerContent }];
+      }
+    );
+    CustomMath.shuffleArray(misconceptionCandidates, rng);
+
+    const usedOptions = new Set([correctOption]);
+    const misconceptionOptions = misconceptionCandidates
+      .filter(({ answerContent }) => {
+        if (usedOptions.has(answerContent)) return false;
+        usedOptions.add(answerContent);
+        return true;
+      })
+      .slice(0, 3);
+
+    // Random distractors fill the remaining slots, skipping any that read the same as
+    // another option after rounding
+    const incorrectOptions: string[] = [];
+    while (misconceptionOptions.length + incorrectOptions.length < 3) {
+      const incorrectOption = answers
+        .map((item) => {
+          const incorrectRange = CustomMath.shuffleArray(
+            item.incorrectRange,
+            rng
+          ) as number[];
+          const incorrectAnswer = incorrectRange.pop();
+          if (incorrectAnswer === undefined) {
+            throw new Error(
+              `Not enough distinct wrong answers for ${item.name}. Try increasing the decimal places, step size or range.`
+            );
+          }
+          return `${item.name} ${
+            item.unit ? "~(" + item.unit + ")" : ""
+          } = ${item.distractor(incorrectAnswer)}`;
+        })
+        .join(",~");
+      if (usedOptions.has(incorrectOption)) continue;
+      usedOptions.add(incorrectOption);
+      incorrectOptions.push(incorrectOption);
+    }
+
+    return {
+      misconceptionOptions,
+      answers: [
+        {
+          key: randomKey(),
+          answerContent: correctOption,
+          isCorrect: true,
+          isLatex: true,
+        },
+        ...misconceptionOptions.map((item) => ({
+          key: randomKey(),
+          answerContent: item.answerContent,
+          isCorrect: false,
+          isLatex: true,
+          misconception: item.name,
+          feedback: item.feedback || undefined,
+        })),
+        ...incorrectOptions.map((item) => ({
+          key: randomKey(),
+          answerContent: item,
+          isCorrect: false,
+          isLatex: true,
+        })),
+      ],
+    };
+  };
 
   // Clean up variables and final answers for frontend integration
   // TODO: Consider non-number defaults, show original str expr in var but eval in answer
   const questionVariables = variables
     .filter((item) => !item.isFinalAnswer)
     .map((item) => {
+      const rawValue = Units.detach(rawVariables[item.encoded], item.unit);
+      // Values picked from a value set are shown exactly
+      const decimalPlaces =
+        item.randomize && item.valueSet && typeof rawValue === "number"
+          ? CustomMath.getDecimalPlaces(rawValue)
+          : item?.decimalPlaces ?? 3;
       return {
         ...item,
-        default: CustomMath.round(
-          Number(rawVariables[item.encoded]),
-          item?.decimalPlaces ?? 3
-        ).toString(),
+        default: CustomMath.formatValue(
+          CustomMath.isComplex(rawValue) ? rawValue : Number(rawValue),
+          decimalPlaces,
+          item.complexFormat
+        ),
       };
     });
 
-  const questionAnswers = [
-    {
-      key: randomId(),
-      answerContent: correctOption,
-      isCorrect: true,
-      isLatex: true,
-    },
-    ...incorrectOptions.map((item) => ({
-      key: randomId(),
-      answerContent: item,
-      isCorrect: false,
-      isLatex: true,
-    })),
-  ];
+  // Multi-part questions get options for each part, or the evaluated final answers of
+  // free-response parts, tagged with the part they belong to
+  let misconceptionOptions: ReturnType<typeof options>["misconceptionOptions"];
+  let questionAnswers: QuestionDataType["answers"];
+  if (parts.length === 0) {
+    ({ misconceptionOptions, answers: questionAnswers } =
+      options(editorAnswers));
+  } else {
+    QuestionParts.validate(parts, variables);
+    misconceptionOptions = [];
+    questionAnswers = parts.flatMap((part) => {
+      const answers = editorAnswers.filter((item) =>
+        part.finalAnswers.includes(item.key)
+      );
+      if (part.answerMode === "FreeResponse") {
+        return FreeResponse.answers(answers).map((answer) => ({
+          ...answer,
+          part: part.key,
+        }));
+      }
+      const partOptions = options(answers);
+      misconceptionOptions.push(...partOptions.misconceptionOptions);
+      return partOptions.answers.map((answer) => ({
+        ...answer,
+        part: part.key,
+      }));
+    });
+  }
 
-  console.log("[GENERATED VARIABLES]", questionVariables);
-  console.log("[GENERATED ANSWERS]", questionAnswers);
+  // Values of every variable, including those the methods assign, for worked solutions
+  const values: { [name: string]: string } = {};
+  for (const variable of formVars) {
+    const value = rawVariables[variable.encoded];
+    if (value === undefined) continue;
+    if (!checkUnits) {
+      values[variable.name] = `${Units.format(
+        value,
+        variable.decimalPlaces ?? 3
+      )}${variable.unit ? `~${variable.unit}` : ""}`;
+      continue;
+    }
+    try {
+      values[variable.name] = Units.format(
+        value,
+        variable.decimalPlaces ?? 3,
+        variable.unit
+      );
+    } catch (e) {
+      values[variable.name] = Units.format(value, variable.decimalPlaces ?? 3);
+    }
+  }
+
+  if (log) {
+    console.log("[GENERATED VARIABLES]", questionVariables);
+    console.log("[GENERATED ANSWERS]", questionAnswers);
+  }
 
   return {
+    seed,
     questionVariables,
     editorAnswers,
+    misconceptionOptions,
     questionAnswers,
+    values,
   };
 };
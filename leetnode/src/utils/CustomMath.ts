@@ -1,3 +1,16 @@
+// Complex number as evaluated by mathjs, with the imaginary unit written as j
+export type ComplexValue = { re: number; im: number };
+
+// Preferred number series for components, eg. E12 resistors are 1.0, 1.2, 1.5, ... x 10^n
+const E_SERIES = {
+  E6: [1.0, 1.5, 2.2, 3.3, 4.7, 6.8],
+  E12: [1.0, 1.2, 1.5, 1.8, 2.2, 2.7, 3.3, 3.9, 4.7, 5.6, 6.8, 8.2],
+  E24: [
+    1.0, 1.1, 1.2, 1.3, 1.5, 1.6, 1.8, 2.0, 2.2, 2.4, 2.7, 3.0, 3.3, 3.6, 3.9,
+    4.3, 4.7, 5.1, 5.6, 6.2, 6.8, 7.5, 8.2, 9.1,
+  ],
+};
+
 // Accurate decimal rounding & custom math helper functions
 // https://stackoverflow.com/a/48764436/10928890
 export const CustomMath = (function () {
@@ -28,24 +41,88 @@ export const CustomMath = (function () {
     toFixed: function (num: number, decimalPlaces: number) {
       return this.round(num, decimalPlaces).toFixed(decimalPlaces);
     },
+    /** Seeded PRNG (mulberry32) returning numbers in [0, 1) like Math.random **/
+    seededRandom: function (seed: number) {
+      let state = seed >>> 0;
+      return function () {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    },
+    /** Random seed that fits in a signed 32-bit integer column **/
+    randomSeed: function () {
+      return Math.floor(Math.random() * 2147483647);
+    },
     /** Random number between min and max with rounding to decimalPlaces **/
-    random: function (min: number, max: number, decimalPlaces: number) {
+    random: function (
+      min: number,
+      max: number,
+      decimalPlaces: number,
+      rng = Math.random
+    ) {
       if (min == 0 && max == 0) return 0;
-      return this.round(Math.random() * (max - min) + min, decimalPlaces);
+      return this.round(rng() * (max - min) + min, decimalPlaces);
     },
     /** Randomly shuffles an array **/
-    shuffleArray: function (array: unknown[]) {
+    shuffleArray: function (array: unknown[], rng = Math.random) {
       for (let i = array.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(rng() * (i + 1));
         [array[i], array[j]] = [array[j], array[i]];
       }
       return array;
     },
     /** Selects the first n items from a shuffled array **/
-    nRandomItems: function (n: number, array: unknown[]) {
-      const shuffled = this.shuffleArray(array);
+    nRandomItems: function (n: number, array: unknown[], rng = Math.random) {
+      const shuffled = this.shuffleArray(array, rng);
       return shuffled.slice(0, n);
     },
+    /** Selects 1 item with probability proportional to its weight **/
+    weightedRandomItem: function <T>(items: T[], weights: number[]) {
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      if (total <= 0) return this.nRandomItems(1, items)[0] as T | undefined;
+      let threshold = Math.random() * total;
+      for (const [index, item] of items.entries()) {
+        threshold -= weights[index] ?? 0;
+        if (threshold < 0) return item;
+      }
+      return items[items.length - 1];
+    },
+    /** Linearly interpolated quantile (0 to 1) of an unsorted array **/
+    quantile: function (values: number[], q: number) {
+      if (values.length === 0) return NaN;
+      const sorted = [...values].sort((a, b) => a - b);
+      const position = (sorted.length - 1) * q;
+      const lower = Math.floor(position);
+      const upper = Math.ceil(position);
+      return (
+        (sorted[lower] as number) +
+        ((sorted[upper] as number) - (sorted[lower] as number)) *
+          (position - lower)
+      );
+    },
+    /** Values of an E-series between min and max (inclusive), across decades **/
+    preferredValues: function (
+      series: keyof typeof E_SERIES,
+      min: number,
+      max: number
+    ) {
+      if (!(min > 0) || !(max >= min)) return [];
+      const result = [];
+      for (
+        let decade = Math.floor(Math.log10(min));
+        decade <= Math.floor(Math.log10(max));
+        decade++
+      ) {
+        for (const value of E_SERIES[series]) {
+          const scaled = Number((value * Math.pow(10, decade)).toPrecision(2));
+          if (scaled >= min && scaled <= max) result.push(scaled);
+        }
+      }
+      return result;
+    },
     /** Generates an array of numbers between min and max with step **/
     generateRange: function (min: number, max: number, step: number) {
       if (step === 0) throw new Error("Step cannot be 0");
@@ -56,18 +133,63 @@ export const CustomMath = (function () {
       }
       return result;
     },
+    /** Checks if a value is a complex number rather than a real one **/
+    isComplex: function (value: unknown): value is ComplexValue {
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        "re" in value &&
+        "im" in value
+      );
+    },
+    /** Magnitude and angle (degrees) of a complex number **/
+    toPolar: function ({ re, im }: ComplexValue) {
+      return {
+        magnitude: Math.hypot(re, im),
+        angle: (Math.atan2(im, re) * 180) / Math.PI,
+      };
+    },
+    /** Complex number from its magnitude and angle (degrees) **/
+    fromPolar: function (magnitude: number, angle: number): ComplexValue {
+      const radians = (angle * Math.PI) / 180;
+      return {
+        re: magnitude * Math.cos(radians),
+        im: magnitude * Math.sin(radians),
+      };
+    },
+    /** LaTeX of a real value, or a complex one in rectangular (a + jb) or polar (r∠θ°) form **/
+    formatValue: function (
+      value: number | ComplexValue,
+      decimalPlaces: number,
+      complexFormat?: "Rectangular" | "Polar"
+    ) {
+      if (!this.isComplex(value)) {
+        return this.round(value, decimalPlaces).toString();
+      }
+      if (complexFormat === "Polar") {
+        const { magnitude, angle } = this.toPolar(value);
+        return `${this.round(magnitude, decimalPlaces)} \\angle ${this.round(
+          angle,
+          decimalPlaces
+        )}^{\\circ}`;
+      }
+      const im = this.round(value.im, decimalPlaces);
+      return `${this.round(value.re, decimalPlaces)} ${
+        im < 0 ? "-" : "+"
+      } j${Math.abs(im)}`;
+    },
     /** Get number of decimal places from an integer or float **/
     getDecimalPlaces: function (num: number) {
       const decimalIndex = num.toString().indexOf(".");
       return decimalIndex === -1 ? 0 : num.toString().length - decimalIndex - 1;
     },
     /** Generate random n-length string. NOT FOR SECURE USAGES! **/
-    randomString: function (len?: number, chars?: string) {
+    randomString: function (len?: number, chars?: string, rng = Math.random) {
       const allowed_chars =
         chars ?? "ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖØÙÚÛÜÝÞßàáâãäåæçèéêëìíîïðñòóôõö";
 
       function pickRandom() {
-        return allowed_chars[Math.floor(Math.random() * allowed_chars.length)];
+        return allowed_chars[Math.floor(rng() * allowed_chars.length)];
       }
 
       return [...Array(len ?? 8)].map(pickRandom).join("");
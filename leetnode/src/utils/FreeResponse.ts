@@ -0,0 +1,143 @@
+import { QuestionDataType } from "@/types/question-types";
+
+import { CustomMath } from "./CustomMath";
+import { Units } from "./Units";
+
+type FinalAnswerType = QuestionDataType["variables"][number];
+
+// Percentage tolerance when a final answer does not set its own
+export const DEFAULT_TOLERANCE = 1;
+
+// Slack for floating point error when scaling by SI prefixes
+const EPSILON = 1e-9;
+
+const SI_PREFIXES: { [prefix: string]: number } = {
+  T: 1e12,
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  m: 1e-3,
+  u: 1e-6,
+  µ: 1e-6,
+  μ: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+};
+
+// Readings of a unit as [scale, base unit], with and without a leading SI prefix
+const withPrefixes = (unit: string): [number, string][] => {
+  const scale = SI_PREFIXES[unit.charAt(0)];
+  return scale !== undefined && unit.length > 1
+    ? [
+        [1, unit],
+        [scale, unit.slice(1)],
+      ]
+    : [[1, unit]];
+};
+
+export const FreeResponse = {
+  /**
+   * Reads a typed number with an optional SI prefix or unit (eg. "4.7k", "3.3 mA"),
+   * in the unit of the final answer. Returns null if it cannot be read.
+   */
+  parse: function (response: string, unit?: string) {
+    const match = response
+      .trim()
+      .match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(.*)$/i);
+    if (!match) return null;
+
+    const value = Number(match[1]);
+    const typedUnit = Units.normalize(match[2] ?? "");
+    if (typedUnit.length === 0) return value;
+
+    // Both the typed unit and the final answer's unit may carry an SI prefix
+    const answerUnit = Units.normalize(unit ?? "");
+    for (const [answerScale, answerBase] of withPrefixes(answerUnit)) {
+      for (const [typedScale, typedBase] of withPrefixes(typedUnit)) {
+        if (answerBase.length > 0 && typedBase === answerBase) {
+          return (value * typedScale) / answerScale;
+        }
+      }
+    }
+
+    // Otherwise a bare prefix scales the number
+    const scale = SI_PREFIXES[typedUnit];
+    return scale !== undefined ? value * scale : null;
+  },
+  /** Checks if a value is within the final answer's relative (%) or absolute tolerance **/
+  isWithinTolerance: function (
+    value: number,
+    expected: number,
+    finalAnswer?: FinalAnswerType
+  ) {
+    const tolerance = finalAnswer?.tolerance ?? DEFAULT_TOLERANCE;
+    const bound =
+      finalAnswer?.toleranceType === "Absolute"
+        ? tolerance
+        : (tolerance / 100) * Math.abs(expected);
+    return Math.abs(value - expected) <= bound + EPSILON * Math.abs(expected);
+  },
+  /** Grades one typed response against its evaluated final answer **/
+  isCorrect: function (
+    response: string | undefined,
+    answer: QuestionDataType["answers"][number],
+    variables: QuestionDataType["variables"]
+  ) {
+    const finalAnswer = variables.find(
+      (variable) => variable.key === answer.key
+    );
+    const value = this.parse(response ?? "", finalAnswer?.unit);
+    const expected = this.parse(answer.answerContent, finalAnswer?.unit);
+    return (
+      value !== null &&
+      expected !== null &&
+      this.isWithinTolerance(value, expected, finalAnswer)
+    );
+  },
+  /** Grades typed responses, where every final answer must be correct **/
+  grade: function (
+    responses: { [key: string]: string },
+    answers: QuestionDataType["answers"],
+    variables: QuestionDataType["variables"]
+  ) {
+    return answers.every((answer) =>
+      this.isCorrect(responses[answer.key], answer, variables)
+    );
+  },
+  /** Throws if a final answer asked for in free response, by the question or any of its parts, is complex, which cannot be typed in **/
+  checkReal: function (
+    questionData: Pick<QuestionDataType, "answerMode" | "parts">,
+    finalAnswers: { key: string; name: string; value: unknown }[]
+  ) {
+    const isFreeResponse = (key: string) =>
+      questionData.parts && questionData.parts.length > 0
+        ? questionData.parts.some(
+            (part) =>
+              part.answerMode === "FreeResponse" &&
+              part.finalAnswers.includes(key)
+          )
+        : questionData.answerMode === "FreeResponse";
+    const complexAnswer = finalAnswers.find(
+      (item) => isFreeResponse(item.key) && CustomMath.isComplex(item.value)
+    );
+    if (complexAnswer) {
+      throw new Error(
+        `Final answer ${complexAnswer.name} is complex, which is only supported for multiple choice`
+      );
+    }
+  },
+  /** Evaluated final answers, with any rescaled unit, to store against a student's free-response question **/
+  answers: function (
+    finalAnswers: { key: string; answerContent: string; unit?: string }[]
+  ): QuestionDataType["answers"] {
+    return finalAnswers.map((finalAnswer) => ({
+      key: finalAnswer.key,
+      answerContent: finalAnswer.unit
+        ? `${finalAnswer.answerContent}~${finalAnswer.unit}`
+        : finalAnswer.answerContent,
+      isCorrect: true,
+      isLatex: false,
+    }));
+  },
+};
@@ -0,0 +1,32 @@
+import { QuestionDataType, WithheldHintType } from "@/types/question-types";
+import { Course, HintCredit } from "@prisma/client";
+
+// Least credit that counts as correct where responses can only be correct or incorrect
+export const PASSING_CREDIT = 0.5;
+
+// Hints revealed one at a time, with the text of those not yet revealed kept on the server
+export const Hints = {
+  /** Hints of a question, withholding the text of those the student has not revealed **/
+  withhold: function (
+    questionData: QuestionDataType,
+    revealedKeys: string[]
+  ): WithheldHintType[] {
+    return (questionData.hints ?? []).map((item) => ({
+      key: item.key,
+      hint: revealedKeys.includes(item.key) ? item.hint : null,
+    }));
+  },
+  /** First hint of a question that the student has not revealed yet **/
+  next: function (questionData: QuestionDataType, revealedKeys: string[]) {
+    return questionData.hints?.find((item) => !revealedKeys.includes(item.key));
+  },
+  /** Share of a correct answer that counts towards mastery, by how the course credits hinted answers **/
+  credit: function (
+    course: Pick<Course, "hintCredit" | "hintPartialCredit">,
+    hintsUsed: number
+  ) {
+    if (hintsUsed === 0 || course.hintCredit === HintCredit.Full) return 1;
+    if (course.hintCredit === HintCredit.Incorrect) return 0;
+    return Math.min(1, Math.max(0, course.hintPartialCredit));
+  },
+};
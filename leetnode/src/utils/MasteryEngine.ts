@@ -0,0 +1,203 @@
+import axios from "axios";
+
+import { env } from "@/env/server.mjs";
+import { prisma } from "@/server/db/client";
+
+import { BKT } from "./BKT";
+import { PASSING_CREDIT } from "./Hints";
+
+export interface MasteryEngine {
+  /** Registers a student for a topic and returns their starting mastery */
+  init: (userId: string, topicSlug: string) => Promise<number>;
+  /** Records one response and returns the student's new mastery, crediting
+   * correct responses by a share below 1 when they were given with hints */
+  update: (
+    userId: string,
+    topicSlug: string,
+    isCorrect: boolean,
+    credit?: number
+  ) => Promise<number>;
+  /** Returns the mastery that update would return for a response, without recording it */
+  predict: (
+    userId: string,
+    topicSlug: string,
+    isCorrect: boolean,
+    credit?: number
+  ) => Promise<number>;
+  /** Returns the student's current mastery for a topic */
+  get: (userId: string, topicSlug: string) => Promise<number>;
+  /** Returns the student's current mastery for every topic */
+  getAll: (userId: string) => Promise<Record<string, number>>;
+}
+
+const getTopicParams = async (topicSlug: string) => {
+  const topic = await prisma.topic.findUnique({
+    where: {
+      topicSlug: topicSlug,
+    },
+    select: {
+      topicPrior: true,
+      topicLearn: true,
+      topicGuess: true,
+      topicSlip: true,
+    },
+  });
+
+  if (!topic) {
+    throw new Error(`Invalid topic slug: ${topicSlug}`);
+  }
+
+  return BKT.paramsFromTopic(topic);
+};
+
+const saveMastery = (userId: string, topicSlug: string, masteryLevel: number) =>
+  prisma.mastery.upsert({
+    where: {
+      userId_topicSlug: {
+        userId: userId,
+        topicSlug: topicSlug,
+      },
+    },
+    update: {
+      masteryLevel: masteryLevel,
+    },
+    create: {
+      userId: userId,
+      topicSlug: topicSlug,
+      masteryLevel: masteryLevel,
+    },
+  });
+
+// Mastery after one response, traced with BKT from the student's mastery in the Mastery table
+const traceMastery = async (
+  userId: string,
+  topicSlug: string,
+  isCorrect: boolean,
+  credit: number
+) => {
+  const [params, mastery] = await Promise.all([
+    getTopicParams(topicSlug),
+    prisma.mastery.findUnique({
+      where: {
+        userId_topicSlug: {
+          userId: userId,
+          topicSlug: topicSlug,
+        },
+      },
+    }),
+  ]);
+
+  return BKT.updateWithCredit(
+    mastery?.masteryLevel ?? params.prior,
+    isCorrect ? credit : 0,
+    params
+  );
+};
+
+// Computes BKT in-process, using the Mastery table as the student state
+export const LocalMasteryEngine: MasteryEngine = {
+  init: async (userId, topicSlug) => {
+    const mastery = await prisma.mastery.findUnique({
+      where: {
+        userId_topicSlug: {
+          userId: userId,
+          topicSlug: topicSlug,
+        },
+      },
+    });
+    if (mastery) return mastery.masteryLevel;
+
+    const { prior } = await getTopicParams(topicSlug);
+    await saveMastery(userId, topicSlug, prior);
+    return prior;
+  },
+  update: async (userId, topicSlug, isCorrect, credit = 1) => {
+    const masteryLevel = await traceMastery(
+      userId,
+      topicSlug,
+      isCorrect,
+      credit
+    );
+    await saveMastery(userId, topicSlug, masteryLevel);
+    return masteryLevel;
+  },
+  predict: async (userId, topicSlug, isCorrect, credit = 1) =>
+    traceMastery(userId, topicSlug, isCorrect, credit),
+  get: async (userId, topicSlug) => LocalMasteryEngine.init(userId, topicSlug),
+  getAll: async (userId) => {
+    const [topics, masteries] = await Promise.all([
+      prisma.topic.findMany({
+        select: {
+          topicSlug: true,
+          topicPrior: true,
+        },
+      }),
+      prisma.mastery.findMany({
+        where: {
+          userId: userId,
+        },
+      }),
+    ]);
+
+    return topics.reduce((acc, { topicSlug, topicPrior }) => {
+      acc[topicSlug] =
+        masteries.find((mastery) => mastery.topicSlug === topicSlug)
+          ?.masteryLevel ?? topicPrior;
+      return acc;
+    }, {} as Record<string, number>);
+  },
+};
+
+const pybkt = axios.create({
+  baseURL: env.RECOMMENDER_URL,
+  headers: {
+    Accept: "application/json",
+    access_token: env.RECOMMENDER_API_KEY,
+  },
+});
+
+// Delegates to the PyBKT recommender microservice, mirroring results into the Mastery table
+export const PyBKTMasteryEngine: MasteryEngine = {
+  // get-mastery adds the student to the roster if they don't exist yet
+  init: async (userId, topicSlug) => PyBKTMasteryEngine.get(userId, topicSlug),
+  // PyBKT only takes correct or incorrect responses, so partly credited ones are rounded
+  update: async (userId, topicSlug, isCorrect, credit = 1) => {
+    const { data } = await pybkt.patch<{ Updated: boolean }>(
+      `/update-state/${userId}/${topicSlug}/${
+        isCorrect && credit >= PASSING_CREDIT ? "1" : "0"
+      }`
+    );
+    if (!data || !data.Updated) {
+      throw new Error("PyBKT API update unsuccessful");
+    }
+    return PyBKTMasteryEngine.get(userId, topicSlug);
+  },
+  // PyBKT cannot preview a response, so it is traced locally from the mirrored mastery
+  predict: async (userId, topicSlug, isCorrect, credit = 1) =>
+    traceMastery(userId, topicSlug, isCorrect && credit >= PASSING_CREDIT, 1),
+  get: async (userId, topicSlug) => {
+    const { data } = await pybkt.get<{ Mastery: number }>(
+      `/get-mastery/${userId}/${topicSlug}`
+    );
+    if (!data || data.Mastery == null) {
+      throw new Error("PyBKT API get unsuccessful");
+    }
+    await saveMastery(userId, topicSlug, data.Mastery);
+    return data.Mastery;
+  },
+  getAll: async (userId) => {
+    const { data } = await pybkt.get<{ Mastery: Record<string, number> }>(
+      `/get-all/${userId}`
+    );
+    await Promise.all(
+      Object.entries(data.Mastery).map(([topicSlug, masteryLevel]) =>
+        saveMastery(userId, topicSlug, masteryLevel)
+      )
+    );
+    return data.Mastery;
+  },
+};
+
+/** Returns the engine selected by the MASTERY_ENGINE env var */
+export const getMasteryEngine = (): MasteryEngine =>
+  env.MASTERY_ENGINE === "pybkt" ? PyBKTMasteryEngine : LocalMasteryEngine;
@@ -0,0 +1,353 @@
+import {
+  abs,
+  add,
+  complex,
+  Complex,
+  divide,
+  isUnit,
+  multiply,
+  subtract,
+  unaryMinus,
+  Unit,
+  unit,
+} from "mathjs";
+
+import { CustomMath } from "./CustomMath";
+import { QuantityType } from "./Units";
+
+// Names of the ground node, which is always at 0 V
+const GROUND = ["0", "gnd", "GND"];
+
+// Pivots smaller than this (relative to the largest entry) mean the circuit has no unique solution
+const SINGULAR_TOLERANCE = 1e-12;
+
+// Unit that the value of each kind of element must have, if it has one
+const ELEMENT_UNITS: { [kind: string]: string | null } = {
+  R: "ohm",
+  L: "H",
+  C: "F",
+  V: "V",
+  I: "A",
+  E: null, // Voltage gain
+  G: "S", // Transconductance
+};
+
+export type NetlistElementType = {
+  name: string; // eg. R1, the first letter being the kind of element
+  kind: keyof typeof ELEMENT_UNITS;
+  nodes: [string, string];
+  controlNodes?: [string, string]; // Dependent sources only
+  expr: string; // Value, written with the question's variables
+};
+
+export type NetlistType = {
+  elements: NetlistElementType[];
+  omega?: string; // Angular frequency (rad/s) of an AC analysis, DC unless set
+};
+
+// Value of an element in SI units, checking that its unit matches its kind
+const toSI = (
+  element: NetlistElementType,
+  value: QuantityType | undefined
+): Complex => {
+  const expected = ELEMENT_UNITS[element.kind];
+  if (isUnit(value)) {
+    if (!expected || !value.equalBase(unit(expected))) {
+      throw new Error(
+        `${element.name} has units of ${value.formatUnits()}, expected ${
+          expected ?? "no units"
+        }`
+      );
+    }
+    return complex(value.value as unknown as number);
+  }
+  if (typeof value === "number" || CustomMath.isComplex(value)) {
+    return complex(value as number);
+  }
+  throw new Error(`${element.name} does not have a numeric value`);
+};
+
+// Arithmetic on the complex entries of the circuit equations
+const C = {
+  abs: (a: Complex) => abs(a) as unknown as number,
+  add: (a: Complex, b: Complex) => add(a, b) as Complex,
+  sub: (a: Complex, b: Complex) => subtract(a, b) as Complex,
+  mul: (a: Complex, b: Complex) => multiply(a, b) as Complex,
+  div: (a: Complex, b: Complex) => divide(a, b) as Complex,
+  neg: (a: Complex) => unaryMinus(a) as Complex,
+};
+
+// Real results of DC analyses are kept as numbers, with their unit attached
+const withUnit = (value: Complex, name: string): QuantityType => {
+  const numeric =
+    Math.abs(value.im) <= 1e-12 * Math.abs(value.re) ? value.re : value;
+  return multiply(numeric, unit(name)) as Unit;
+};
+
+// Solves A x = b by Gaussian elimination with partial pivoting
+const gaussianElimination = (A: Complex[][], b: Complex[]) => {
+  const n = b.length;
+  const scale = Math.max(1, ...A.flat().map((entry) => C.abs(entry)));
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (C.abs(A[row]?.[col] as Complex) > C.abs(A[pivot]?.[col] as Complex)) {
+        pivot = row;
+      }
+    }
+    if (C.abs(A[pivot]?.[col] as Complex) < SINGULAR_TOLERANCE * scale) {
+      return null;
+    }
+    [A[col], A[pivot]] = [A[pivot] as Complex[], A[col] as Complex[]];
+    [b[col], b[pivot]] = [b[pivot] as Complex, b[col] as Complex];
+
+    const pivotRow = A[col] as Complex[];
+    for (let row = col + 1; row < n; row++) {
+      const currentRow = A[row] as Complex[];
+      const factor = C.div(
+        currentRow[col] as Complex,
+        pivotRow[col] as Complex
+      );
+      for (let k = col; k < n; k++) {
+        currentRow[k] = C.sub(
+          currentRow[k] as Complex,
+          C.mul(factor, pivotRow[k] as Complex)
+        );
+      }
+      b[row] = C.sub(b[row] as Complex, C.mul(factor, b[col] as Complex));
+    }
+  }
+
+  const x: Complex[] = Array(n).fill(complex(0));
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row] as Complex;
+    for (let k = row + 1; k < n; k++) {
+      sum = C.sub(sum, C.mul(A[row]?.[k] as Complex, x[k] as Complex));
+    }
+    x[row] = C.div(sum, A[row]?.[row] as Complex);
+  }
+  return x;
+};
+
+// SPICE-like circuit descriptions, solved by modified nodal analysis
+export const Netlist = {
+  /**
+   * Parses a netlist with 1 element per line, such as "R1 in out R_1" or "E1 out 0 in 0 A_v"
+   * (voltage-controlled sources list their control nodes before the gain). Lines starting
+   * with * are comments, and ".ac ω" sets the angular frequency of an AC analysis.
+   */
+  parse: function (text: string): NetlistType {
+    const netlist: NetlistType = { elements: [] };
+    const names = new Set<string>();
+    for (const [index, rawLine] of text.split("\n").entries()) {
+      const line = rawLine.trim();
+      if (line.length === 0 || line.startsWith("*")) continue;
+
+      const tokens = line.split(/\s+/);
+      const [name = "", ...rest] = tokens;
+      if (name.toLowerCase() === ".ac") {
+        if (rest.length === 0) {
+          throw new Error(`Line ${index + 1}: .ac needs an angular frequency`);
+        }
+        netlist.omega = rest.join(" ");
+        continue;
+      }
+      if (name.toLowerCase() === ".op" || name.toLowerCase() === ".end") {
+        continue;
+      }
+
+      const kind = name.charAt(0).toUpperCase();
+      if (!(kind in ELEMENT_UNITS)) {
+        throw new Error(
+          `Line ${
+            index + 1
+          }: ${name} is not a supported element (R, L, C, V, I, E or G)`
+        );
+      }
+      if (names.has(name)) {
+        throw new Error(`Line ${index + 1}: ${name} is defined twice`);
+      }
+      names.add(name);
+
+      const isDependent = kind === "E" || kind === "G";
+      const nodeCount = isDependent ? 4 : 2;
+      if (rest.length < nodeCount + 1) {
+        throw new Error(
+          `Line ${index + 1}: ${name} needs ${nodeCount} nodes and a value`
+        );
+      }
+      netlist.elements.push({
+        name,
+        kind,
+        nodes: [rest[0] as string, rest[1] as string],
+        controlNodes: isDependent
+          ? [rest[2] as string, rest[3] as string]
+          : undefined,
+        expr: rest.slice(nodeCount).join(" "),
+      });
+    }
+
+    if (netlist.elements.length === 0) {
+      throw new Error("The netlist has no elements");
+    }
+    return netlist;
+  },
+  /** Names that the node voltages and branch currents of a netlist are solved into **/
+  outputs: function (netlist: NetlistType) {
+    const nodes = new Set<string>();
+    for (const element of netlist.elements) {
+      [...element.nodes, ...(element.controlNodes ?? [])]
+        .filter((node) => !GROUND.includes(node))
+        .forEach((node) => nodes.add(node));
+    }
+    return {
+      nodes: Array.from(nodes),
+      voltages: Array.from(nodes, (node) => `V_{${node}}`),
+      currents: netlist.elements.map((element) => `I_{${element.name}}`),
+    };
+  },
+  /**
+   * Solves a netlist for its node voltages (eg. V_{out}) and the currents through its
+   * elements (eg. I_{R1}, flowing from the first node to the second), with their units.
+   * Values of the elements are evaluated with valueOf. In DC analyses, inductors are
+   * shorts and capacitors are open.
+   */
+  solve: function (
+    netlist: NetlistType,
+    valueOf: (expr: string) => QuantityType | undefined
+  ) {
+    const { nodes, voltages, currents } = this.outputs(netlist);
+    const index = (node: string) =>
+      GROUND.includes(node) ? -1 : nodes.indexOf(node);
+
+    // Angular frequency, from rad/s, Hz or a plain number
+    let omega = 0;
+    if (netlist.omega !== undefined) {
+      const value = valueOf(netlist.omega);
+      if (isUnit(value)) {
+        if (value.equalBase(unit("Hz"))) {
+          omega = 2 * Math.PI * Number(value.value);
+        } else if (value.equalBase(unit("rad/s"))) {
+          omega = Number(value.value);
+        } else {
+          throw new Error(
+            `.ac has units of ${value.formatUnits()}, expected rad/s or Hz`
+          );
+        }
+      } else {
+        omega = Number(value);
+      }
+      if (!(omega > 0)) {
+        throw new Error(".ac needs a positive angular frequency");
+      }
+    }
+
+    // Elements with a current of their own in the unknowns: voltage sources, voltage
+    // gains, and inductors in DC analyses which are 0 V sources
+    const values = netlist.elements.map((element) =>
+      toSI(element, valueOf(element.expr))
+    );
+    const extras = netlist.elements.flatMap((element, position) =>
+      element.kind === "V" ||
+      element.kind === "E" ||
+      (element.kind === "L" && omega === 0)
+        ? [position]
+        : []
+    );
+    const size = nodes.length + extras.length;
+    const A = Array.from({ length: size }, () =>
+      Array.from({ length: size }, () => complex(0))
+    );
+    const b = Array.from({ length: size }, () => complex(0));
+    const stamp = (row: number, col: number, value: Complex) => {
+      if (row < 0 || col < 0) return;
+      (A[row] as Complex[])[col] = C.add(A[row]?.[col] as Complex, value);
+    };
+
+    // Admittance of passive elements, 0 for capacitors in DC analyses
+    const admittance = (element: NetlistElementType, value: Complex) => {
+      if (element.kind === "R") return C.div(complex(1), value);
+      if (element.kind === "L")
+        return C.div(complex(1), C.mul(value, complex(0, omega)));
+      if (omega === 0) return complex(0);
+      return C.mul(value, complex(0, omega));
+    };
+
+    netlist.elements.forEach((element, position) => {
+      const [p, n] = element.nodes.map(index) as [number, number];
+      const value = values[position] as Complex;
+      const extra = extras.indexOf(position);
+      if (extra !== -1) {
+        const row = nodes.length + extra;
+        stamp(p, row, complex(1));
+        stamp(n, row, complex(-1));
+        stamp(row, p, complex(1));
+        stamp(row, n, complex(-1));
+        if (element.kind === "V") b[row] = value;
+        if (element.kind === "E") {
+          const [cp, cn] = (element.controlNodes ?? []).map(index) as [
+            number,
+            number
+          ];
+          stamp(row, cp, C.neg(value));
+          stamp(row, cn, value);
+        }
+      } else if (element.kind === "I") {
+        // Current flows from the first node through the source to the second
+        if (p >= 0) b[p] = C.sub(b[p] as Complex, value);
+        if (n >= 0) b[n] = C.add(b[n] as Complex, value);
+      } else if (element.kind === "G") {
+        const [cp, cn] = (element.controlNodes ?? []).map(index) as [
+          number,
+          number
+        ];
+        stamp(p, cp, value);
+        stamp(p, cn, C.neg(value));
+        stamp(n, cp, C.neg(value));
+        stamp(n, cn, value);
+      } else {
+        const y = admittance(element, value);
+        stamp(p, p, y);
+        stamp(n, n, y);
+        stamp(p, n, C.neg(y));
+        stamp(n, p, C.neg(y));
+      }
+    });
+
+    const x = gaussianElimination(A, b);
+    if (!x) {
+      throw new Error(
+        "The circuit has no unique solution, check that every node has a path to ground (0) and that no loop is made of voltage sources only"
+      );
+    }
+
+    const voltageAt = (node: string) =>
+      index(node) < 0 ? complex(0) : (x[index(node)] as Complex);
+    const results: { [name: string]: QuantityType } = {};
+    voltages.forEach((name, position) => {
+      results[name] = withUnit(voltageAt(nodes[position] as string), "V");
+    });
+    netlist.elements.forEach((element, position) => {
+      const value = values[position] as Complex;
+      const across = C.sub(
+        voltageAt(element.nodes[0]),
+        voltageAt(element.nodes[1])
+      );
+      const extra = extras.indexOf(position);
+      let current: Complex;
+      if (extra !== -1) {
+        // Current into the first node of a source, as in SPICE
+        current = x[nodes.length + extra] as Complex;
+      } else if (element.kind === "I") {
+        current = value;
+      } else if (element.kind === "G") {
+        const [cp, cn] = element.controlNodes ?? ["0", "0"];
+        current = C.mul(value, C.sub(voltageAt(cp), voltageAt(cn)));
+      } else {
+        current = C.mul(across, admittance(element, value));
+      }
+      results[currents[position] as string] = withUnit(current, "A");
+    });
+    return results;
+  },
+};
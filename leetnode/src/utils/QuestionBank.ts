@@ -0,0 +1,531 @@
+import { z } from "zod";
+
+import { QuestionBankChangeType } from "@/types/question-types";
+import {
+  Course,
+  CourseType,
+  HintCredit,
+  Level,
+  Question,
+  QuestionDifficulty,
+  QuestionStatus,
+  RecommendationPolicy,
+  Topic,
+  TopicPrerequisite,
+} from "@prisma/client";
+
+import { TopicGraph } from "./TopicGraph";
+
+// Bumped whenever the shape of bundles changes, so that older bundles can still be read
+export const BUNDLE_VERSION = 1;
+const BUNDLE_FORMAT = "leetnode-question-bank";
+
+// Formats that question banks are exported to and imported from, only bundles keeping
+// topics, courses and dynamic questions
+export const BANK_FORMATS = {
+  json: { label: "LeetNode Bundle (JSON)", extension: "json" },
+  gift: { label: "Moodle GIFT", extension: "gift.txt" },
+  moodle: { label: "Moodle XML", extension: "xml" },
+  qti: { label: "QTI 2.1 Package", extension: "zip" },
+};
+
+export type BankFormatType = keyof typeof BANK_FORMATS;
+
+// Static multiple-choice question, as GIFT, Moodle XML and QTI describe them
+export type InterchangeItemType = {
+  title: string;
+  content: string; // HTML
+  answers: { answerContent: string; isCorrect: boolean; isLatex: boolean }[];
+};
+
+const keyed = { key: z.string().min(1) };
+
+export const questionDataSchema = z.object({
+  answerMode: z.enum(["MultipleChoice", "FreeResponse"]).optional(),
+  variables: z
+    .array(
+      z.object({
+        ...keyed,
+        encoded: z.string(),
+        name: z.string().trim().min(1),
+        randomize: z.boolean(),
+        isFinalAnswer: z.boolean(),
+        unit: z.string().optional(),
+        default: z.string().optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        decimalPlaces: z.number().int().min(0).max(10).optional(),
+        step: z.number().optional(),
+        valueSet: z.enum(["E6", "E12", "E24", "Custom"]).optional(),
+        values: z.array(z.number()).optional(),
+        tolerance: z.number().nonnegative().optional(),
+        toleranceType: z.enum(["Relative", "Absolute"]).optional(),
+        complexFormat: z.enum(["Rectangular", "Polar"]).optional(),
+      })
+    )
+    .optional(),
+  methods: z
+    .array(
+      z.object({
+        ...keyed,
+        expr: z.string(),
+        explanation: z.string().optional(),
+      })
+    )
+    .optional(),
+  constraints: z.array(z.object({ ...keyed, expr: z.string() })).optional(),
+  netlist: z.string().optional(),
+  checkUnits: z.boolean().optional(),
+  diagram: z.string().optional(),
+  misconceptions: z
+    .array(
+      z.object({
+        ...keyed,
+        name: z.string(),
+        feedback: z.string().optional(),
+        methods: z.array(z.object({ ...keyed, expr: z.string() })),
+      })
+    )
+    .optional(),
+  parts: z
+    .array(
+      z.object({
+        ...keyed,
+        prompt: z.string(),
+        answerMode: z.enum(["MultipleChoice", "FreeResponse"]).optional(),
+        finalAnswers: z.array(z.string()),
+      })
+    )
+    .optional(),
+  partCredit: z.enum(["AllParts", "EachPart", "Threshold"]).optional(),
+  partThreshold: z.number().min(0).max(1).optional(),
+  hints: z.array(z.object({ ...keyed, hint: z.string() })).optional(),
+  answers: z
+    .array(
+      z.object({
+        ...keyed,
+        answerContent: z.string(),
+        isCorrect: z.boolean(),
+        isLatex: z.boolean(),
+        misconception: z.string().optional(),
+        feedback: z.string().optional(),
+        part: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT, {
+    errorMap: () => ({ message: "Not a LeetNode question bank" }),
+  }),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .max(BUNDLE_VERSION, {
+      message: `Bundles newer than version ${BUNDLE_VERSION} cannot be read, please update LeetNode`,
+    }),
+  exportedAt: z.string().optional(),
+  topics: z.array(
+    z.object({
+      topicSlug: z.string().trim().min(1),
+      topicName: z.string().trim().min(1),
+      topicLevel: z.nativeEnum(Level),
+      topicPrior: z.number().min(0).max(1).optional(),
+      topicLearn: z.number().min(0).max(1).optional(),
+      topicGuess: z.number().min(0).max(1).optional(),
+      topicSlip: z.number().min(0).max(1).optional(),
+      prerequisites: z.array(z.string()).default([]),
+    })
+  ),
+  courses: z.array(
+    z.object({
+      courseSlug: z.string().trim().min(1),
+      courseName: z.string().trim().min(1),
+      courseDescription: z.string(),
+      courseImage: z.string(),
+      courseLevel: z.nativeEnum(Level),
+      type: z.nativeEnum(CourseType),
+      moduleCode: z.string(),
+      moduleTitle: z.string(),
+      week: z.number().int().nullish(),
+      studio: z.number().int().nullish(),
+      video: z.string().nullish(),
+      markdown: z.string().nullish(),
+      recommendationPolicy: z.nativeEnum(RecommendationPolicy).optional(),
+      hintCredit: z.nativeEnum(HintCredit).optional(),
+      hintPartialCredit: z.number().min(0).max(1).optional(),
+      topics: z.array(z.string()),
+    })
+  ),
+  questions: z.array(
+    z
+      .object({
+        questionId: z.number().int(), // Groups the variations of a question within the bundle
+        variationId: z.number().int().min(0),
+        topicSlug: z.string(),
+        questionTitle: z.string().trim().min(1).max(150),
+        questionDifficulty: z.nativeEnum(QuestionDifficulty),
+        questionStatus: z.nativeEnum(QuestionStatus),
+        activeFrom: z.coerce.date().nullish(),
+        activeUntil: z.coerce.date().nullish(),
+        questionContent: z.string(),
+        questionData: questionDataSchema,
+      })
+      .superRefine((question, ctx) => {
+        const { variables, answers } = question.questionData;
+        if (question.variationId === 0 && (variables ?? []).length === 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["questionData", "variables"],
+            message: "Dynamic questions need at least 1 variable",
+          });
+        }
+        if (
+          question.variationId !== 0 &&
+          question.questionData.answerMode !== "FreeResponse" &&
+          !(answers ?? []).some((answer) => answer.isCorrect)
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["questionData", "answers"],
+            message: "Static questions need at least 1 correct answer",
+          });
+        }
+      })
+  ),
+});
+
+export type QuestionBankType = z.infer<typeof bundleSchema>;
+
+type BankQuestionType = QuestionBankType["questions"][number];
+
+// Fields that are compared between LeetNode and a bundle to find what an import changes
+const TOPIC_FIELDS = [
+  "topicName",
+  "topicLevel",
+  "topicPrior",
+  "topicLearn",
+  "topicGuess",
+  "topicSlip",
+  "prerequisites",
+] as const;
+const COURSE_FIELDS = [
+  "courseName",
+  "courseDescription",
+  "courseImage",
+  "courseLevel",
+  "type",
+  "moduleCode",
+  "moduleTitle",
+  "week",
+  "studio",
+  "video",
+  "markdown",
+  "recommendationPolicy",
+  "hintCredit",
+  "hintPartialCredit",
+  "topics",
+] as const;
+const QUESTION_FIELDS = [
+  "topicSlug",
+  "questionDifficulty",
+  "questionStatus",
+  "activeFrom",
+  "activeUntil",
+  "questionContent",
+  "questionData",
+] as const;
+
+// JSON with the keys of objects sorted, so that equal records read the same
+const canonical = (value: unknown) =>
+  JSON.stringify(value ?? null, (_, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : item
+  );
+
+// Fields of an incoming record that differ from the current one, ignoring unset ones
+const changedFields = <T extends object>(
+  current: T,
+  incoming: T,
+  fields: readonly (keyof T)[]
+) =>
+  fields.filter(
+    (field) =>
+      incoming[field] !== undefined &&
+      canonical(current[field]) !== canonical(incoming[field])
+  ) as string[];
+
+const change = (
+  kind: QuestionBankChangeType["kind"],
+  key: string,
+  current: object | undefined,
+  fields: string[]
+): QuestionBankChangeType => ({
+  kind,
+  key,
+  action: !current ? "Create" : fields.length > 0 ? "Update" : "Unchanged",
+  fields: current ? fields : [],
+});
+
+// Versioned bundles of topics, courses and questions, shared between LeetNode instances
+export const QuestionBank = {
+  /** Bundles the topics, courses and questions of LeetNode **/
+  create: function ({
+    topics,
+    prerequisites,
+    courses,
+    questions,
+  }: {
+    topics: Topic[];
+    prerequisites: TopicPrerequisite[];
+    courses: (Course & { topics: Pick<Topic, "topicSlug">[] })[];
+    questions: Question[];
+  }): QuestionBankType {
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      topics: topics.map((topic) => ({
+        topicSlug: topic.topicSlug,
+        topicName: topic.topicName,
+        topicLevel: topic.topicLevel,
+        topicPrior: topic.topicPrior,
+        topicLearn: topic.topicLearn,
+        topicGuess: topic.topicGuess,
+        topicSlip: topic.topicSlip,
+        prerequisites: prerequisites
+          .filter((edge) => edge.topicSlug === topic.topicSlug)
+          .map((edge) => edge.prerequisiteSlug)
+          .sort(),
+      })),
+      courses: courses.map((course) => ({
+        courseSlug: course.courseSlug,
+        courseName: course.courseName,
+        courseDescription: course.courseDescription,
+        courseImage: course.courseImage,
+        courseLevel: course.courseLevel,
+        type: course.type,
+        moduleCode: course.moduleCode,
+        moduleTitle: course.moduleTitle,
+        week: course.week,
+        studio: course.studio,
+        video: course.video,
+        markdown: course.markdown,
+        recommendationPolicy: course.recommendationPolicy,
+        hintCredit: course.hintCredit,
+        hintPartialCredit: course.hintPartialCredit,
+        topics: course.topics.map((topic) => topic.topicSlug).sort(),
+      })),
+      questions: questions.map((question) => ({
+        questionId: question.questionId,
+        variationId: question.variationId,
+        topicSlug: question.topicSlug,
+        questionTitle: question.questionTitle,
+        questionDifficulty: question.questionDifficulty,
+        questionStatus: question.questionStatus,
+        activeFrom: question.activeFrom,
+        activeUntil: question.activeUntil,
+        questionContent: question.questionContent,
+        questionData: (question.questionData ??
+          {}) as BankQuestionType["questionData"],
+      })),
+    };
+  },
+  /** Validates a bundle, listing the first few problems with where they are **/
+  parse: function (bundle: unknown): QuestionBankType {
+    const result = bundleSchema.safeParse(bundle);
+    if (!result.success) {
+      throw new Error(
+        result.error.issues
+          .slice(0, 5)
+          .map(
+            (issue) => `${issue.path.join(".") || "Bundle"}: ${issue.message}`
+          )
+          .join("\n")
+      );
+    }
+    return result.data;
+  },
+  /** Bundles static multiple-choice items from other formats as drafts of a topic **/
+  fromItems: function (
+    items: InterchangeItemType[],
+    topicSlug: string,
+    randomKey: () => string
+  ): QuestionBankType {
+    return this.parse({
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      topics: [],
+      courses: [],
+      questions: items.map((item, index) => ({
+        questionId: index + 1,
+        variationId: 1,
+        topicSlug,
+        questionTitle: item.title,
+        questionDifficulty: QuestionDifficulty.Medium,
+        questionStatus: QuestionStatus.Draft,
+        questionContent: item.content,
+        questionData: {
+          answers: item.answers.map((answer) => ({
+            key: randomKey(),
+            ...answer,
+          })),
+        },
+      })),
+    });
+  },
+  /** Static multiple-choice questions of a bundle, the only ones other formats can describe **/
+  toItems: function (bundle: QuestionBankType): InterchangeItemType[] {
+    return bundle.questions
+      .filter(
+        (question) =>
+          question.variationId !== 0 &&
+          question.questionData.answerMode !== "FreeResponse" &&
+          (question.questionData.parts ?? []).length === 0 &&
+          (question.questionData.answers ?? []).length > 0
+      )
+      .map((question) => ({
+        title: question.questionTitle,
+        content: question.questionContent,
+        answers: (question.questionData.answers ?? []).map((answer) => ({
+          answerContent: answer.answerContent,
+          isCorrect: answer.isCorrect,
+          isLatex: answer.isLatex,
+        })),
+      }));
+  },
+  /**
+   * Changes that importing a bundle makes to LeetNode, matching topics and courses by slug
+   * and questions by title, as question IDs differ between instances. Throws if the bundle
+   * refers to topics that exist in neither, or if prerequisites would form a cycle.
+   */
+  diff: function (
+    current: QuestionBankType,
+    incoming: QuestionBankType
+  ): QuestionBankChangeType[] {
+    const topicSlugs = new Set([
+      ...current.topics.map((topic) => topic.topicSlug),
+      ...incoming.topics.map((topic) => topic.topicSlug),
+    ]);
+    const missing = (slug: string, usedBy: string) => {
+      if (!topicSlugs.has(slug)) {
+        throw new Error(
+          `${usedBy} uses the topic ${slug}, which is neither in the bundle nor in LeetNode`
+        );
+      }
+    };
+    const duplicate = (keys: string[], kind: string) => {
+      const seen = new Set<string>();
+      for (const key of keys) {
+        if (seen.has(key))
+          throw new Error(`${kind} ${key} is in the bundle twice`);
+        seen.add(key);
+      }
+    };
+    duplicate(
+      incoming.topics.map((topic) => topic.topicSlug),
+      "Topic"
+    );
+    duplicate(
+      incoming.courses.map((course) => course.courseSlug),
+      "Course"
+    );
+    duplicate(
+      incoming.questions.map((question) => question.questionTitle),
+      "Question"
+    );
+
+    // Prerequisites of imported topics replace their current ones
+    const incomingSlugs = incoming.topics.map((topic) => topic.topicSlug);
+    const edges = [
+      ...current.topics
+        .filter((topic) => !incomingSlugs.includes(topic.topicSlug))
+        .flatMap((topic) =>
+          topic.prerequisites.map((prerequisiteSlug) => ({
+            topicSlug: topic.topicSlug,
+            prerequisiteSlug,
+          }))
+        ),
+      ...incoming.topics.flatMap((topic) =>
+        topic.prerequisites.map((prerequisiteSlug) => {
+          missing(prerequisiteSlug, `Topic ${topic.topicSlug}`);
+          return { topicSlug: topic.topicSlug, prerequisiteSlug };
+        })
+      ),
+    ];
+    if (TopicGraph.hasCycle(edges)) {
+      throw new Error("The prerequisites of the bundle would create a cycle");
+    }
+
+    return [
+      ...incoming.topics.map((topic) => {
+        const existing = current.topics.find(
+          (item) => item.topicSlug === topic.topicSlug
+        );
+        return change(
+          "Topic",
+          topic.topicSlug,
+          existing,
+          existing
+            ? changedFields(
+                existing,
+                { ...topic, prerequisites: [...topic.prerequisites].sort() },
+                TOPIC_FIELDS
+              )
+            : []
+        );
+      }),
+      ...incoming.courses.map((course) => {
+        course.topics.forEach((slug) =>
+          missing(slug, `Course ${course.courseSlug}`)
+        );
+        const existing = current.courses.find(
+          (item) => item.courseSlug === course.courseSlug
+        );
+        return change(
+          "Course",
+          course.courseSlug,
+          existing,
+          existing
+            ? changedFields(
+                existing,
+                { ...course, topics: [...course.topics].sort() },
+                COURSE_FIELDS
+              )
+            : []
+        );
+      }),
+      ...incoming.questions.map((question) => {
+        missing(question.topicSlug, `Question ${question.questionTitle}`);
+        const existing = current.questions.find(
+          (item) => item.questionTitle === question.questionTitle
+        );
+        if (!existing)
+          return change("Question", question.questionTitle, existing, []);
+
+        // Stored data is read like incoming data, leaving out fields that are no longer used
+        const stored = questionDataSchema.safeParse(existing.questionData);
+        return change(
+          "Question",
+          question.questionTitle,
+          existing,
+          changedFields(
+            {
+              ...existing,
+              questionData: stored.success
+                ? stored.data
+                : existing.questionData,
+            },
+            question,
+            QUESTION_FIELDS
+          )
+        );
+      }),
+    ];
+  },
+};
@@ -0,0 +1,377 @@
+import { CustomMath } from "./CustomMath";
+import { InterchangeItemType } from "./QuestionBank";
+import { Xml, XmlElementType } from "./Xml";
+import { Zip } from "./Zip";
+
+// Titles of imported questions without one are cut from their text
+const TITLE_LENGTH = 60;
+
+// Characters with a meaning in GIFT, escaped with a backslash in text
+const GIFT_SPECIAL = /([~=#{}:\\])/g;
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_MATCH_CORRECT =
+  "http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct";
+
+type ParsedItemsType = {
+  items: InterchangeItemType[];
+  skipped: string[]; // Reasons that questions of other types were left out
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const stripTags = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+const titleOf = (title: string, html: string) =>
+  title.trim() || stripTags(html).slice(0, TITLE_LENGTH).trim();
+
+// LaTeX options are written between $$ so that the TeX filters of other systems render them
+const toAnswerText = (answer: InterchangeItemType["answers"][number]) =>
+  answer.isLatex ? `$$ ${answer.answerContent} $$` : answer.answerContent;
+
+const fromAnswerText = (text: string) => {
+  const latex =
+    text.match(/^\s*\$\$([\s\S]*)\$\$\s*$/) ??
+    text.match(/^\s*\\\(([\s\S]*)\\\)\s*$/);
+  return latex
+    ? { answerContent: (latex[1] as string).trim(), isLatex: true }
+    : { answerContent: text.trim(), isLatex: false };
+};
+
+const cdata = (text: string) =>
+  `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+// Splits text at unescaped characters of GIFT, keeping each character with what follows it
+const splitGift = (text: string, separators: string) => {
+  const tokens: string[] = [];
+  let token = "";
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index] as string;
+    if (char === "\\") {
+      token += char + (text[index + 1] ?? "");
+      index++;
+    } else if (separators.includes(char)) {
+      tokens.push(token);
+      token = char;
+    } else {
+      token += char;
+    }
+  }
+  return [...tokens, token];
+};
+
+const unescapeGift = (text: string) => text.replace(/\\(.)/g, "$1");
+
+const giftQuestion = (block: string): InterchangeItemType | string => {
+  const [, rawTitle = "", rest = block] =
+    block.match(/^::((?:\\.|[^:])*)::([\s\S]*)$/) ?? [];
+  const [, format = "moodle", body = rest] =
+    rest.trim().match(/^\[(\w+)\]([\s\S]*)$/) ?? [];
+
+  // Stem, then answers between the first unescaped braces, then the end of the stem
+  const [stem = "", ...afterOpen] = splitGift(body, "{");
+  const [answers = "", ...afterClose] = splitGift(afterOpen.join(""), "}");
+  const title = unescapeGift(rawTitle);
+  const text = unescapeGift(
+    stem + afterClose.join("").replace(/^}/, "")
+  ).trim();
+  const content =
+    format === "html"
+      ? text
+      : `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>`;
+  const name = titleOf(title, content);
+
+  const choices = answers.replace(/^{/, "").trim();
+  if (
+    choices.length === 0 ||
+    choices.startsWith("#") ||
+    /^(T|F|TRUE|FALSE)\b/.test(choices) ||
+    choices.includes("->")
+  ) {
+    return `${name} is not a multiple-choice question`;
+  }
+
+  const options = splitGift(choices, "=~")
+    .filter((token) => token.startsWith("=") || token.startsWith("~"))
+    .map((token) => {
+      const [, weight] = token.match(/^~\s*%(-?[\d.]+)%/) ?? [];
+      const [answer = ""] = splitGift(
+        token.slice(1).replace(/^\s*%-?[\d.]+%/, ""),
+        "#"
+      );
+      return {
+        ...fromAnswerText(unescapeGift(answer)),
+        isCorrect: token.startsWith("=") || Number(weight) > 0,
+      };
+    });
+  if (!options.some((option) => option.isCorrect)) {
+    return `${name} has no correct answer`;
+  }
+  return { title: name, content, answers: options };
+};
+
+const moodleQuestion = (question: XmlElementType) => {
+  const textOf = (element: XmlElementType | undefined) =>
+    element ? Xml.text(Xml.child(element, "text")) : "";
+  const questionText = Xml.child(question, "questiontext");
+  const content =
+    (questionText?.attributes.format ?? "html") === "html"
+      ? textOf(questionText)
+      : `<p>${escapeHtml(textOf(questionText)).replace(/\n/g, "<br>")}</p>`;
+  const title = titleOf(textOf(Xml.child(question, "name")), content);
+  if (question.attributes.type !== "multichoice") {
+    return `${title} is a ${question.attributes.type} question`;
+  }
+
+  const answers = Xml.children(question, "answer").map((answer) => ({
+    ...fromAnswerText(
+      answer.attributes.format === "plain_text"
+        ? textOf(answer)
+        : stripTags(textOf(answer))
+    ),
+    isCorrect: Number(answer.attributes.fraction) > 0,
+  }));
+  if (!answers.some((answer) => answer.isCorrect)) {
+    return `${title} has no correct answer`;
+  }
+  return { title, content, answers };
+};
+
+const qtiItem = (item: XmlElementType): InterchangeItemType | string => {
+  const title = item.attributes.title ?? item.attributes.identifier ?? "";
+  const body = Xml.child(item, "itemBody");
+  const interaction = body && Xml.find(body, "choiceInteraction");
+  if (!body || !interaction) {
+    return `${title || "An item"} is not a choice interaction`;
+  }
+
+  // The prompt of the interaction is part of the question, and its choices are the answers
+  const withoutInteraction = (element: XmlElementType): XmlElementType => ({
+    ...element,
+    children: element.children
+      .filter(
+        (child) =>
+          typeof child === "string" || child.name !== "choiceInteraction"
+      )
+      .map((child) =>
+        typeof child === "string" ? child : withoutInteraction(child)
+      ),
+  });
+  const stem = withoutInteraction(body);
+  const [wrapper, ...others] = stem.children.filter(
+    (child) => typeof child !== "string" || child.trim().length > 0
+  );
+  const prompt = Xml.child(interaction, "prompt");
+  const content = (
+    (typeof wrapper !== "string" &&
+    wrapper?.name === "div" &&
+    others.length === 0
+      ? Xml.inner(wrapper)
+      : Xml.inner(stem)) + (prompt ? Xml.inner(prompt) : "")
+  ).trim();
+
+  const declaration = Xml.children(item, "responseDeclaration").find(
+    (element) =>
+      element.attributes.identifier ===
+      interaction.attributes.responseIdentifier
+  );
+  const correct = Xml.children(
+    Xml.child(declaration ?? item, "correctResponse") ?? item,
+    "value"
+  ).map((value) => Xml.text(value).trim());
+  const answers = Xml.children(interaction, "simpleChoice").map((choice) => ({
+    ...fromAnswerText(Xml.text(choice)),
+    isCorrect: correct.includes(choice.attributes.identifier ?? ""),
+  }));
+  if (!answers.some((answer) => answer.isCorrect)) {
+    return `${title || "An item"} has no correct answer`;
+  }
+  return { title: titleOf(title, content), content, answers };
+};
+
+const collect = (
+  results: (InterchangeItemType | string)[]
+): ParsedItemsType => ({
+  items: results.filter(
+    (result): result is InterchangeItemType => typeof result !== "string"
+  ),
+  skipped: results.filter(
+    (result): result is string => typeof result === "string"
+  ),
+});
+
+// Moodle GIFT, Moodle XML and QTI 2.1, which hold static multiple-choice questions only
+export const QuestionFormats = {
+  /** Questions in GIFT, separated by blank lines **/
+  toGift: function (items: InterchangeItemType[]) {
+    const escape = (text: string) => text.replace(GIFT_SPECIAL, "\\$1");
+    return items
+      .map((item) => {
+        const correct = item.answers.filter(
+          (answer) => answer.isCorrect
+        ).length;
+        const weight = CustomMath.round(100 / correct, 5);
+        const answers = item.answers.map((answer) => {
+          const text = escape(toAnswerText(answer));
+          if (correct === 1) return `\t${answer.isCorrect ? "=" : "~"}${text}`;
+          return `\t~%${answer.isCorrect ? weight : -100}%${text}`;
+        });
+        return [
+          `::${escape(item.title)}::[html]${escape(
+            item.content.replace(/\n\s*\n/g, "\n")
+          )}{`,
+          ...answers,
+          "}",
+        ].join("\n");
+      })
+      .join("\n\n");
+  },
+  /** Multiple-choice questions of a GIFT file, skipping categories and other types **/
+  fromGift: function (text: string): ParsedItemsType {
+    const blocks = text
+      .replace(/\r\n?/g, "\n")
+      .split("\n")
+      .filter((line) => !line.trim().startsWith("//"))
+      .join("\n")
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .filter((block) => block.length > 0 && !block.startsWith("$CATEGORY"));
+    return collect(blocks.map(giftQuestion));
+  },
+  /** Questions as a Moodle XML quiz **/
+  toMoodleXml: function (items: InterchangeItemType[]) {
+    const questions = items.map((item) => {
+      const correct = item.answers.filter((answer) => answer.isCorrect).length;
+      const answers = item.answers.map(
+        (answer) =>
+          `    <answer fraction="${
+            answer.isCorrect ? CustomMath.round(100 / correct, 5) : 0
+          }" format="plain_text">\n      <text>${Xml.escape(
+            toAnswerText(answer)
+          )}</text>\n    </answer>`
+      );
+      return [
+        `  <question type="multichoice">`,
+        `    <name><text>${Xml.escape(item.title)}</text></name>`,
+        `    <questiontext format="html"><text>${cdata(
+          item.content
+        )}</text></questiontext>`,
+        `    <defaultgrade>1</defaultgrade>`,
+        `    <single>${correct === 1}</single>`,
+        `    <shuffleanswers>true</shuffleanswers>`,
+        `    <answernumbering>abc</answernumbering>`,
+        ...answers,
+        `  </question>`,
+      ].join("\n");
+    });
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<quiz>`,
+      ...questions,
+      `</quiz>`,
+      "",
+    ].join("\n");
+  },
+  /** Multiple-choice questions of a Moodle XML quiz, skipping categories and other types **/
+  fromMoodleXml: function (text: string): ParsedItemsType {
+    const quiz = Xml.parse(text);
+    if (quiz.name !== "quiz") throw new Error("Not a Moodle XML quiz");
+    return collect(
+      Xml.children(quiz, "question")
+        .filter((question) => question.attributes.type !== "category")
+        .map(moodleQuestion)
+    );
+  },
+  /** Questions as a QTI 2.1 content package, with 1 item per question **/
+  toQti: function (items: InterchangeItemType[]) {
+    const files = items.map((item, index) => {
+      const identifier = `item-${index + 1}`;
+      const correct = item.answers.filter((answer) => answer.isCorrect);
+      const choices = item.answers.map(
+        (answer, choice) =>
+          `      <simpleChoice identifier="choice-${choice + 1}">${Xml.escape(
+            toAnswerText(answer)
+          )}</simpleChoice>`
+      );
+      const values = item.answers.flatMap((answer, choice) =>
+        answer.isCorrect ? [`      <value>choice-${choice + 1}</value>`] : []
+      );
+      const xml = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${Xml.escape(
+          item.title
+        )}" adaptive="false" timeDependent="false">`,
+        `  <responseDeclaration identifier="RESPONSE" cardinality="${
+          correct.length === 1 ? "single" : "multiple"
+        }" baseType="identifier">`,
+        `    <correctResponse>`,
+        ...values,
+        `    </correctResponse>`,
+        `  </responseDeclaration>`,
+        `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>`,
+        `  <itemBody>`,
+        `    <div>${Xml.fromHtml(item.content)}</div>`,
+        `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${
+          correct.length === 1 ? 1 : 0
+        }">`,
+        ...choices,
+        `    </choiceInteraction>`,
+        `  </itemBody>`,
+        `  <responseProcessing template="${QTI_MATCH_CORRECT}"/>`,
+        `</assessmentItem>`,
+        "",
+      ].join("\n");
+      return { identifier, name: `items/${identifier}.xml`, xml };
+    });
+
+    const manifest = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="leetnode-question-bank">`,
+      `  <metadata>`,
+      `    <schema>QTIv2.1 Package</schema>`,
+      `    <schemaversion>1.0.0</schemaversion>`,
+      `  </metadata>`,
+      `  <organizations/>`,
+      `  <resources>`,
+      ...files.map(
+        (file) =>
+          `    <resource identifier="${file.identifier}" type="imsqti_item_xmlv2p1" href="${file.name}">\n      <file href="${file.name}"/>\n    </resource>`
+      ),
+      `  </resources>`,
+      `</manifest>`,
+      "",
+    ].join("\n");
+
+    return Zip.write([
+      { name: "imsmanifest.xml", data: Buffer.from(manifest, "utf8") },
+      ...files.map((file) => ({
+        name: file.name,
+        data: Buffer.from(file.xml, "utf8"),
+      })),
+    ]);
+  },
+  /** Choice items of a QTI 2.1 content package, or of a single item file **/
+  fromQti: function (file: Buffer): ParsedItemsType {
+    const documents =
+      file.subarray(0, 2).toString("latin1") === "PK"
+        ? Zip.read(file)
+            .filter((entry) => entry.name.toLowerCase().endsWith(".xml"))
+            .map((entry) => entry.data.toString("utf8"))
+        : [file.toString("utf8")];
+    const items = documents
+      .map((document) => Xml.parse(document))
+      .filter((root) => root.name === "assessmentItem");
+    if (items.length === 0) {
+      throw new Error("No QTI 2.1 assessment items were found");
+    }
+    return collect(items.map(qtiItem));
+  },
+};
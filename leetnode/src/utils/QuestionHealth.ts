@@ -0,0 +1,92 @@
+import { QuestionDataType, QuestionHealthType } from "@/types/question-types";
+import { Question } from "@prisma/client";
+
+import { CustomEval } from "./CustomEval";
+import { CustomMath } from "./CustomMath";
+import { Units } from "./Units";
+
+type CheckableQuestionType = Pick<Question, "questionId" | "questionData">;
+
+// Stress tests of dynamic questions, run from the admin Questions tab
+export const QuestionHealth = {
+  /** Evaluates a dynamic question with many random seeds, tallying failures and value ranges **/
+  check: function (
+    question: CheckableQuestionType,
+    runs: number
+  ): QuestionHealthType {
+    const questionData = question.questionData as QuestionDataType;
+    const errors = new Map<string, { count: number; seed: number }>();
+    const ranges = new Map<string, QuestionHealthType["ranges"][number]>();
+    let failures = 0;
+
+    const record = (
+      variable: QuestionDataType["variables"][number],
+      value: number
+    ) => {
+      if (!isFinite(value)) return;
+      const range = ranges.get(variable.key);
+      ranges.set(variable.key, {
+        name: variable.name,
+        unit: variable.unit,
+        isFinalAnswer: variable.isFinalAnswer,
+        min: Math.min(range?.min ?? value, value),
+        max: Math.max(range?.max ?? value, value),
+      });
+    };
+
+    for (let run = 0; run < runs; run++) {
+      const seed = CustomMath.randomSeed();
+      try {
+        const { questionVariables, editorAnswers } = CustomEval(
+          questionData.variables,
+          questionData.methods,
+          true,
+          seed,
+          questionData.misconceptions,
+          questionData.constraints,
+          questionData.parts,
+          questionData.netlist,
+          questionData.checkUnits,
+          false
+        );
+
+        questionVariables
+          .filter((item) => item.randomize)
+          .forEach((item) => record(item, Number(item.default)));
+
+        // Final answers are scaled per run (eg. mA or A), so compare them in their declared unit
+        editorAnswers.forEach((item) => {
+          const declared = questionData.variables.find(
+            (variable) => variable.key === item.key
+          );
+          if (!declared || CustomMath.isComplex(item.value)) return;
+          const value = Units.convert(
+            Units.attach(item.value, item.unit),
+            declared.unit
+          );
+          if (!CustomMath.isComplex(value)) record(declared, value);
+        });
+      } catch (e) {
+        failures++;
+        const message = e instanceof Error ? e.message : String(e);
+        const error = errors.get(message);
+        errors.set(message, {
+          count: (error?.count ?? 0) + 1,
+          seed: error?.seed ?? seed,
+        });
+      }
+    }
+
+    return {
+      questionId: question.questionId,
+      runs: runs,
+      failureRate: runs > 0 ? failures / runs : 0,
+      errors: Array.from(errors, ([message, { count, seed }]) => ({
+        message,
+        count,
+        seed,
+      })).sort((a, b) => b.count - a.count),
+      ranges: Array.from(ranges.values()),
+    };
+  },
+};
@@ -0,0 +1,94 @@
+import { QuestionDataType } from "@/types/question-types";
+import { Question } from "@prisma/client";
+
+import { CustomEval } from "./CustomEval";
+import { CustomMath } from "./CustomMath";
+import { FreeResponse } from "./FreeResponse";
+import { QuestionParts } from "./QuestionParts";
+
+type InstantiableQuestionType = Pick<Question, "variationId" | "questionData">;
+
+// What a student is served for a question, reproducible from its seed
+export const QuestionInstance = {
+  /** Variables and shuffled options of a question, evaluated if dynamic **/
+  generate: function (
+    question: InstantiableQuestionType,
+    seed = CustomMath.randomSeed()
+  ) {
+    const questionData = question.questionData as QuestionDataType;
+
+    // Only evaluate variables and methods if dynamic question
+    let evaluatedQuestionData;
+    if (question.variationId === 0) {
+      evaluatedQuestionData = CustomEval(
+        questionData.variables,
+        questionData.methods,
+        true,
+        seed,
+        questionData.misconceptions,
+        questionData.constraints,
+        questionData.parts,
+        questionData.netlist,
+        questionData.checkUnits
+      );
+    }
+
+    const rng = CustomMath.seededRandom(seed);
+
+    // Parts keep their order, with the options of multiple-choice parts shuffled
+    if (QuestionParts.isMultiPart(questionData) && evaluatedQuestionData) {
+      const { questionAnswers } = evaluatedQuestionData;
+      return {
+        seed: seed,
+        variables: evaluatedQuestionData.questionVariables,
+        answers: (questionData.parts ?? []).flatMap((part) => {
+          const answers = QuestionParts.answers(questionAnswers, part.key);
+          return part.answerMode === "FreeResponse"
+            ? answers
+            : (CustomMath.shuffleArray(
+                answers,
+                rng
+              ) as QuestionDataType["answers"]);
+        }),
+      };
+    }
+
+    return {
+      seed: seed,
+      variables:
+        evaluatedQuestionData?.questionVariables ?? questionData.variables,
+      answers:
+        questionData.answerMode === "FreeResponse" && evaluatedQuestionData
+          ? FreeResponse.answers(evaluatedQuestionData.editorAnswers)
+          : (CustomMath.shuffleArray(
+              questionData.answers ?? evaluatedQuestionData?.questionAnswers,
+              rng
+            ) as QuestionDataType["answers"]),
+    };
+  },
+  /**
+   * Throws if a dynamic question does not evaluate from its default values, such as when its
+   * methods mix units that do not match, or asks for a complex final answer in free response,
+   * as the question editor checks before saving
+   */
+  validate: function (question: InstantiableQuestionType) {
+    if (question.variationId !== 0) return;
+
+    // Evaluated on a copy, as evaluating trims and sorts the variables in place
+    const questionData = JSON.parse(
+      JSON.stringify(question.questionData)
+    ) as QuestionDataType;
+    const { editorAnswers } = CustomEval(
+      questionData.variables,
+      questionData.methods,
+      false,
+      undefined,
+      questionData.misconceptions,
+      questionData.constraints,
+      questionData.parts,
+      questionData.netlist,
+      questionData.checkUnits
+    );
+    FreeResponse.checkReal(questionData, editorAnswers);
+  },
+};
@@ -0,0 +1,38 @@
+import { Prisma, Question, QuestionStatus } from "@prisma/client";
+
+type QuestionLifecycleFields = Pick<
+  Question,
+  "questionStatus" | "activeFrom" | "activeUntil"
+>;
+
+export const QuestionLifecycle = {
+  /** Prisma filter for questions that can be served to students at a given time **/
+  availableFilter: function (now = new Date()): Prisma.QuestionWhereInput {
+    return {
+      OR: [
+        { questionStatus: QuestionStatus.Active },
+        {
+          questionStatus: QuestionStatus.Scheduled,
+          AND: [
+            { OR: [{ activeFrom: null }, { activeFrom: { lte: now } }] },
+            { OR: [{ activeUntil: null }, { activeUntil: { gt: now } }] },
+          ],
+        },
+      ],
+    };
+  },
+  /** Checks if a question can be served to students at a given time, dates may be serialised **/
+  isAvailable: function (question: QuestionLifecycleFields, now = new Date()) {
+    switch (question.questionStatus) {
+      case QuestionStatus.Active:
+        return true;
+      case QuestionStatus.Scheduled:
+        return (
+          (!question.activeFrom || new Date(question.activeFrom) <= now) &&
+          (!question.activeUntil || new Date(question.activeUntil) > now)
+        );
+      default:
+        return false;
+    }
+  },
+};
@@ -0,0 +1,80 @@
+import { QuestionDataType } from "@/types/question-types";
+
+// Share of parts to get right for the Threshold credit when a question does not set its own
+export const DEFAULT_PART_THRESHOLD = 0.5;
+
+// Multi-part questions, whose parts are answered in sequence from the same variables
+export const QuestionParts = {
+  /** Checks if a question is answered in parts **/
+  isMultiPart: function (questionData: QuestionDataType) {
+    return (questionData.parts?.length ?? 0) > 0;
+  },
+  /** First part that has not been answered yet, or undefined once every part is **/
+  next: function (questionData: QuestionDataType, answeredParts: string[]) {
+    return questionData.parts?.find(
+      (part) => !answeredParts.includes(part.key)
+    );
+  },
+  /** Checks if every part has been answered, or the question itself if it has no parts **/
+  isComplete: function (
+    questionData: QuestionDataType,
+    answeredParts: (string | null)[]
+  ) {
+    if (!this.isMultiPart(questionData)) return answeredParts.includes(null);
+    return (questionData.parts ?? []).every((part) =>
+      answeredParts.includes(part.key)
+    );
+  },
+  /** Answer format of a part, or of the whole question if it has no parts **/
+  answerMode: function (questionData: QuestionDataType, part?: string) {
+    if (part === undefined) return questionData.answerMode;
+    return questionData.parts?.find((item) => item.key === part)?.answerMode;
+  },
+  /** Options of a part, or all of them if the question has no parts **/
+  answers: function <T extends { part?: string }>(answers: T[], part?: string) {
+    if (part === undefined) return answers;
+    return answers.filter((answer) => answer.part === part);
+  },
+  /** Result of a question for mastery and quizzes once every part is answered, in the order of its parts **/
+  credit: function (questionData: QuestionDataType, results: boolean[]) {
+    if (questionData.partCredit === "Threshold") {
+      const correct = results.filter((result) => result).length;
+      return (
+        correct / results.length >=
+        (questionData.partThreshold ?? DEFAULT_PART_THRESHOLD)
+      );
+    }
+    return results.every((result) => result);
+  },
+  /** Checks that every part asks for at least 1 final answer, and that no final answer is asked for twice **/
+  validate: function (
+    parts: NonNullable<QuestionDataType["parts"]>,
+    variables: QuestionDataType["variables"]
+  ) {
+    const asked = new Set<string>();
+    for (const [index, part] of parts.entries()) {
+      if (part.prompt.trim().length === 0) {
+        throw new Error(`Part ${index + 1} needs a prompt`);
+      }
+      if (part.finalAnswers.length === 0) {
+        throw new Error(
+          `Part ${index + 1} must ask for at least 1 final answer`
+        );
+      }
+      for (const key of part.finalAnswers) {
+        const variable = variables.find((item) => item.key === key);
+        if (!variable?.isFinalAnswer) {
+          throw new Error(
+            `Part ${index + 1} asks for a variable that is not a final answer`
+          );
+        }
+        if (asked.has(key)) {
+          throw new Error(
+            `${variable.name} is asked for in more than 1 part, each final answer can only be in 1 part`
+          );
+        }
+        asked.add(key);
+      }
+    }
+  },
+};
@@ -0,0 +1,61 @@
+import { prisma } from "@/server/db/client";
+import { Prisma, Question, QuestionRevision } from "@prisma/client";
+
+type RevisionOptionsType = {
+  client?: Prisma.TransactionClient; // To record within a transaction
+  restoredFromId?: string;
+};
+
+const toJson = (data: Prisma.JsonValue) =>
+  data === null ? Prisma.JsonNull : (data as Prisma.InputJsonValue);
+
+// Immutable history of questions, with a revision recorded every time one is saved
+export const QuestionRevisions = {
+  /** Content of a question, which a rollback restores without changing whether the question is served **/
+  content: function (question: Question | QuestionRevision) {
+    return {
+      topicSlug: question.topicSlug,
+      questionTitle: question.questionTitle,
+      questionDifficulty: question.questionDifficulty,
+      questionContent: question.questionContent,
+      questionData: toJson(question.questionData),
+    };
+  },
+  /** Fields of a question that a revision records, being its content and lifecycle **/
+  snapshot: function (question: Question | QuestionRevision) {
+    return {
+      ...this.content(question),
+      questionStatus: question.questionStatus,
+      activeFrom: question.activeFrom,
+      activeUntil: question.activeUntil,
+    };
+  },
+  /** Records a saved question as a revision, which new instances are then generated from **/
+  record: async function (
+    question: Question,
+    authorId: string | undefined,
+    { client = prisma, restoredFromId }: RevisionOptionsType = {}
+  ) {
+    const revision = await client.questionRevision.create({
+      data: {
+        questionId: question.questionId,
+        variationId: question.variationId,
+        authorId: authorId,
+        restoredFromId: restoredFromId,
+        ...this.snapshot(question),
+      },
+    });
+
+    return await client.question.update({
+      where: {
+        questionId_variationId: {
+          questionId: question.questionId,
+          variationId: question.variationId,
+        },
+      },
+      data: {
+        revisionId: revision.revisionId,
+      },
+    });
+  },
+};
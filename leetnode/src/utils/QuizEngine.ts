@@ -0,0 +1,163 @@
+import { z } from "zod";
+
+import { prisma } from "@/server/db/client";
+import { Prisma, QuestionDifficulty, Quiz, QuizSession } from "@prisma/client";
+
+const MINUTE_IN_MS = 60 * 1000;
+
+/** Settings of quiz courses without a definition yet, as defaulted in the schema */
+export const DEFAULT_QUIZ_SETTINGS: Omit<Quiz, "courseSlug"> = {
+  questionCount: 16,
+  topicQuotas: null,
+  difficultyMix: null,
+  timeLimit: null,
+  showMastery: true,
+};
+
+export const quizSettingsSchema = z
+  .object({
+    topics: z.array(z.string()).nonempty(),
+    questionCount: z.number().int().min(1).max(100),
+    topicQuotas: z.record(z.number().int().min(0)),
+    difficultyMix: z.record(
+      z.nativeEnum(QuestionDifficulty),
+      z.number().min(0)
+    ),
+    timeLimit: z.number().int().min(1).nullable(),
+    showMastery: z.boolean(),
+  })
+  .refine(
+    ({ questionCount, topicQuotas }) =>
+      Object.values(topicQuotas).reduce((sum, quota) => sum + quota, 0) <=
+      questionCount,
+    { message: "Topic quotas cannot add up to more than the question count" }
+  )
+  .refine(
+    ({ topics, topicQuotas }) =>
+      Object.keys(topicQuotas).every((topicSlug) => topics.includes(topicSlug)),
+    { message: "Topic quotas can only be set for topics in the quiz" }
+  );
+
+export const QuizEngine = {
+  /** Time at which a quiz session runs out, or null if the quiz is untimed **/
+  deadline: function (
+    quiz: Pick<Quiz, "timeLimit">,
+    quizSession: Pick<QuizSession, "startedAt">
+  ) {
+    return quiz.timeLimit === null
+      ? null
+      : new Date(
+          new Date(quizSession.startedAt).getTime() +
+            quiz.timeLimit * MINUTE_IN_MS
+        );
+  },
+  /** Checks if an open quiz session has run out of time **/
+  isExpired: function (
+    quiz: Pick<Quiz, "timeLimit">,
+    quizSession: Pick<QuizSession, "startedAt" | "endedAt">,
+    now = new Date()
+  ) {
+    const deadline = this.deadline(quiz, quizSession);
+    return !quizSession.endedAt && !!deadline && deadline <= now;
+  },
+};
+
+/** Latest quiz session of a student, ending it first if it ran out of time */
+export const getLatestQuizSession = async (
+  userId: string,
+  quiz: Quiz,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const quizSession = await client.quizSession.findFirst({
+    where: {
+      userId: userId,
+      courseSlug: quiz.courseSlug,
+    },
+    orderBy: {
+      startedAt: "desc",
+    },
+  });
+
+  if (quizSession && QuizEngine.isExpired(quiz, quizSession)) {
+    return await client.quizSession.update({
+      where: {
+        sessionId: quizSession.sessionId,
+      },
+      data: {
+        endedAt: QuizEngine.deadline(quiz, quizSession),
+      },
+    });
+  }
+
+  return quizSession;
+};
+
+/**
+ * Open quiz session of a student along with its quiz, throwing if the quiz has
+ * ended. Returns null for courses that are not quizzes.
+ */
+export const getOpenQuizSession = async (
+  userId: string,
+  courseSlug: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const quiz = await client.quiz.findUnique({
+    where: {
+      courseSlug: courseSlug,
+    },
+  });
+
+  if (!quiz) return null;
+
+  const quizSession = await getLatestQuizSession(userId, quiz, client);
+
+  if (!quizSession || quizSession.endedAt) {
+    throw new Error("This quiz has ended, please start a new attempt");
+  }
+
+  return { quiz, quizSession };
+};
+
+/**
+ * Counts an answer towards the student's open quiz session, ending the session
+ * once all questions are answered. Returns null for courses that are not quizzes.
+ * Pass a transaction client to count the answer along with the attempt it records.
+ */
+export const recordQuizAttempt = async (
+  userId: string,
+  courseSlug: string,
+  isCorrect: boolean,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const open = await getOpenQuizSession(userId, courseSlug, client);
+
+  if (!open) return null;
+
+  const { quiz, quizSession } = open;
+
+  // Incremented rather than set, so that concurrent answers are all counted
+  const counted = await client.quizSession.update({
+    where: {
+      sessionId: quizSession.sessionId,
+    },
+    data: {
+      answeredCount: {
+        increment: 1,
+      },
+      score: {
+        increment: isCorrect ? 1 : 0,
+      },
+    },
+  });
+
+  if (counted.answeredCount < quiz.questionCount) return counted;
+
+  return await client.quizSession.update({
+    where: {
+      sessionId: quizSession.sessionId,
+    },
+    data: {
+      endedAt: new Date(),
+    },
+  });
+};
@@ -1,51 +1,324 @@
+import { env } from "@/env/server.mjs";
 import { prisma } from "@/server/db/client";
-import { Question, QuestionDifficulty, Topic } from "@prisma/client";
+import { DifficultyMixType, TopicQuotasType } from "@/types/quiz-types";
+import {
+  Mastery,
+  Prisma,
+  Question,
+  QuestionDifficulty,
+  RecommendationPolicy,
+} from "@prisma/client";
 
 import { CustomMath } from "./CustomMath";
+import { QuestionLifecycle } from "./QuestionLifecycle";
+import { ReviewScheduler } from "./ReviewScheduler";
+import { MASTERY_THRESHOLD, PREREQUISITE_THRESHOLD } from "./TopicGraph";
+
+// Relative weights when picking a topic, favouring topics that are unlocked but not yet mastered
+const FRONTIER_WEIGHT = 3;
+const MASTERED_WEIGHT = 1;
+
+// Chance of serving a topic that is due for review instead of following the policy
+const REVIEW_PROBABILITY = 0.5;
+
+// Mastery above which Hard questions are served, below which Medium ones are
+const HARD_THRESHOLD = 0.86697;
+
+const DAY_IN_MS = 24 * 3600 * 1000;
+
+type QuestionKey = Pick<Question, "questionId" | "variationId">;
+const questionKey = ({ questionId, variationId }: QuestionKey) =>
+  `${questionId}-${variationId}`;
+
+// Fields of the topics that questions are recommended from
+const TOPIC_SELECT = {
+  topicSlug: true,
+  topicName: true,
+  topicPrior: true,
+  prerequisites: {
+    select: {
+      prerequisiteSlug: true,
+    },
+  },
+} satisfies Prisma.TopicSelect;
+type CourseTopic = Prisma.TopicGetPayload<{ select: typeof TOPIC_SELECT }>;
+
+type CandidateTopic = {
+  topicSlug: string;
+  mastery: number;
+  lastPractised?: Date;
+};
+
+// Weights each candidate topic according to the course's recommendation policy
+const policyWeights = (
+  policy: RecommendationPolicy,
+  topics: CandidateTopic[]
+) => {
+  switch (policy) {
+    case RecommendationPolicy.RoundRobin: {
+      // Deterministically serve the least recently practised topic, never practised first
+      const next = topics.reduce((oldest, topic) =>
+        (topic.lastPractised?.getTime() ?? 0) <
+        (oldest.lastPractised?.getTime() ?? 0)
+          ? topic
+          : oldest
+      );
+      return topics.map((topic) => (topic === next ? 1 : 0));
+    }
+    case RecommendationPolicy.SpacedRepetition:
+      // Favour topics most likely forgotten, where stronger topics are forgotten more slowly
+      return topics.map((topic) => {
+        if (!topic.lastPractised) return 1;
+        const daysSince =
+          (Date.now() - topic.lastPractised.getTime()) / DAY_IN_MS;
+        const stability = 1 + 10 * topic.mastery;
+        return 1 - Math.exp(-daysSince / stability) + 0.01;
+      });
+    case RecommendationPolicy.WeakestFirst:
+    default:
+      return topics.map((topic) => (1 - topic.mastery) ** 2 + 0.01);
+  }
+};
 
 export const RecommendQuestion = async (
   courseSlug: string,
-  masteryLevel: number
+  userId: string,
+  // Question being answered, with the mastery and review schedule it leads to, recommended
+  // from before its attempt is saved
+  justAnswered?: QuestionKey &
+    Pick<Mastery, "topicSlug" | "masteryLevel" | "nextReviewAt">
 ) => {
+  // Drafts, retired questions and those outside their schedule are never served
+  const availableQuestion = QuestionLifecycle.availableFilter();
+
   const relevantTopics = await prisma.course.findFirst({
     where: {
       courseSlug: courseSlug,
     },
     select: {
+      recommendationPolicy: true,
+      quiz: true,
       topics: {
-        select: {
-          topicSlug: true,
-          topicName: true,
+        where: {
+          questions: {
+            some: availableQuestion,
+          },
         },
+        select: TOPIC_SELECT,
       },
     },
   });
 
-  if (!relevantTopics) {
+  if (!relevantTopics || relevantTopics.topics.length === 0) {
     throw new Error("Invalid course slug or course has no relevant topics");
   }
 
-  let recommendedTopic = CustomMath.nRandomItems(
-    1,
-    relevantTopics.topics
-  )[0] as Topic;
-
-  while (recommendedTopic.topicSlug === 'kvl'){
-    recommendedTopic = CustomMath.nRandomItems(
-      1,
-      relevantTopics.topics
-    )[0] as Topic;
+  const [masteries, attempts] = await Promise.all([
+    prisma.mastery.findMany({
+      where: {
+        userId: userId,
+      },
+      select: {
+        topicSlug: true,
+        masteryLevel: true,
+        nextReviewAt: true,
+      },
+    }),
+    prisma.attempt.findMany({
+      where: {
+        userId: userId,
+      },
+      select: {
+        submittedAt: true,
+        questionWithAddedTime: {
+          select: {
+            questionId: true,
+            variationId: true,
+            question: {
+              select: {
+                topicSlug: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        submittedAt: "desc",
+      },
+    }),
+  ]);
+  const getMastery = (topicSlug: string) =>
+    topicSlug === justAnswered?.topicSlug
+      ? justAnswered.masteryLevel
+      : masteries.find((mastery) => mastery.topicSlug === topicSlug)
+          ?.masteryLevel;
+  const getNextReviewAt = (topicSlug: string) =>
+    topicSlug === justAnswered?.topicSlug
+      ? justAnswered.nextReviewAt
+      : masteries.find((mastery) => mastery.topicSlug === topicSlug)
+          ?.nextReviewAt;
+  const now = new Date();
+  const getLastPractised = (topicSlug: string) =>
+    topicSlug === justAnswered?.topicSlug
+      ? now
+      : attempts.find(
+          (attempt) =>
+            attempt.questionWithAddedTime.question.topicSlug === topicSlug
+        )?.submittedAt;
+
+  // Never serve a topic until all of its prerequisites reach the threshold. Where none are
+  // unlocked yet, serve the prerequisites not yet met instead, even from outside the course,
+  // going further back until some topic with questions to practise is unlocked
+  const isMet = (topicSlug: string) =>
+    (getMastery(topicSlug) ?? 0) >= PREREQUISITE_THRESHOLD;
+  const isUnlocked = (topic: Pick<CourseTopic, "prerequisites">) =>
+    topic.prerequisites.every(({ prerequisiteSlug }) =>
+      isMet(prerequisiteSlug)
+    );
+  let searchedTopics: CourseTopic[] = relevantTopics.topics;
+  let servableTopics = searchedTopics.filter(isUnlocked);
+  const searchedSlugs = new Set(searchedTopics.map((topic) => topic.topicSlug));
+  while (servableTopics.length === 0 && searchedTopics.length > 0) {
+    const unmetSlugs = Array.from(
+      new Set(
+        searchedTopics.flatMap((topic) =>
+          topic.prerequisites.map(({ prerequisiteSlug }) => prerequisiteSlug)
+        )
+      )
+    ).filter((topicSlug) => !isMet(topicSlug) && !searchedSlugs.has(topicSlug));
+    unmetSlugs.forEach((topicSlug) => searchedSlugs.add(topicSlug));
+    // Topics without questions are searched through but cannot be served
+    const prerequisiteTopics = await prisma.topic.findMany({
+      where: {
+        topicSlug: {
+          in: unmetSlugs,
+        },
+      },
+      select: {
+        ...TOPIC_SELECT,
+        questions: {
+          where: availableQuestion,
+          select: {
+            questionId: true,
+          },
+          take: 1,
+        },
+      },
+    });
+    searchedTopics = prerequisiteTopics;
+    servableTopics = prerequisiteTopics.filter(
+      (topic) => topic.questions.length > 0 && isUnlocked(topic)
+    );
+  }
+
+  if (servableTopics.length === 0) {
+    throw new Error(
+      "No topics in this course or their prerequisites are unlocked, please ask for questions on the prerequisites to be added"
+    );
+  }
+
+  // Students start from the topic prior until they have a mastery of their own
+  const candidateTopics = servableTopics.map((topic) => ({
+    ...topic,
+    mastery: getMastery(topic.topicSlug) ?? topic.topicPrior,
+    lastPractised: getLastPractised(topic.topicSlug),
+    nextReviewAt: getNextReviewAt(topic.topicSlug) ?? null,
+  }));
+
+  // Quizzes serve topics below their quota in the current session first
+  const { quiz } = relevantTopics;
+  let policyTopics = candidateTopics;
+  if (quiz?.topicQuotas) {
+    const quizSession = await prisma.quizSession.findFirst({
+      where: {
+        userId: userId,
+        courseSlug: courseSlug,
+        endedAt: null,
+      },
+      orderBy: {
+        startedAt: "desc",
+      },
+    });
+    const servedQuestions = quizSession
+      ? await prisma.questionWithAddedTime.findMany({
+          where: {
+            userId: userId,
+            courseSlug: courseSlug,
+            addedTime: {
+              gte: quizSession.startedAt,
+            },
+          },
+          select: {
+            question: {
+              select: {
+                topicSlug: true,
+              },
+            },
+          },
+        })
+      : [];
+    const quotas = quiz.topicQuotas as TopicQuotasType;
+    const servedCount = (topicSlug: string) =>
+      servedQuestions.filter(
+        (served) => served.question.topicSlug === topicSlug
+      ).length;
+    const belowQuota = candidateTopics.filter(
+      (topic) => (quotas[topic.topicSlug] ?? 0) > servedCount(topic.topicSlug)
+    );
+    if (belowQuota.length > 0) {
+      policyTopics = belowQuota;
+    }
+  }
+
+  // Mix the most overdue review into the practice stream, but not into quizzes
+  const dueTopics = candidateTopics
+    .filter((topic) => ReviewScheduler.isDue(topic, now))
+    .sort(
+      (a, b) =>
+        (a.nextReviewAt?.getTime() ?? 0) - (b.nextReviewAt?.getTime() ?? 0)
+    );
+  const isReview =
+    !quiz && dueTopics.length > 0 && Math.random() < REVIEW_PROBABILITY;
+
+  const weights = policyWeights(
+    relevantTopics.recommendationPolicy,
+    policyTopics
+  ).map(
+    (weight, index) =>
+      weight *
+      ((policyTopics[index]?.mastery ?? 0) < MASTERY_THRESHOLD
+        ? FRONTIER_WEIGHT
+        : MASTERED_WEIGHT)
+  );
+
+  const recommendedTopic = isReview
+    ? dueTopics[0]
+    : CustomMath.weightedRandomItem(policyTopics, weights);
+
+  if (!recommendedTopic) {
+    throw new Error("No relevant topics found");
   }
 
   console.log(
-    `[${courseSlug}] RECOMMENDED TOPIC: `,
+    `[${courseSlug}] RECOMMENDED TOPIC (${
+      isReview ? "Review" : relevantTopics.recommendationPolicy
+    }): `,
     recommendedTopic.topicSlug
   );
 
+  // Difficulty follows the quiz's difficulty mix, or else the student's mastery of the chosen topic
   let recommendedDifficulty: QuestionDifficulty;
-  if (masteryLevel <= recommendedTopic.topicPrior) {
+  const difficultyMix = Object.entries(
+    (quiz?.difficultyMix ?? {}) as DifficultyMixType
+  ).filter(([, weight]) => weight > 0);
+  if (difficultyMix.length > 0) {
+    recommendedDifficulty = CustomMath.weightedRandomItem(
+      difficultyMix.map(([difficulty]) => difficulty as QuestionDifficulty),
+      difficultyMix.map(([, weight]) => weight)
+    ) as QuestionDifficulty;
+  } else if (recommendedTopic.mastery <= recommendedTopic.topicPrior) {
     recommendedDifficulty = QuestionDifficulty.Easy;
-  } else if (masteryLevel <= 0.86697) {
+  } else if (recommendedTopic.mastery <= HARD_THRESHOLD) {
     recommendedDifficulty = QuestionDifficulty.Medium;
   } else {
     recommendedDifficulty = QuestionDifficulty.Hard;
@@ -56,25 +329,73 @@ export const RecommendQuestion = async (
     recommendedDifficulty
   );
 
-  let relevantQuestions = await prisma.question.findMany({
+  const topicQuestions = await prisma.question.findMany({
     where: {
       topicSlug: recommendedTopic.topicSlug,
-      questionDifficulty: recommendedDifficulty,
+      ...availableQuestion,
     },
   });
 
-  // TODO: Change this fallback
+  // Questions attempted within the last few attempts or days, or just answered, are not served again
+  const recentCutoff = now.getTime() - env.RECENT_QUESTION_DAYS * DAY_IN_MS;
+  const recentQuestions = new Set(
+    attempts
+      .filter(
+        (attempt, index) =>
+          index < env.RECENT_QUESTION_COUNT ||
+          attempt.submittedAt.getTime() >= recentCutoff
+      )
+      .map((attempt) => questionKey(attempt.questionWithAddedTime))
+  );
+  const isJustAnswered = (question: QuestionKey) =>
+    !!justAnswered && questionKey(justAnswered) === questionKey(question);
+  const unseenQuestions = topicQuestions.filter(
+    (question) =>
+      !recentQuestions.has(questionKey(question)) && !isJustAnswered(question)
+  );
+
+  let relevantQuestions = unseenQuestions.filter(
+    (question) => question.questionDifficulty === recommendedDifficulty
+  );
+
   if (relevantQuestions.length === 0) {
     console.warn(
-      `[${recommendedTopic.topicSlug}] No questions with difficulty ${recommendedDifficulty}, falling back to random`
+      `[${recommendedTopic.topicSlug}] No unseen questions with difficulty ${recommendedDifficulty}, falling back to any difficulty`
     );
-    relevantQuestions = await prisma.question.findMany({
-      where: {
-        topicSlug: recommendedTopic.topicSlug,
-      },
-    });
+    relevantQuestions = unseenQuestions;
   }
-  console.log(relevantQuestions)
+
+  // Once every question was seen recently, dynamic questions still generate unseen variations,
+  // other than the one just answered
+  if (relevantQuestions.length === 0) {
+    console.warn(
+      `[${recommendedTopic.topicSlug}] No unseen questions, falling back to dynamic questions`
+    );
+    relevantQuestions = topicQuestions.filter(
+      (question) => question.variationId === 0 && !isJustAnswered(question)
+    );
+  }
+
+  // Otherwise repeat the question seen longest ago
+  if (relevantQuestions.length === 0) {
+    console.warn(
+      `[${recommendedTopic.topicSlug}] No dynamic questions, falling back to the least recently seen question`
+    );
+    const lastSeen = (question: Question) =>
+      isJustAnswered(question)
+        ? now.getTime()
+        : attempts
+            .find(
+              (attempt) =>
+                questionKey(attempt.questionWithAddedTime) ===
+                questionKey(question)
+            )
+            ?.submittedAt.getTime() ?? 0;
+    relevantQuestions = topicQuestions
+      .sort((a, b) => lastSeen(a) - lastSeen(b))
+      .slice(0, 1);
+  }
+
   const recommendedQuestion = CustomMath.nRandomItems(
     1,
     relevantQuestions
@@ -88,5 +409,6 @@ export const RecommendQuestion = async (
     recommendedTopicSlug: recommendedTopic.topicSlug,
     recommendedTopicName: recommendedTopic.topicName,
     recommendedQuestion,
+    isReview,
   };
 };
@@ -0,0 +1,132 @@
+import { prisma } from "@/server/db/client";
+import { Mastery, Prisma } from "@prisma/client";
+
+import { MASTERY_THRESHOLD } from "./TopicGraph";
+
+export type ReviewState = Pick<
+  Mastery,
+  "reviewEase" | "reviewInterval" | "reviewRepetitions" | "nextReviewAt"
+>;
+
+const DAY_IN_MS = 24 * 3600 * 1000;
+
+// SuperMemo-2 spaced repetition, with each attempt graded as a recall quality from 0 to 5
+// https://super-memory.com/english/ol/sm2.htm
+export const ReviewScheduler = {
+  /** Recall quality of one attempt, where 3 and above is a successful review **/
+  quality: function (isCorrect: boolean) {
+    return isCorrect ? 4 : 1;
+  },
+  /** Applies one graded review to the SM-2 state **/
+  sm2: function (state: ReviewState, quality: number, now: Date): ReviewState {
+    let { reviewInterval, reviewRepetitions } = state;
+    if (quality >= 3) {
+      reviewInterval =
+        reviewRepetitions === 0
+          ? 1
+          : reviewRepetitions === 1
+          ? 6
+          : Math.round(reviewInterval * state.reviewEase);
+      reviewRepetitions++;
+    } else {
+      reviewInterval = 1;
+      reviewRepetitions = 0;
+    }
+
+    const reviewEase = Math.max(
+      1.3,
+      state.reviewEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    return {
+      reviewEase,
+      reviewInterval,
+      reviewRepetitions,
+      nextReviewAt: new Date(now.getTime() + reviewInterval * DAY_IN_MS),
+    };
+  },
+  /**
+   * Next review state after an attempt. Topics enter the schedule once mastered,
+   * then only attempts made when due (or any lapse) move the schedule.
+   */
+  schedule: function (
+    state: ReviewState,
+    masteryLevel: number,
+    isCorrect: boolean,
+    now: Date
+  ): ReviewState {
+    if (!state.nextReviewAt) {
+      return masteryLevel >= MASTERY_THRESHOLD
+        ? this.sm2(state, this.quality(true), now)
+        : state;
+    }
+    if (!isCorrect || this.isDue(state, now)) {
+      return this.sm2(state, this.quality(isCorrect), now);
+    }
+    return state;
+  },
+  /** Checks if a topic in the schedule is due for review **/
+  isDue: function (state: Pick<ReviewState, "nextReviewAt">, now: Date) {
+    return !!state.nextReviewAt && state.nextReviewAt <= now;
+  },
+};
+
+/** Review schedule of a student's topic after an attempt, without saving it, or null before their first attempt */
+export const previewReviewSchedule = async (
+  userId: string,
+  topicSlug: string,
+  masteryLevel: number,
+  isCorrect: boolean
+) => {
+  const mastery = await prisma.mastery.findUnique({
+    where: {
+      userId_topicSlug: {
+        userId: userId,
+        topicSlug: topicSlug,
+      },
+    },
+  });
+
+  return mastery
+    ? ReviewScheduler.schedule(mastery, masteryLevel, isCorrect, new Date())
+    : null;
+};
+
+/** Updates the review schedule of a student's topic after an attempt, within a transaction if given */
+export const updateReviewSchedule = async (
+  userId: string,
+  topicSlug: string,
+  masteryLevel: number,
+  isCorrect: boolean,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const mastery = await client.mastery.findUnique({
+    where: {
+      userId_topicSlug: {
+        userId: userId,
+        topicSlug: topicSlug,
+      },
+    },
+  });
+
+  if (!mastery) return;
+
+  const nextState = ReviewScheduler.schedule(
+    mastery,
+    masteryLevel,
+    isCorrect,
+    new Date()
+  );
+
+  if (nextState.nextReviewAt !== mastery.nextReviewAt) {
+    await client.mastery.update({
+      where: {
+        userId_topicSlug: {
+          userId: userId,
+          topicSlug: topicSlug,
+        },
+      },
+      data: nextState,
+    });
+  }
+};
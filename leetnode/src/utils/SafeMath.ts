@@ -0,0 +1,215 @@
+import { all, Complex, create, MathNode, MathType } from "mathjs";
+
+// Expressions longer than this are rejected before they are parsed
+const MAX_LENGTH = 1000;
+
+// Time (ms) that all the expressions of a question may take to evaluate together
+const TIME_LIMIT = 2000;
+
+// Functions of mathjs that question methods may call, on top of the helpers below
+const ALLOWED_FUNCTIONS = [
+  "abs",
+  "sqrt",
+  "cbrt",
+  "nthRoot",
+  "pow",
+  "exp",
+  "log",
+  "log10",
+  "log2",
+  "sin",
+  "cos",
+  "tan",
+  "sec",
+  "csc",
+  "cot",
+  "asin",
+  "acos",
+  "atan",
+  "atan2",
+  "sinh",
+  "cosh",
+  "tanh",
+  "round",
+  "floor",
+  "ceil",
+  "fix",
+  "mod",
+  "sign",
+  "min",
+  "max",
+  "hypot",
+  "re",
+  "im",
+  "arg",
+  "conj",
+  "complex",
+  "unit",
+];
+
+// Node types that question methods may be made of, leaving out objects, accessors,
+// blocks and function definitions (which could recurse forever)
+const ALLOWED_NODES = [
+  "AssignmentNode",
+  "ConditionalNode",
+  "ConstantNode",
+  "FunctionNode",
+  "OperatorNode",
+  "ParenthesisNode",
+  "RelationalNode",
+  "SymbolNode",
+];
+
+const math = create(all);
+const parse = math.parse;
+
+// Domain helpers that authors can call from methods, described in the question editor
+const HELPERS = {
+  /** Natural logarithm **/
+  ln: (x: number) => math.log(x),
+  /** Phasor of magnitude r and angle theta (degrees) **/
+  phasor: (r: number, theta: number) =>
+    math.multiply(r, math.exp(math.complex(0, (theta * Math.PI) / 180))),
+  /** Magnitude of a complex number **/
+  mag: (z: Complex) => math.abs(z),
+  /** Angle (degrees) of a complex number **/
+  ang: (z: Complex) => (math.arg(z) * 180) / Math.PI,
+  /** Equivalent of impedances in parallel, eg. parallel(R_1, R_2, R_3) **/
+  parallel: (...values: MathType[]) =>
+    math.divide(
+      1,
+      values
+        .map((value) => math.divide(1, value))
+        .reduce((sum: MathType, value) => math.add(sum, value))
+    ),
+  /** Output of a voltage divider of V across R_2, with R_1 in series **/
+  divider: (V: MathType, R_1: MathType, R_2: MathType) =>
+    math.divide(math.multiply(V, R_2), math.add(R_1, R_2)),
+  /** Amplitude ratio (eg. voltage gain) in decibels **/
+  dB: (x: MathType) => 20 * Math.log10(Number(math.abs(x))),
+  /** Power ratio in decibels **/
+  dBp: (x: MathType) => 10 * Math.log10(Number(math.abs(x))),
+};
+
+math.import(HELPERS, { override: true });
+
+// A unitless 0 (eg. V_{ground} = 0) is compatible with any unit, taking the unit of what it is
+// added to or compared with, while scaling a quantity by it stays a unitless 0
+const isUnitlessZero = (x: unknown) => typeof x === "number" && x === 0;
+const { multiply, divide } = math;
+const withMatchingZero =
+  (fn: (a: MathType, b: MathType) => unknown) =>
+  (...args: MathType[]) =>
+    args.reduce(
+      (a, b) =>
+        fn(
+          isUnitlessZero(a) && math.isUnit(b) ? multiply(b, 0) : a,
+          isUnitlessZero(b) && math.isUnit(a) ? multiply(a, 0) : b
+        ) as MathType
+    );
+math.import(
+  {
+    add: withMatchingZero(math.add),
+    subtract: withMatchingZero(math.subtract),
+    equal: withMatchingZero(math.equal),
+    unequal: withMatchingZero(math.unequal),
+    larger: withMatchingZero(math.larger),
+    largerEq: withMatchingZero(math.largerEq),
+    smaller: withMatchingZero(math.smaller),
+    smallerEq: withMatchingZero(math.smallerEq),
+    multiply: (...args: MathType[]) =>
+      args.reduce((a, b) =>
+        (isUnitlessZero(a) && math.isUnit(b)) ||
+        (isUnitlessZero(b) && math.isUnit(a))
+          ? 0
+          : multiply(a, b)
+      ),
+    divide: (a: MathType, b: MathType) =>
+      isUnitlessZero(a) && math.isUnit(b) ? 0 : divide(a, b),
+  },
+  { override: true }
+);
+
+// Functions that would let an expression escape the allow-list or change mathjs itself
+const disabled = (name: string) => () => {
+  throw new Error(`Function ${name} is disabled`);
+};
+math.import(
+  Object.fromEntries(
+    [
+      "import",
+      "createUnit",
+      "evaluate",
+      "parse",
+      "compile",
+      "simplify",
+      "derivative",
+      "resolve",
+      "reviver",
+    ].map((name) => [name, disabled(name)])
+  ),
+  { override: true }
+);
+
+// Restricted mathjs for evaluating author-written expressions of dynamic questions
+export const SafeMath = {
+  /** Deadline for evaluating all the expressions of a question, starting now **/
+  deadline: function () {
+    return Date.now() + TIME_LIMIT;
+  },
+  /** Parses an expression, throwing if it uses anything outside of the allow-list **/
+  parse: function (expr: string) {
+    if (expr.length > MAX_LENGTH) {
+      throw new Error(
+        `Expressions cannot be longer than ${MAX_LENGTH} characters`
+      );
+    }
+
+    const node = parse(expr);
+    node.traverse((child: MathNode) => {
+      if (math.isFunctionAssignmentNode(child)) {
+        throw new Error(
+          `Functions such as ${child.name} cannot be defined, use the built-in helpers instead`
+        );
+      }
+      if (!ALLOWED_NODES.includes(child.type)) {
+        throw new Error(`Unsupported syntax (${child.type}) in expression`);
+      }
+      if (
+        math.isFunctionNode(child) &&
+        !(
+          math.isSymbolNode(child.fn) &&
+          (ALLOWED_FUNCTIONS.includes(child.fn.name) ||
+            child.fn.name in HELPERS)
+        )
+      ) {
+        throw new Error(`Function ${child.fn.toString()} is not allowed`);
+      }
+      if (math.isAssignmentNode(child) && child.index !== null) {
+        throw new Error("Only variables can be assigned to");
+      }
+    });
+
+    // Complex numbers use j as the imaginary unit
+    return node.transform((child: MathNode) =>
+      math.isSymbolNode(child) && child.name === "j"
+        ? new math.SymbolNode("i")
+        : child
+    );
+  },
+  /** Evaluates an expression in a scope, which assignments write to, if the deadline has not passed **/
+  evaluate: function (
+    expr: string,
+    scope: { [key: string]: unknown } = {},
+    deadline = Date.now() + TIME_LIMIT
+  ) {
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Evaluation took longer than ${
+          TIME_LIMIT / 1000
+        } s, simplify the expressions`
+      );
+    }
+    return this.parse(expr).compile().evaluate(scope);
+  },
+};
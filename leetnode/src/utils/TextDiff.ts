@@ -0,0 +1,89 @@
+// Line of a side-by-side diff, null on the side where the line does not exist
+export type DiffRowType = {
+  before: string | null;
+  after: string | null;
+  isChanged: boolean;
+};
+
+type DiffOperationType = { kind: "Same" | "Removed" | "Added"; line: string };
+
+// Line diffs of question revisions, based on their longest common subsequence
+export const TextDiff = {
+  /** Operations that turn the lines before into the lines after **/
+  operations: function (before: string[], after: string[]) {
+    // common[i][j] is the length of the longest common subsequence of before[i:] and after[j:]
+    const common = Array.from({ length: before.length + 1 }, () =>
+      Array<number>(after.length + 1).fill(0)
+    );
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        (common[i] as number[])[j] =
+          before[i] === after[j]
+            ? ((common[i + 1] as number[])[j + 1] as number) + 1
+            : Math.max(
+                (common[i + 1] as number[])[j] as number,
+                (common[i] as number[])[j + 1] as number
+              );
+      }
+    }
+
+    const operations: DiffOperationType[] = [];
+    let [i, j] = [0, 0];
+    while (i < before.length || j < after.length) {
+      if (i < before.length && j < after.length && before[i] === after[j]) {
+        operations.push({ kind: "Same", line: before[i++] as string });
+        j++;
+      } else if (
+        j >= after.length ||
+        (i < before.length &&
+          ((common[i + 1] as number[])[j] as number) >=
+            ((common[i] as number[])[j + 1] as number))
+      ) {
+        operations.push({ kind: "Removed", line: before[i++] as string });
+      } else {
+        operations.push({ kind: "Added", line: after[j++] as string });
+      }
+    }
+    return operations;
+  },
+  /** Rows of a side-by-side diff, pairing each run of removed lines with the added lines after it **/
+  sideBySide: function (before: string, after: string): DiffRowType[] {
+    const rows: DiffRowType[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+    const flush = () => {
+      for (
+        let index = 0;
+        index < Math.max(removed.length, added.length);
+        index++
+      ) {
+        rows.push({
+          before: removed[index] ?? null,
+          after: added[index] ?? null,
+          isChanged: true,
+        });
+      }
+      [removed, added] = [[], []];
+    };
+
+    for (const operation of this.operations(
+      before.split("\n"),
+      after.split("\n")
+    )) {
+      if (operation.kind === "Removed") {
+        removed.push(operation.line);
+      } else if (operation.kind === "Added") {
+        added.push(operation.line);
+      } else {
+        flush();
+        rows.push({
+          before: operation.line,
+          after: operation.line,
+          isChanged: false,
+        });
+      }
+    }
+    flush();
+    return rows;
+  },
+};
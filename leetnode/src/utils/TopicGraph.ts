@@ -0,0 +1,51 @@
+// Mastery a student needs in every prerequisite before a topic is served
+export const PREREQUISITE_THRESHOLD = 0.6;
+// Mastery at which a topic counts as mastered, same target as the recruitment emails
+export const MASTERY_THRESHOLD = 0.8;
+
+export type PrerequisiteEdge = {
+  topicSlug: string;
+  prerequisiteSlug: string;
+};
+
+export const TopicGraph = {
+  /** Maps each topic to the slugs of its direct prerequisites **/
+  toAdjacency: function (edges: PrerequisiteEdge[]) {
+    return edges.reduce((acc, { topicSlug, prerequisiteSlug }) => {
+      (acc[topicSlug] ??= []).push(prerequisiteSlug);
+      return acc;
+    }, {} as Record<string, string[]>);
+  },
+  /** Checks if the prerequisites of all topics form a directed cycle **/
+  hasCycle: function (edges: PrerequisiteEdge[]) {
+    const adjacency = this.toAdjacency(edges);
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (topicSlug: string): boolean => {
+      if (visiting.has(topicSlug)) return true;
+      if (visited.has(topicSlug)) return false;
+      visiting.add(topicSlug);
+      const cyclic = (adjacency[topicSlug] ?? []).some(visit);
+      visiting.delete(topicSlug);
+      visited.add(topicSlug);
+      return cyclic;
+    };
+
+    return Object.keys(adjacency).some(visit);
+  },
+  /** Replaces the prerequisites of one topic, keeping all other edges **/
+  withPrerequisites: function (
+    edges: PrerequisiteEdge[],
+    topicSlug: string,
+    prerequisiteSlugs: string[]
+  ): PrerequisiteEdge[] {
+    return [
+      ...edges.filter((edge) => edge.topicSlug !== topicSlug),
+      ...prerequisiteSlugs.map((prerequisiteSlug) => ({
+        topicSlug,
+        prerequisiteSlug,
+      })),
+    ];
+  },
+};
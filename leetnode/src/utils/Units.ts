@@ -0,0 +1,180 @@
+import { Complex, isUnit, multiply, Unit, unit } from "mathjs";
+
+import { ComplexValue, CustomMath } from "./CustomMath";
+
+// Value of a variable as evaluated by mathjs, with or without a unit
+export type QuantityType = number | Complex | Unit;
+
+// SI prefixes that final answers are scaled to, by power of 10
+const PREFIXES: { [exponent: number]: string } = {
+  12: "T",
+  9: "G",
+  6: "M",
+  3: "k",
+  0: "",
+  [-3]: "m",
+  [-6]: "u",
+  [-9]: "n",
+  [-12]: "p",
+};
+
+// Units written as LaTeX symbols rather than as text
+const SYMBOLS: { [name: string]: string } = {
+  ohm: "\\Omega",
+};
+
+// Real or complex number from a mathjs numeric value
+const toValue = (numeric: unknown): number | ComplexValue =>
+  CustomMath.isComplex(numeric)
+    ? { re: numeric.re, im: numeric.im }
+    : Number(numeric);
+
+export const Units = {
+  /** Strips LaTeX from units so that "\Omega" and "\text{mA}" read as typed **/
+  normalize: function (unit: string) {
+    return unit
+      .replace(/\\(?:text|mathrm)\{([^}]*)\}/g, "$1")
+      .replace(/\\Omega|ohms?/gi, "Ω")
+      .replace(/\\mu/g, "µ")
+      .replace(/\^?\{?\\circ\}?/g, "°")
+      .replace(/[\\{}~\s]/g, "");
+  },
+  /** mathjs unit of a variable (eg. "k\Omega" is kohm), or null if its unit is only a label **/
+  parse: function (latex?: string) {
+    const name = this.normalize(latex ?? "")
+      .replace(/Ω/g, "ohm")
+      .replace(/[µμ]/g, "u")
+      .replace(/°/g, "deg");
+    if (name.length === 0) return null;
+    try {
+      return unit(name);
+    } catch (e) {
+      return null;
+    }
+  },
+  /** LaTeX of a unit with an SI prefix, eg. "\mu\text{F}" or "\text{k}\Omega" **/
+  toLatex: function (prefix: string, name: string) {
+    const micro = prefix === "u" ? "\\mu " : "";
+    const textPrefix = prefix === "u" ? "" : prefix;
+    const symbol = SYMBOLS[name];
+    if (symbol === undefined) return `${micro}\\text{${textPrefix}${name}}`;
+    return `${micro}${textPrefix ? `\\text{${textPrefix}}` : ""}${symbol}`;
+  },
+  /**
+   * LaTeX of a value with its unit, such as a step of a worked solution. Values are shown in
+   * their declared unit if any, or else in the simplest SI unit (eg. V / kohm is A), rescaled
+   * to an SI prefix.
+   */
+  format: function (
+    value: QuantityType,
+    decimalPlaces: number,
+    declared?: string
+  ) {
+    if (declared && this.parse(declared)) {
+      const scaled = this.scale(value, declared);
+      return `${CustomMath.formatValue(scaled.value, decimalPlaces)}~${
+        scaled.unit
+      }`;
+    }
+    if (!isUnit(value)) {
+      return CustomMath.formatValue(toValue(value), decimalPlaces);
+    }
+    const simplified = value.simplify();
+    const [component, ...rest] = simplified.units;
+    const latex =
+      component && rest.length === 0 && component.power === 1
+        ? this.toLatex("", component.unit.name)
+        : `\\text{${simplified.formatUnits()}}`;
+    const scaled = this.scale(simplified, latex);
+    return `${CustomMath.formatValue(scaled.value, decimalPlaces)}~${
+      scaled.unit ?? latex
+    }`;
+  },
+  /** Attaches a variable's unit to its value so that methods are dimensionally checked **/
+  attach: function (value: QuantityType, latex?: string): QuantityType {
+    const declared = this.parse(latex);
+    if (!declared || isUnit(value)) return value;
+    return multiply(value, declared) as Unit;
+  },
+  /** Value of a variable in its own unit, for showing next to that unit **/
+  detach: function (value: QuantityType | undefined, latex?: string) {
+    if (!isUnit(value)) return value;
+    return toValue(value.toNumeric(this.parse(latex)?.formatUnits()));
+  },
+  /** Converts a final answer to a unit, throwing if the dimensions of the answer do not match it **/
+  convert: function (value: QuantityType | undefined, latex?: string) {
+    const declared = this.parse(latex);
+    if (!declared) {
+      if (isUnit(value)) {
+        throw new Error(
+          `has units of ${value.formatUnits()}, please give it a matching unit`
+        );
+      }
+      return toValue(value);
+    }
+
+    // Plain numbers are taken to already be in the declared unit
+    const quantity = isUnit(value)
+      ? value
+      : (multiply(value ?? NaN, declared) as Unit);
+    if (!quantity.equalBase(declared)) {
+      throw new Error(
+        `has units of ${quantity.formatUnits()}, which cannot be converted to ${declared.formatUnits()}`
+      );
+    }
+    return toValue(quantity.toNumeric(declared.formatUnits()));
+  },
+  /**
+   * Converts a final answer to its unit, rescaled to the SI prefix that puts its
+   * magnitude between 1 and 1000 (eg. 0.0033 A is 3.3 mA). Throws if the
+   * dimensions of the answer do not match its unit.
+   */
+  scale: function (
+    value: QuantityType | undefined,
+    latex?: string
+  ): { value: number | ComplexValue; unit?: string } {
+    const unscaled = { value: this.convert(value, latex), unit: latex };
+    const declared = this.parse(latex);
+    if (!declared) return unscaled;
+    const quantity = isUnit(value)
+      ? value
+      : (multiply(value ?? NaN, declared) as Unit);
+
+    // Only rescale single units with SI prefixes, leaving angles and temperatures as is
+    const [component, ...rest] = declared.units;
+    if (
+      !component ||
+      rest.length > 0 ||
+      component.power !== 1 ||
+      component.unit.offset !== 0 ||
+      component.unit.base.key === "ANGLE"
+    ) {
+      return unscaled;
+    }
+
+    const base = toValue(quantity.toNumeric(component.unit.name));
+    const magnitude = CustomMath.isComplex(base)
+      ? Math.hypot(base.re, base.im)
+      : Math.abs(base);
+    if (magnitude === 0 || !isFinite(magnitude)) return unscaled;
+
+    const exponent = Math.min(
+      12,
+      Math.max(-12, Math.floor(Math.log10(magnitude) / 3) * 3)
+    );
+    const prefix = PREFIXES[exponent];
+    const name = `${prefix}${component.unit.name}`;
+    if (
+      prefix === undefined ||
+      !(prefix in component.unit.prefixes) ||
+      name === declared.formatUnits()
+    ) {
+      return unscaled;
+    }
+
+    return {
+      value: toValue(quantity.toNumeric(name)),
+      unit: this.toLatex(prefix, component.unit.name),
+    };
+  },
+};
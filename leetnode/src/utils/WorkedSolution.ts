@@ -0,0 +1,91 @@
+import { QuestionDataType, SolutionStepType } from "@/types/question-types";
+import { Question } from "@prisma/client";
+
+import { CustomEval } from "./CustomEval";
+
+type SolvableQuestionType = Pick<Question, "variationId" | "questionData">;
+
+// Characters around a variable name that make it part of a longer name or command, such as
+// R in R_1 or in \Rightarrow
+const BEFORE_NAME = /[A-Za-z0-9_\\]/;
+const AFTER_NAME = /[A-Za-z0-9_]/;
+
+// Worked solutions revealed once a question is answered, in the values of the student's instance
+export const WorkedSolution = {
+  /** Replaces each variable in an expression with its value, longest names first **/
+  substitute: function (
+    expr: string,
+    values: { [name: string]: string },
+    wrap: (value: string) => string
+  ) {
+    const names = Object.keys(values).sort((a, b) => b.length - a.length);
+    if (names.length === 0) return expr;
+    const pattern = new RegExp(
+      names
+        .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("|"),
+      "g"
+    );
+    return expr.replace(pattern, (name: string, offset: number) => {
+      const before = expr[offset - 1] ?? "";
+      const after = expr[offset + name.length] ?? "";
+      if (BEFORE_NAME.test(before) || AFTER_NAME.test(after)) return name;
+      return wrap(values[name] as string);
+    });
+  },
+  /** Steps of the methods of a question, evaluated from the seed of an instance if dynamic **/
+  steps: function (
+    question: SolvableQuestionType,
+    seed: number | null
+  ): SolutionStepType[] {
+    const questionData = question.questionData as QuestionDataType;
+    const methods = questionData.methods ?? [];
+
+    // Instances served before seeds were stored, or that no longer evaluate, only show the methods
+    let values: { [name: string]: string } = {};
+    if (question.variationId === 0 && seed !== null) {
+      try {
+        ({ values } = CustomEval(
+          questionData.variables,
+          questionData.methods,
+          true,
+          seed,
+          questionData.misconceptions,
+          questionData.constraints,
+          questionData.parts,
+          questionData.netlist,
+          questionData.checkUnits
+        ));
+      } catch (e) {
+        values = {};
+      }
+    }
+
+    return methods.map((method) => {
+      const [lhs = "", rhs = ""] = method.expr.split("=").map((s) => s.trim());
+      const substituted = this.substitute(
+        rhs,
+        values,
+        // Values with units or signs are bracketed so that the expression reads the same
+        (value) => (/[~\s-]/.test(value) ? `\\left(${value}\\right)` : value)
+      ).replace(/\*/g, "\\times ");
+      const explanation = method.explanation?.trim()
+        ? method.explanation.replace(/\{\{(.+?)\}\}(?!\})/g, (match, name) => {
+            const value = values[String(name).trim()];
+            return value === undefined ? match : `$${value}$`;
+          })
+        : undefined;
+      return {
+        key: method.key,
+        expr: method.expr,
+        substituted:
+          values[lhs] !== undefined && substituted !== rhs
+            ? `${lhs} = ${substituted}`
+            : undefined,
+        result:
+          values[lhs] !== undefined ? `${lhs} = ${values[lhs]}` : undefined,
+        explanation,
+      };
+    });
+  },
+};
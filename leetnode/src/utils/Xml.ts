@@ -0,0 +1,202 @@
+export type XmlElementType = {
+  name: string; // Without its namespace prefix, eg. assessmentItem
+  attributes: { [name: string]: string };
+  children: (XmlElementType | string)[]; // Text is already unescaped
+};
+
+// Elements of HTML that have no closing tag, written as <br/> in XML
+const VOID_ELEMENTS = [
+  "area",
+  "br",
+  "col",
+  "hr",
+  "img",
+  "input",
+  "source",
+  "wbr",
+];
+
+// Named entities of HTML that question content uses, on top of the 5 of XML
+const ENTITIES: { [name: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const unescape = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+// Minimal XML for the interchange formats of question banks, which need no DTDs or namespaces
+export const Xml = {
+  /** Escapes text for an element or an attribute **/
+  escape: function (text: string) {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  },
+  /** HTML that can be embedded in XML, closing void elements and numbering entities **/
+  fromHtml: function (html: string) {
+    return html
+      .replace(
+        new RegExp(
+          `<(${VOID_ELEMENTS.join("|")})((?:\\s[^>]*?)?)\\s*/?>`,
+          "gi"
+        ),
+        "<$1$2/>"
+      )
+      .replace(/&(\w+);/g, (entity, name: string) =>
+        ["amp", "lt", "gt", "quot", "apos"].includes(name)
+          ? entity
+          : ENTITIES[name]
+          ? `&#${ENTITIES[name]?.codePointAt(0)};`
+          : entity
+      );
+  },
+  /** Parses a document into its root element, skipping declarations and comments **/
+  parse: function (text: string): XmlElementType {
+    const root: XmlElementType = { name: "", attributes: {}, children: [] };
+    const stack = [root];
+    let position = 0;
+    const until = (token: string, from: number) => {
+      const end = text.indexOf(token, from);
+      if (end === -1) throw new Error(`Missing ${token} in XML`);
+      return end;
+    };
+    // End of a start tag, skipping any > inside its quoted attributes
+    const tagEnd = (from: number) => {
+      let quote: string | undefined;
+      for (let index = from; index < text.length; index++) {
+        const char = text[index] as string;
+        if (quote) {
+          if (char === quote) quote = undefined;
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === ">") {
+          return index;
+        }
+      }
+      throw new Error("Unclosed tag in XML");
+    };
+    while (position < text.length) {
+      const parent = stack[stack.length - 1] as XmlElementType;
+      if (text.startsWith("<!--", position)) {
+        position = until("-->", position) + 3;
+      } else if (text.startsWith("<![CDATA[", position)) {
+        const end = until("]]>", position);
+        parent.children.push(text.slice(position + 9, end));
+        position = end + 3;
+      } else if (
+        text.startsWith("<?", position) ||
+        text.startsWith("<!", position)
+      ) {
+        position = until(">", position) + 1;
+      } else if (text.startsWith("</", position)) {
+        const end = until(">", position);
+        const name = localName(text.slice(position + 2, end).trim());
+        if (stack.length === 1 || parent.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}> in XML`);
+        }
+        stack.pop();
+        position = end + 1;
+      } else if (text[position] === "<") {
+        const end = tagEnd(position);
+        const tag = text.slice(position + 1, end);
+        const isSelfClosing = tag.endsWith("/");
+        const [, name = ""] = tag.match(/^([^\s/>]+)/) ?? [];
+        const element: XmlElementType = {
+          name: localName(name),
+          attributes: {},
+          children: [],
+        };
+        for (const [, key, , value] of tag.matchAll(
+          /([^\s=]+)\s*=\s*(["'])([\s\S]*?)\2/g
+        )) {
+          element.attributes[localName(key as string)] = unescape(
+            value as string
+          );
+        }
+        parent.children.push(element);
+        if (!isSelfClosing) stack.push(element);
+        position = end + 1;
+      } else {
+        const end = text.indexOf("<", position);
+        const content = text.slice(position, end === -1 ? undefined : end);
+        if (content.trim().length > 0 || stack.length > 1) {
+          parent.children.push(unescape(content));
+        }
+        position = end === -1 ? text.length : end;
+      }
+    }
+
+    if (stack.length > 1) {
+      throw new Error(
+        `Missing closing tag </${stack[stack.length - 1]?.name}> in XML`
+      );
+    }
+    const element = root.children.find(
+      (child): child is XmlElementType => typeof child !== "string"
+    );
+    if (!element) throw new Error("The XML has no root element");
+    return element;
+  },
+  /** Child elements with a name, in order **/
+  children: function (element: XmlElementType, name: string) {
+    return element.children.filter(
+      (child): child is XmlElementType =>
+        typeof child !== "string" && child.name === name
+    );
+  },
+  /** First child element with a name **/
+  child: function (element: XmlElementType, name: string) {
+    return this.children(element, name)[0];
+  },
+  /** First element with a name, searching depth-first **/
+  find: function (
+    element: XmlElementType,
+    name: string
+  ): XmlElementType | undefined {
+    for (const child of element.children) {
+      if (typeof child === "string") continue;
+      if (child.name === name) return child;
+      const found = this.find(child, name);
+      if (found) return found;
+    }
+    return undefined;
+  },
+  /** All the text inside an element **/
+  text: function (element: XmlElementType | undefined): string {
+    if (!element) return "";
+    return element.children
+      .map((child) => (typeof child === "string" ? child : this.text(child)))
+      .join("");
+  },
+  /** Markup of the children of an element, such as the HTML of a choice **/
+  inner: function (element: XmlElementType): string {
+    return element.children
+      .map((child) => {
+        if (typeof child === "string") return this.escape(child);
+        const attributes = Object.entries(child.attributes)
+          .map(([key, value]) => ` ${key}="${this.escape(value)}"`)
+          .join("");
+        return VOID_ELEMENTS.includes(child.name)
+          ? `<${child.name}${attributes}>`
+          : `<${child.name}${attributes}>${this.inner(child)}</${child.name}>`;
+      })
+      .join("");
+  },
+};
@@ -0,0 +1,125 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+// Signatures of the records of a zip archive
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Compression methods, only deflate being written
+const STORED = 0;
+const DEFLATED = 8;
+
+export type ZipFileType = { name: string; data: Buffer };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) {
+    crc =
+      (CRC_TABLE[(crc ^ (data[index] as number)) & 0xff] as number) ^
+      (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Zip archives of files, such as QTI content packages, run on the server only
+export const Zip = {
+  /** Archives files, deflating each of them **/
+  write: function (files: ZipFileType[]) {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const file of files) {
+      const name = Buffer.from(file.name, "utf8");
+      const compressed = deflateRawSync(file.data);
+      const crc = crc32(file.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(LOCAL_HEADER, 0);
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+      local.writeUInt16LE(DEFLATED, 8);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(file.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      locals.push(local, name, compressed);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(CENTRAL_HEADER, 0);
+      central.writeUInt16LE(20, 4); // Version made by
+      central.writeUInt16LE(20, 6);
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(DEFLATED, 10);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(file.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+      centrals.push(central, name);
+
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+  },
+  /** Extracts the files of an archive, skipping directories **/
+  read: function (archive: Buffer): ZipFileType[] {
+    let end = archive.length - 22;
+    while (end >= 0 && archive.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) {
+      end--;
+    }
+    if (end < 0) throw new Error("The file is not a zip archive");
+
+    const files: ZipFileType[] = [];
+    let position = archive.readUInt32LE(end + 16);
+    for (let entry = 0; entry < archive.readUInt16LE(end + 10); entry++) {
+      if (archive.readUInt32LE(position) !== CENTRAL_HEADER) {
+        throw new Error("The zip archive is corrupted");
+      }
+      const method = archive.readUInt16LE(position + 10);
+      const compressedSize = archive.readUInt32LE(position + 20);
+      const nameLength = archive.readUInt16LE(position + 28);
+      const extraLength = archive.readUInt16LE(position + 30);
+      const commentLength = archive.readUInt16LE(position + 32);
+      const localOffset = archive.readUInt32LE(position + 42);
+      const name = archive.toString(
+        "utf8",
+        position + 46,
+        position + 46 + nameLength
+      );
+      position += 46 + nameLength + extraLength + commentLength;
+      if (name.endsWith("/")) continue;
+
+      // Local headers can have extra fields of their own before the data
+      const start =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(start, start + compressedSize);
+      if (method === STORED) {
+        files.push({ name, data });
+      } else if (method === DEFLATED) {
+        files.push({ name, data: inflateRawSync(data) });
+      } else {
+        throw new Error(`${name} is compressed with an unsupported method`);
+      }
+    }
+    return files;
+  },
+};
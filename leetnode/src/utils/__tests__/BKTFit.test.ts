@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { BKT, BKTParams } from "../BKT";
+import { calibrationWarnings, fitBKT, rmseBKT } from "../BKTFit";
+import { CustomMath } from "../CustomMath";
+
+const TRUE_PARAMS: BKTParams = {
+  prior: 0.3,
+  learn: 0.15,
+  guess: 0.2,
+  slip: 0.1,
+};
+const INITIAL_PARAMS: BKTParams = {
+  prior: 0.5,
+  learn: 0.1,
+  guess: 0.25,
+  slip: 0.15,
+};
+
+// Responses of students whose mastery follows the BKT model with the given parameters
+const simulate = (
+  params: BKTParams,
+  students: number,
+  length: number,
+  seed = 1
+) => {
+  const rng = CustomMath.seededRandom(seed);
+  return Array.from({ length: students }, () => {
+    let isMastered = rng() < params.prior;
+    return Array.from({ length: length }, () => {
+      const isCorrect = isMastered
+        ? rng() >= params.slip
+        : rng() < params.guess;
+      isMastered = isMastered || rng() < params.learn;
+      return isCorrect;
+    });
+  });
+};
+
+describe("fitBKT", () => {
+  it("keeps the initial parameters when there are no responses", () => {
+    const result = fitBKT([[], []], INITIAL_PARAMS);
+    assert.deepEqual(result.params, INITIAL_PARAMS);
+    assert.equal(result.responses, 0);
+    assert.equal(result.iterations, 0);
+  });
+
+  it("recovers the parameters that generated the responses", () => {
+    const sequences = simulate(TRUE_PARAMS, 500, 20);
+    const { params, responses } = fitBKT(sequences, INITIAL_PARAMS);
+    assert.equal(responses, 500 * 20);
+    for (const key of ["prior", "learn", "guess", "slip"] as const) {
+      assert.ok(
+        Math.abs(params[key] - TRUE_PARAMS[key]) < 0.05,
+        `${key} is ${params[key]}, expected about ${TRUE_PARAMS[key]}`
+      );
+    }
+  });
+
+  it("predicts the responses better than the initial parameters", () => {
+    const sequences = simulate(TRUE_PARAMS, 200, 10, 2);
+    const { params, rmse } = fitBKT(sequences, INITIAL_PARAMS);
+    assert.equal(rmse, rmseBKT(sequences, params));
+    assert.ok(rmse < rmseBKT(sequences, INITIAL_PARAMS));
+  });
+
+  it("keeps parameters within bounds when every response is correct", () => {
+    const { params } = fitBKT(
+      Array.from({ length: 50 }, () => Array(10).fill(true)),
+      INITIAL_PARAMS
+    );
+    assert.ok(params.prior <= 0.99);
+    assert.ok(params.guess >= 0.01 && params.guess <= 0.3);
+    assert.ok(params.slip >= 0.01 && params.slip <= 0.3);
+  });
+});
+
+describe("rmseBKT", () => {
+  it("is 0 without responses", () => {
+    assert.equal(rmseBKT([], TRUE_PARAMS), 0);
+  });
+
+  it("compares each response with the mastery traced before it", () => {
+    const sequence = [false, true, true];
+    const expected = Math.sqrt(
+      sequence.reduce((sum, isCorrect, index) => {
+        const mastery = BKT.trace(sequence.slice(0, index), TRUE_PARAMS);
+        const predicted = BKT.predictCorrect(mastery, TRUE_PARAMS);
+        return sum + (Number(isCorrect) - predicted) ** 2;
+      }, 0) / sequence.length
+    );
+    assert.ok(Math.abs(rmseBKT([sequence], TRUE_PARAMS) - expected) < 1e-12);
+  });
+});
+
+describe("calibrationWarnings", () => {
+  it("flags topics that have not been fitted", () => {
+    assert.deepEqual(calibrationWarnings(TRUE_PARAMS, null, 0), [
+      "Not fitted yet",
+    ]);
+  });
+
+  it("flags fits from few attempts or at the limits of the bounds", () => {
+    assert.deepEqual(
+      calibrationWarnings(
+        { prior: 0.5, learn: 0.001, guess: 0.3, slip: 0.3 },
+        0.5,
+        10
+      ),
+      [
+        "Too few attempts for a reliable fit",
+        "High prediction error",
+        "Students never learn",
+        "Guess rate at limit",
+        "Slip rate at limit",
+      ]
+    );
+    assert.deepEqual(calibrationWarnings(TRUE_PARAMS, 0.4, 1000), []);
+  });
+});
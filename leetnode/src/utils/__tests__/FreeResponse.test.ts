@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { QuestionDataType } from "@/types/question-types";
+
+import { FreeResponse } from "../FreeResponse";
+
+type VariableType = QuestionDataType["variables"][number];
+
+const finalAnswer = (variable: Partial<VariableType>): VariableType => ({
+  key: "mantine-current",
+  encoded: "ÀÁÂÃÄÅÆÇ",
+  name: "I_1",
+  randomize: false,
+  isFinalAnswer: true,
+  ...variable,
+});
+
+describe("FreeResponse.parse", () => {
+  it("reads plain, signed and scientific numbers", () => {
+    assert.equal(FreeResponse.parse("4.7"), 4.7);
+    assert.equal(FreeResponse.parse(" -0.5 "), -0.5);
+    assert.equal(FreeResponse.parse(".25"), 0.25);
+    assert.equal(FreeResponse.parse("1.2e-3"), 1.2e-3);
+  });
+
+  it("scales numbers by a bare SI prefix", () => {
+    assert.equal(FreeResponse.parse("4.7k"), 4700);
+    assert.equal(FreeResponse.parse("2 M"), 2e6);
+    assert.equal(FreeResponse.parse("10u"), 10 * 1e-6);
+    assert.equal(FreeResponse.parse("10µ"), 10 * 1e-6);
+  });
+
+  it("converts between prefixes of the final answer's unit", () => {
+    assert.equal(FreeResponse.parse("3.3 mA", "\\text{A}"), 3.3e-3);
+    assert.equal(FreeResponse.parse("3300 uA", "\\text{mA}"), 3.3);
+    assert.equal(FreeResponse.parse("2 k\\Omega", "\\Omega"), 2000);
+    assert.equal(FreeResponse.parse("2 kohm", "\\text{k}\\Omega"), 2);
+    assert.equal(FreeResponse.parse("5 V", "\\text{V}"), 5);
+  });
+
+  it("returns null for what is not a number or a known unit", () => {
+    assert.equal(FreeResponse.parse(""), null);
+    assert.equal(FreeResponse.parse("abc"), null);
+    assert.equal(FreeResponse.parse("5 apples", "\\text{V}"), null);
+  });
+});
+
+describe("FreeResponse.isWithinTolerance", () => {
+  it("defaults to a relative tolerance of 1%", () => {
+    assert.ok(FreeResponse.isWithinTolerance(101, 100));
+    assert.ok(FreeResponse.isWithinTolerance(-99, -100));
+    assert.ok(!FreeResponse.isWithinTolerance(101.5, 100));
+  });
+
+  it("uses the tolerance of the final answer, relative or absolute", () => {
+    const relative = finalAnswer({ tolerance: 5, toleranceType: "Relative" });
+    assert.ok(FreeResponse.isWithinTolerance(10.4, 10, relative));
+    assert.ok(!FreeResponse.isWithinTolerance(10.6, 10, relative));
+
+    const absolute = finalAnswer({ tolerance: 0.2, toleranceType: "Absolute" });
+    assert.ok(FreeResponse.isWithinTolerance(0.15, 0, absolute));
+    assert.ok(!FreeResponse.isWithinTolerance(0.25, 0, absolute));
+  });
+
+  it("allows for floating point error at the edge of the tolerance", () => {
+    const exact = finalAnswer({ tolerance: 0 });
+    assert.ok(FreeResponse.isWithinTolerance(0.1 + 0.2, 0.3, exact));
+  });
+});
+
+describe("FreeResponse.grade", () => {
+  const variables = [
+    finalAnswer({ unit: "\\text{A}" }),
+    finalAnswer({ key: "mantine-voltage", name: "V_1", unit: "\\text{V}" }),
+  ];
+  // Final answers as stored for an instance, with the current rescaled to mA
+  const answers = FreeResponse.answers([
+    { key: "mantine-current", answerContent: "3.3", unit: "\\text{mA}" },
+    { key: "mantine-voltage", answerContent: "12" },
+  ]);
+
+  it("stores final answers with their rescaled unit", () => {
+    assert.deepEqual(
+      answers.map((answer) => answer.answerContent),
+      ["3.3~\\text{mA}", "12"]
+    );
+    assert.ok(answers.every((answer) => answer.isCorrect));
+  });
+
+  it("accepts responses in any prefix of the final answer's unit", () => {
+    assert.ok(
+      FreeResponse.grade(
+        { "mantine-current": "0.0033", "mantine-voltage": "12 V" },
+        answers,
+        variables
+      )
+    );
+    assert.ok(
+      FreeResponse.grade(
+        { "mantine-current": "3.3 mA", "mantine-voltage": "12.1" },
+        answers,
+        variables
+      )
+    );
+  });
+
+  it("requires every final answer to be correct", () => {
+    assert.ok(
+      !FreeResponse.grade(
+        { "mantine-current": "3.3 mA", "mantine-voltage": "13" },
+        answers,
+        variables
+      )
+    );
+    assert.ok(
+      !FreeResponse.grade({ "mantine-current": "3.3 mA" }, answers, variables)
+    );
+  });
+});
+
+describe("FreeResponse.checkReal", () => {
+  const finalAnswers = [
+    { key: "mantine-current", name: "I_1", value: 0.5 },
+    { key: "mantine-impedance", name: "Z_1", value: { re: 3, im: 4 } },
+  ];
+
+  it("rejects complex final answers asked for in free response", () => {
+    assert.throws(
+      () =>
+        FreeResponse.checkReal({ answerMode: "FreeResponse" }, finalAnswers),
+      /Final answer Z_1 is complex/
+    );
+    assert.throws(
+      () =>
+        FreeResponse.checkReal(
+          {
+            parts: [
+              {
+                key: "part-1",
+                prompt: "Find I_1",
+                finalAnswers: ["mantine-current"],
+              },
+              {
+                key: "part-2",
+                prompt: "Find Z_1",
+                answerMode: "FreeResponse",
+                finalAnswers: ["mantine-impedance"],
+              },
+            ],
+          },
+          finalAnswers
+        ),
+      /Final answer Z_1 is complex/
+    );
+  });
+
+  it("allows complex final answers asked for in multiple choice", () => {
+    FreeResponse.checkReal({ answerMode: "MultipleChoice" }, finalAnswers);
+    FreeResponse.checkReal(
+      {
+        answerMode: "FreeResponse",
+        parts: [
+          {
+            key: "part-1",
+            prompt: "Find I_1",
+            answerMode: "FreeResponse",
+            finalAnswers: ["mantine-current"],
+          },
+          {
+            key: "part-2",
+            prompt: "Find Z_1",
+            finalAnswers: ["mantine-impedance"],
+          },
+        ],
+      },
+      finalAnswers
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { Complex, evaluate, Unit } from "mathjs";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { Netlist } from "../Netlist";
+import { QuantityType } from "../Units";
+
+const valueOf = (expr: string) => evaluate(expr) as QuantityType;
+
+const solve = (text: string) => Netlist.solve(Netlist.parse(text), valueOf);
+
+// Value of a result in SI units, which is a number unless the analysis is AC
+const si = (result: QuantityType | undefined) =>
+  (result as Unit).value as unknown as number | Complex;
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(
+    Math.abs(actual - expected) <= 1e-9 * Math.max(1, Math.abs(expected)),
+    `expected ${actual} to be close to ${expected}`
+  );
+
+describe("Netlist.parse", () => {
+  it("reads elements, skipping comments and control lines", () => {
+    const netlist = Netlist.parse(
+      [
+        "* Voltage divider",
+        "V1 in 0 V_s",
+        "R1 in out R_1",
+        "E1 amp 0 out 0 A_v",
+        ".op",
+        ".end",
+      ].join("\n")
+    );
+    assert.equal(netlist.omega, undefined);
+    assert.deepEqual(
+      netlist.elements.map(({ name, kind, nodes, expr }) => ({
+        name,
+        kind,
+        nodes,
+        expr,
+      })),
+      [
+        { name: "V1", kind: "V", nodes: ["in", "0"], expr: "V_s" },
+        { name: "R1", kind: "R", nodes: ["in", "out"], expr: "R_1" },
+        { name: "E1", kind: "E", nodes: ["amp", "0"], expr: "A_v" },
+      ]
+    );
+    assert.deepEqual(netlist.elements[2]?.controlNodes, ["out", "0"]);
+  });
+
+  it("reads the angular frequency of an AC analysis", () => {
+    const netlist = Netlist.parse("V1 in 0 1 V\nR1 in 0 R\n.ac 2 * pi * f");
+    assert.equal(netlist.omega, "2 * pi * f");
+  });
+
+  it("rejects netlists that cannot be solved", () => {
+    assert.throws(
+      () => Netlist.parse("X1 a 0 1"),
+      /is not a supported element/
+    );
+    assert.throws(
+      () => Netlist.parse("R1 a 0 1\nR1 a 0 2"),
+      /R1 is defined twice/
+    );
+    assert.throws(() => Netlist.parse("R1 a 0"), /needs 2 nodes and a value/);
+    assert.throws(
+      () => Netlist.parse("E1 a 0 b 0"),
+      /needs 4 nodes and a value/
+    );
+    assert.throws(
+      () => Netlist.parse("R1 a 0 1\n.ac"),
+      /.ac needs an angular frequency/
+    );
+    assert.throws(() => Netlist.parse("* Nothing\n.end"), /has no elements/);
+  });
+});
+
+describe("Netlist.outputs", () => {
+  it("names the voltage of every node but ground and the current of every element", () => {
+    const outputs = Netlist.outputs(
+      Netlist.parse("V1 in gnd 10 V\nR1 in out 1 kohm\nR2 out GND 1 kohm")
+    );
+    assert.deepEqual(outputs.nodes, ["in", "out"]);
+    assert.deepEqual(outputs.voltages, ["V_{in}", "V_{out}"]);
+    assert.deepEqual(outputs.currents, ["I_{V1}", "I_{R1}", "I_{R2}"]);
+  });
+});
+
+describe("Netlist.solve", () => {
+  it("solves a voltage divider", () => {
+    const results = solve("V1 in 0 10 V\nR1 in out 1 kohm\nR2 out 0 1 kohm");
+    assertClose(si(results["V_{in}"]) as number, 10);
+    assertClose(si(results["V_{out}"]) as number, 5);
+    assertClose(si(results["I_{R1}"]) as number, 5e-3);
+    assertClose(si(results["I_{R2}"]) as number, 5e-3);
+    // Current into the positive node of the source, as in SPICE
+    assertClose(si(results["I_{V1}"]) as number, -5e-3);
+    assert.ok((results["V_{out}"] as Unit).equalBase(evaluate("1 V")));
+    assert.ok((results["I_{R1}"] as Unit).equalBase(evaluate("1 A")));
+  });
+
+  it("drives current from the first node of a current source to the second", () => {
+    const results = solve("I1 0 out 2 mA\nR1 out 0 1 kohm");
+    assertClose(si(results["V_{out}"]) as number, 2);
+    assertClose(si(results["I_{I1}"]) as number, 2e-3);
+  });
+
+  it("shorts inductors and opens capacitors in DC analyses", () => {
+    const inductor = solve("V1 in 0 10 V\nR1 in out 1 kohm\nL1 out 0 1 mH");
+    assertClose(si(inductor["V_{out}"]) as number, 0);
+    assertClose(si(inductor["I_{L1}"]) as number, 10e-3);
+
+    const capacitor = solve("V1 in 0 10 V\nR1 in out 1 kohm\nC1 out 0 1 uF");
+    assertClose(si(capacitor["V_{out}"]) as number, 10);
+    assertClose(si(capacitor["I_{C1}"]) as number, 0);
+  });
+
+  it("solves dependent sources", () => {
+    const vcvs = solve("V1 in 0 1 V\nE1 out 0 in 0 10\nR1 out 0 1 kohm");
+    assertClose(si(vcvs["V_{out}"]) as number, 10);
+
+    const vccs = solve("V1 in 0 2 V\nG1 0 out in 0 1 mS\nR1 out 0 1 kohm");
+    assertClose(si(vccs["V_{out}"]) as number, 2);
+  });
+
+  it("solves AC analyses at an angular frequency or frequency", () => {
+    const lowPass = "V1 in 0 1 V\nR1 in out 1 kohm\nC1 out 0 1 uF\n";
+    for (const omega of ["1000 rad/s", `${1000 / (2 * Math.PI)} Hz`]) {
+      const output = si(solve(`${lowPass}.ac ${omega}`)["V_{out}"]) as Complex;
+      // 1 / (1 + j) at the corner frequency
+      assertClose(output.re, 0.5);
+      assertClose(output.im, -0.5);
+    }
+  });
+
+  it("rejects circuits and values that cannot be solved", () => {
+    assert.throws(
+      () => solve("V1 a 0 1 V\nV2 a 0 2 V"),
+      /The circuit has no unique solution/
+    );
+    assert.throws(
+      () => solve("V1 a 0 1 V\nR1 a 0 1 V"),
+      /R1 has units of V, expected ohm/
+    );
+    assert.throws(
+      () => solve("V1 a 0 1 V\nR1 a 0 1 kohm\n.ac 1 ohm"),
+      /.ac has units of ohm, expected rad\/s or Hz/
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { InterchangeItemType } from "../QuestionBank";
+import { QuestionFormats } from "../QuestionFormats";
+import { Zip } from "../Zip";
+
+const items: InterchangeItemType[] = [
+  {
+    title: "Divider {1}: V = IR",
+    content: "<p>Find V_x when V = 5 &amp; R = 1 k#</p>\n<p>Round to 1 dp</p>",
+    answers: [
+      { answerContent: "\\frac{1}{2}", isCorrect: true, isLatex: true },
+      { answerContent: "2 ~ 3 = 5", isCorrect: false, isLatex: false },
+    ],
+  },
+  {
+    title: "Passive elements",
+    content: "<p>Which elements are passive?<br></p>",
+    answers: [
+      { answerContent: "Resistor", isCorrect: true, isLatex: false },
+      { answerContent: "Capacitor", isCorrect: true, isLatex: false },
+      { answerContent: "Op-amp", isCorrect: false, isLatex: false },
+    ],
+  },
+];
+
+describe("QuestionFormats GIFT", () => {
+  it("reads back the questions it writes", () => {
+    const gift = QuestionFormats.toGift(items);
+    assert.deepEqual(QuestionFormats.fromGift(gift), { items, skipped: [] });
+  });
+
+  it("weighs the options of questions with several correct answers", () => {
+    const gift = QuestionFormats.toGift(items.slice(1));
+    assert.match(gift, /~%50%Resistor/);
+    assert.match(gift, /~%-100%Op-amp/);
+  });
+
+  it("reads multiple-choice questions written in other systems", () => {
+    const { items: parsed, skipped } = QuestionFormats.fromGift(
+      [
+        "// Exported from Moodle",
+        "$CATEGORY: $course$/Circuits",
+        "",
+        "::Ohm's law::What is the unit of R\\=V/I? {",
+        "  =ohm # Volts per ampere",
+        "  ~siemens",
+        "  ~%-50%farad",
+        "}",
+        "",
+        "Current flows from + to - {T}",
+        "",
+        "::Gain::Voltage gain of a follower {#1}",
+      ].join("\r\n")
+    );
+    assert.deepEqual(parsed, [
+      {
+        title: "Ohm's law",
+        content: "<p>What is the unit of R=V/I?</p>",
+        answers: [
+          { answerContent: "ohm", isCorrect: true, isLatex: false },
+          { answerContent: "siemens", isCorrect: false, isLatex: false },
+          { answerContent: "farad", isCorrect: false, isLatex: false },
+        ],
+      },
+    ]);
+    assert.deepEqual(skipped, [
+      "Current flows from + to - is not a multiple-choice question",
+      "Gain is not a multiple-choice question",
+    ]);
+  });
+
+  it("skips questions without a correct answer", () => {
+    const { skipped } = QuestionFormats.fromGift("::None::Pick {~a ~b}");
+    assert.deepEqual(skipped, ["None has no correct answer"]);
+  });
+});
+
+describe("QuestionFormats Moodle XML", () => {
+  it("reads back the questions it writes", () => {
+    const xml = QuestionFormats.toMoodleXml(items);
+    assert.deepEqual(QuestionFormats.fromMoodleXml(xml), {
+      items,
+      skipped: [],
+    });
+  });
+
+  it("skips categories and questions of other types", () => {
+    const { items: parsed, skipped } = QuestionFormats.fromMoodleXml(
+      [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<quiz>`,
+        `  <question type="category"><category><text>$course$/Circuits</text></category></question>`,
+        `  <question type="essay"><name><text>Explain</text></name></question>`,
+        `  <question type="multichoice">`,
+        `    <questiontext format="moodle_auto_format"><text>1 + 1 =</text></questiontext>`,
+        `    <answer fraction="100"><text><![CDATA[<p>\\(2\\)</p>]]></text></answer>`,
+        `    <answer fraction="0"><text><p>3</p></text></answer>`,
+        `  </question>`,
+        `</quiz>`,
+      ].join("\n")
+    );
+    assert.deepEqual(parsed, [
+      {
+        title: "1 + 1 =",
+        content: "<p>1 + 1 =</p>",
+        answers: [
+          { answerContent: "2", isCorrect: true, isLatex: true },
+          { answerContent: "3", isCorrect: false, isLatex: false },
+        ],
+      },
+    ]);
+    assert.deepEqual(skipped, ["Explain is a essay question"]);
+  });
+
+  it("rejects documents that are not quizzes", () => {
+    assert.throws(
+      () => QuestionFormats.fromMoodleXml("<questions></questions>"),
+      /Not a Moodle XML quiz/
+    );
+  });
+});
+
+describe("QuestionFormats QTI", () => {
+  it("reads back the content package it writes", () => {
+    const zip = QuestionFormats.toQti(items);
+    assert.deepEqual(
+      Zip.read(zip).map((entry) => entry.name),
+      ["imsmanifest.xml", "items/item-1.xml", "items/item-2.xml"]
+    );
+    assert.deepEqual(QuestionFormats.fromQti(zip), { items, skipped: [] });
+  });
+
+  it("reads a single item file, with the prompt as part of the question", () => {
+    const { items: parsed } = QuestionFormats.fromQti(
+      Buffer.from(
+        [
+          `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Series">`,
+          `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">`,
+          `    <correctResponse><value>B</value></correctResponse>`,
+          `  </responseDeclaration>`,
+          `  <itemBody><p>Two 1 kΩ resistors are in series.</p><choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">`,
+          `    <prompt>What is their total resistance?</prompt>`,
+          `    <simpleChoice identifier="A">500 Ω</simpleChoice>`,
+          `    <simpleChoice identifier="B">2 kΩ</simpleChoice>`,
+          `  </choiceInteraction></itemBody>`,
+          `</assessmentItem>`,
+        ].join("\n"),
+        "utf8"
+      )
+    );
+    assert.deepEqual(parsed, [
+      {
+        title: "Series",
+        content:
+          "<p>Two 1 kΩ resistors are in series.</p>What is their total resistance?",
+        answers: [
+          { answerContent: "500 Ω", isCorrect: false, isLatex: false },
+          { answerContent: "2 kΩ", isCorrect: true, isLatex: false },
+        ],
+      },
+    ]);
+  });
+
+  it("rejects files without assessment items", () => {
+    assert.throws(
+      () => QuestionFormats.fromQti(Buffer.from("<manifest/>", "utf8")),
+      /No QTI 2.1 assessment items were found/
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { TextDiff } from "../TextDiff";
+
+describe("TextDiff.operations", () => {
+  it("keeps every line of identical texts", () => {
+    assert.deepEqual(TextDiff.operations(["a", "b"], ["a", "b"]), [
+      { kind: "Same", line: "a" },
+      { kind: "Same", line: "b" },
+    ]);
+  });
+
+  it("keeps the longest common subsequence of lines", () => {
+    const operations = TextDiff.operations(
+      ["a", "b", "c", "d"],
+      ["a", "c", "x", "d"]
+    );
+    assert.deepEqual(operations, [
+      { kind: "Same", line: "a" },
+      { kind: "Removed", line: "b" },
+      { kind: "Same", line: "c" },
+      { kind: "Added", line: "x" },
+      { kind: "Same", line: "d" },
+    ]);
+  });
+
+  it("turns the lines before into the lines after", () => {
+    const before = ["V1 in 0 V_s", "R1 in out R_1", "R2 out 0 R_2", ".op"];
+    const after = ["* Divider", "V1 in 0 V_s", "R2 out 0 R_3", ".op", ".end"];
+    const operations = TextDiff.operations(before, after);
+    assert.deepEqual(
+      operations.filter((op) => op.kind !== "Added").map((op) => op.line),
+      before
+    );
+    assert.deepEqual(
+      operations.filter((op) => op.kind !== "Removed").map((op) => op.line),
+      after
+    );
+    assert.equal(operations.filter((op) => op.kind === "Same").length, 2);
+  });
+
+  it("removes or adds every line when one side is empty", () => {
+    assert.deepEqual(TextDiff.operations(["a"], []), [
+      { kind: "Removed", line: "a" },
+    ]);
+    assert.deepEqual(TextDiff.operations([], ["a"]), [
+      { kind: "Added", line: "a" },
+    ]);
+    assert.deepEqual(TextDiff.operations([], []), []);
+  });
+});
+
+describe("TextDiff.sideBySide", () => {
+  it("pairs each run of removed lines with the added lines after it", () => {
+    assert.deepEqual(TextDiff.sideBySide("a\nb\nc\nd", "a\nx\ny\nz\nd"), [
+      { before: "a", after: "a", isChanged: false },
+      { before: "b", after: "x", isChanged: true },
+      { before: "c", after: "y", isChanged: true },
+      { before: null, after: "z", isChanged: true },
+      { before: "d", after: "d", isChanged: false },
+    ]);
+  });
+
+  it("leaves the missing side empty for lines only removed or added", () => {
+    assert.deepEqual(TextDiff.sideBySide("a\nb", "a"), [
+      { before: "a", after: "a", isChanged: false },
+      { before: "b", after: null, isChanged: true },
+    ]);
+    assert.deepEqual(TextDiff.sideBySide("b", "a\nb"), [
+      { before: null, after: "a", isChanged: true },
+      { before: "b", after: "b", isChanged: false },
+    ]);
+  });
+
+  it("marks no rows as changed between identical texts", () => {
+    assert.ok(
+      TextDiff.sideBySide("a\n\nb", "a\n\nb").every((row) => !row.isChanged)
+    );
+  });
+});